@@ -0,0 +1,440 @@
+import { InternalTranspilingError, WorkflowSyntaxError } from '../errors.js'
+import {
+  BinaryOperator,
+  binaryEx,
+  binaryOperatorPrecedence,
+  booleanEx,
+  Expression,
+  expressionToString,
+  functionInvocationEx,
+  isQualifiedName,
+  listEx,
+  mapEx,
+  memberEx,
+  nullEx,
+  numberEx,
+  stringEx,
+  unaryEx,
+  UnaryOperator,
+  variableReferenceEx,
+} from './expressions.js'
+
+type TokenType =
+  | 'number'
+  | 'string'
+  | 'identifier'
+  | 'operator'
+  | 'punctuation'
+  | 'end'
+
+interface Token {
+  type: TokenType
+  value: string
+  // Offset of the token in the expression text
+  offset: number
+}
+
+const BINARY_OPERATORS: BinaryOperator[] = [
+  '+',
+  '-',
+  '*',
+  '/',
+  '//',
+  '%',
+  '==',
+  '!=',
+  '>',
+  '>=',
+  '<',
+  '<=',
+  'in',
+  'and',
+  'or',
+]
+
+const UNARY_OPERATORS: UnaryOperator[] = ['not', '-', '+']
+
+const KEYWORD_OPERATORS = ['and', 'or', 'not', 'in']
+
+// Longer operators first so that "//" is not read as two "/"s
+const SYMBOL_OPERATORS = [
+  '//',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '<',
+  '>',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+]
+
+const PUNCTUATION = ['(', ')', '[', ']', '{', '}', ',', ':', '.']
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  '"': '"',
+  "'": "'",
+  '\\': '\\',
+  '/': '/',
+}
+
+/**
+ * Parse an expression in the Workflows expression language, for example
+ * 'sys.get_env("PROJECT") + "/" + name', into an Expression. The text must
+ * not be enclosed in ${}.
+ *
+ * Throws a WorkflowSyntaxError if the text is not a valid expression. The
+ * location of the error is the offset of the invalid token on line 1.
+ */
+export function parseExpression(text: string): Expression {
+  const parser = new ExpressionParser(text)
+  const ex = parser.expression()
+  parser.expectEnd()
+
+  return ex
+}
+
+/**
+ * Convert a value in a workflow definition to an Expression. A string
+ * enclosed in ${} is parsed as an expression. Lists and maps are converted
+ * recursively. This is the inverse of
+ * expressionToLiteralValueOrLiteralExpression().
+ */
+export function parseLiteralValueOrLiteralExpression(
+  value: unknown,
+): Expression {
+  if (value === null || value === undefined) {
+    return nullEx
+  } else if (typeof value === 'string') {
+    const match = /^\$\{([\s\S]*)\}$/.exec(value)
+    return match ? parseExpression(match[1]) : stringEx(value)
+  } else if (typeof value === 'number') {
+    return numberEx(value)
+  } else if (typeof value === 'boolean') {
+    return booleanEx(value)
+  } else if (Array.isArray(value)) {
+    return listEx(value.map(parseLiteralValueOrLiteralExpression))
+  } else if (typeof value === 'object') {
+    return mapEx(
+      Object.fromEntries(
+        Object.entries(value).map(([key, val]) => [
+          key,
+          parseLiteralValueOrLiteralExpression(val),
+        ]),
+      ),
+    )
+  } else {
+    throw new InternalTranspilingError(`Unexpected value type ${typeof value}`)
+  }
+}
+
+class ExpressionParser {
+  private readonly tokens: Token[]
+  private position = 0
+
+  constructor(private readonly text: string) {
+    this.tokens = tokenize(text)
+  }
+
+  expression(): Expression {
+    return this.binary(0)
+  }
+
+  expectEnd(): void {
+    if (this.peek().type !== 'end') {
+      this.fail(`Unexpected "${this.peek().value}"`)
+    }
+  }
+
+  // Parse binary operators that bind at least as tightly as minPrecedence.
+  // The operator precedences are those used by expressionToString().
+  private binary(minPrecedence: number): Expression {
+    let left = this.unary()
+    for (;;) {
+      const token = this.peek()
+      const operator = BINARY_OPERATORS.find(
+        (op) => token.type === 'operator' && token.value === op,
+      )
+      if (
+        operator === undefined ||
+        binaryOperatorPrecedence(operator) < minPrecedence
+      ) {
+        return left
+      }
+
+      this.next()
+      // The operators are left-associative
+      const right = this.binary(binaryOperatorPrecedence(operator) + 1)
+      left = binaryEx(left, operator, right)
+    }
+  }
+
+  private unary(): Expression {
+    const token = this.peek()
+    const operator = UNARY_OPERATORS.find(
+      (op) => token.type === 'operator' && token.value === op,
+    )
+    if (operator !== undefined) {
+      this.next()
+      return unaryEx(operator, this.unary())
+    }
+
+    return this.postfix(this.primary())
+  }
+
+  // Member access, indexing and function calls following a primary expression
+  private postfix(object: Expression): Expression {
+    let ex = object
+    for (;;) {
+      if (this.accept('.')) {
+        const property = this.next()
+        if (property.type !== 'identifier') {
+          this.fail('Expected a property name after "."', property)
+        }
+        ex = memberEx(ex, variableReferenceEx(property.value), false)
+      } else if (this.accept('[')) {
+        const property = this.expression()
+        this.expect(']')
+        ex = memberEx(ex, property, true)
+      } else if (this.peekPunctuation('(')) {
+        ex = this.call(ex)
+      } else {
+        return ex
+      }
+    }
+  }
+
+  private call(callee: Expression): Expression {
+    const open = this.next()
+    if (
+      !isQualifiedName(callee) ||
+      (callee.tag === 'member' && callee.computed)
+    ) {
+      this.fail('Only named functions can be called', open)
+    }
+
+    const args = this.list(')')
+    return functionInvocationEx(expressionToString(callee), args)
+  }
+
+  private primary(): Expression {
+    const token = this.next()
+    switch (token.type) {
+      case 'number':
+        return numberEx(Number(token.value))
+
+      case 'string':
+        return stringEx(token.value)
+
+      case 'identifier':
+        if (token.value === 'true' || token.value === 'True') {
+          return booleanEx(true)
+        } else if (token.value === 'false' || token.value === 'False') {
+          return booleanEx(false)
+        } else if (token.value === 'null') {
+          return nullEx
+        } else {
+          return variableReferenceEx(token.value)
+        }
+
+      case 'punctuation':
+        if (token.value === '(') {
+          const ex = this.expression()
+          this.expect(')')
+          return ex
+        } else if (token.value === '[') {
+          return listEx(this.list(']'))
+        } else if (token.value === '{') {
+          return this.map()
+        }
+        break
+
+      case 'operator':
+      case 'end':
+        break
+    }
+
+    this.fail(
+      token.type === 'end'
+        ? 'Unexpected end of expression'
+        : `Unexpected "${token.value}"`,
+      token,
+    )
+  }
+
+  // Comma-separated expressions up to the closing punctuation
+  private list(close: string): Expression[] {
+    const items: Expression[] = []
+    while (!this.accept(close)) {
+      items.push(this.expression())
+      if (!this.accept(',')) {
+        this.expect(close)
+        break
+      }
+    }
+
+    return items
+  }
+
+  private map(): Expression {
+    const entries: [string, Expression][] = []
+    while (!this.accept('}')) {
+      const key = this.next()
+      if (key.type !== 'string' && key.type !== 'identifier') {
+        this.fail('Expected a map key', key)
+      }
+      this.expect(':')
+      entries.push([key.value, this.expression()])
+      if (!this.accept(',')) {
+        this.expect('}')
+        break
+      }
+    }
+
+    return mapEx(Object.fromEntries(entries))
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position]
+  }
+
+  private peekPunctuation(value: string): boolean {
+    const token = this.peek()
+    return token.type === 'punctuation' && token.value === value
+  }
+
+  private next(): Token {
+    const token = this.peek()
+    if (token.type !== 'end') {
+      this.position++
+    }
+
+    return token
+  }
+
+  private accept(punctuation: string): boolean {
+    if (this.peekPunctuation(punctuation)) {
+      this.next()
+      return true
+    } else {
+      return false
+    }
+  }
+
+  private expect(punctuation: string): void {
+    if (!this.accept(punctuation)) {
+      const token = this.peek()
+      this.fail(
+        `Expected "${punctuation}" but found ${token.type === 'end' ? 'the end of expression' : `"${token.value}"`}`,
+      )
+    }
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    throw new WorkflowSyntaxError(
+      `${message} in expression: ${this.text}`,
+      errorLocation(token.offset),
+      'TS2WF0004',
+    )
+  }
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < text.length) {
+    const rest = text.slice(i)
+    const whitespace = /^\s+/.exec(rest)
+    const number = /^(\d+(\.\d+)?|\.\d+)([eE][+-]?\d+)?/.exec(rest)
+    const identifier = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(rest)
+    const symbol = SYMBOL_OPERATORS.find((op) => rest.startsWith(op))
+
+    if (whitespace) {
+      i += whitespace[0].length
+    } else if (number) {
+      tokens.push({ type: 'number', value: number[0], offset: i })
+      i += number[0].length
+    } else if (identifier) {
+      const type = KEYWORD_OPERATORS.includes(identifier[0])
+        ? 'operator'
+        : 'identifier'
+      tokens.push({ type, value: identifier[0], offset: i })
+      i += identifier[0].length
+    } else if (rest.startsWith('"') || rest.startsWith("'")) {
+      const [value, length] = readString(text, i)
+      tokens.push({ type: 'string', value, offset: i })
+      i += length
+    } else if (symbol) {
+      tokens.push({ type: 'operator', value: symbol, offset: i })
+      i += symbol.length
+    } else if (PUNCTUATION.includes(rest[0])) {
+      tokens.push({ type: 'punctuation', value: rest[0], offset: i })
+      i += 1
+    } else {
+      throw new WorkflowSyntaxError(
+        `Unexpected character "${rest[0]}" in expression: ${text}`,
+        errorLocation(i),
+        'TS2WF0004',
+      )
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', offset: text.length })
+  return tokens
+}
+
+// Read a quoted string starting at text[start]. Returns the unescaped value
+// and the length of the quoted string including the quotes.
+function readString(text: string, start: number): [string, number] {
+  const quote = text[start]
+  let value = ''
+  let i = start + 1
+
+  while (i < text.length && text[i] !== quote) {
+    if (text[i] === '\\') {
+      const escaped = text[i + 1]
+      if (escaped === 'u') {
+        value += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16))
+        i += 6
+      } else if (escaped in STRING_ESCAPES) {
+        value += STRING_ESCAPES[escaped]
+        i += 2
+      } else {
+        throw new WorkflowSyntaxError(
+          `Invalid escape sequence "\\${escaped}" in expression: ${text}`,
+          errorLocation(i),
+          'TS2WF0004',
+        )
+      }
+    } else {
+      value += text[i]
+      i += 1
+    }
+  }
+
+  if (i >= text.length) {
+    throw new WorkflowSyntaxError(
+      `Unterminated string in expression: ${text}`,
+      errorLocation(start),
+      'TS2WF0004',
+    )
+  }
+
+  return [value, i - start + 1]
+}
+
+function errorLocation(offset: number) {
+  return {
+    start: { line: 1, column: offset },
+    end: { line: 1, column: offset },
+  }
+}
@@ -44,6 +44,14 @@ const operatorPrecedenceValue: Map<string, number> = new Map<string, number>([
   ['or', 1],
 ])
 
+// a + (b + c) is the same as a + b + c
+const ASSOCIATIVE_OPERATORS: BinaryOperator[] = ['+', '*', 'and', 'or']
+
+// Returns the precedence of a binary operator. A higher value binds tighter.
+export function binaryOperatorPrecedence(operator: BinaryOperator): number {
+  return operatorPrecedenceValue.get(operator) ?? 0
+}
+
 export type LiteralValueOrLiteralExpression =
   | null
   | string
@@ -64,6 +72,7 @@ export type Expression =
   | FunctionInvocationExpression
   | MemberExpression
   | UnaryExpression
+  | UpdateExpression
 
 // A primitive (string, number, list, etc) value
 interface ExpressionLiteral<V, Tag> {
@@ -187,6 +196,23 @@ export function unaryEx(
   return { tag: 'unary', operator, value }
 }
 
+// Increment or decrement: x++, ++x, x--, --x. Workflows doesn't have update
+// expressions. They are replaced by assignments before the output.
+export interface UpdateExpression {
+  readonly tag: 'update'
+  readonly operator: '++' | '--'
+  readonly prefix: boolean
+  readonly argument: VariableReferenceExpression | MemberExpression
+}
+
+export function updateEx(
+  operator: '++' | '--',
+  prefix: boolean,
+  argument: VariableReferenceExpression | MemberExpression,
+): UpdateExpression {
+  return { tag: 'update', operator, prefix, argument }
+}
+
 // Returns a string representation of ex, not enclosed in ${}
 export function expressionToString(ex: Expression): string {
   switch (ex.tag) {
@@ -229,35 +255,54 @@ export function expressionToString(ex: Expression): string {
         .map(expressionToString)
         .join(', ')})`
 
-    case 'member':
+    case 'member': {
+      const object =
+        ex.object.tag === 'binary' || ex.object.tag === 'unary'
+          ? `(${expressionToString(ex.object)})`
+          : expressionToString(ex.object)
       if (ex.computed) {
-        return `${expressionToString(ex.object)}[${expressionToString(ex.property)}]`
+        return `${object}[${expressionToString(ex.property)}]`
       } else {
-        return `${expressionToString(ex.object)}.${expressionToString(ex.property)}`
+        return `${object}.${expressionToString(ex.property)}`
       }
+    }
 
     case 'unary':
       return unaryExpressionToString(ex)
+
+    case 'update': {
+      const argument = expressionToString(ex.argument)
+      return ex.prefix
+        ? `${ex.operator}${argument}`
+        : `${argument}${ex.operator}`
+    }
   }
 }
 
 function binaryExpressionToString(ex: BinaryExpression): string {
   let leftString = expressionToString(ex.left)
   let rightString = expressionToString(ex.right)
+  const thisOpValue = binaryOperatorPrecedence(ex.binaryOperator)
 
   if (ex.left.tag === 'binary') {
-    const leftOpValue = operatorPrecedenceValue.get(ex.left.binaryOperator) ?? 0
-    const thisOpValue = operatorPrecedenceValue.get(ex.binaryOperator) ?? 0
+    const leftOpValue = binaryOperatorPrecedence(ex.left.binaryOperator)
     if (leftOpValue < thisOpValue) {
       leftString = `(${leftString})`
     }
   }
 
+  // The operators are left-associative. A right operand with the same
+  // precedence needs parentheses, as in a - (b - c), unless the operators
+  // are the same associative operator.
   if (ex.right.tag === 'binary') {
-    const rightOpValue =
-      operatorPrecedenceValue.get(ex.right.binaryOperator) ?? 0
-    const thisOpValue = operatorPrecedenceValue.get(ex.binaryOperator) ?? 0
-    if (rightOpValue < thisOpValue) {
+    const rightOpValue = binaryOperatorPrecedence(ex.right.binaryOperator)
+    const isAssociative =
+      ex.right.binaryOperator === ex.binaryOperator &&
+      ASSOCIATIVE_OPERATORS.includes(ex.binaryOperator)
+    if (
+      rightOpValue < thisOpValue ||
+      (rightOpValue === thisOpValue && !isAssociative)
+    ) {
       rightString = `(${rightString})`
     }
   }
@@ -295,6 +340,7 @@ export function expressionToLiteralValueOrLiteralExpression(
     case 'variableReference':
     case 'functionInvocation':
     case 'member':
+    case 'update':
       return `\${${expressionToString(ex)}}`
 
     case 'unary':
@@ -323,6 +369,7 @@ export function isQualifiedName(ex: Expression): boolean {
     case 'binary':
     case 'functionInvocation':
     case 'unary':
+    case 'update':
       return false
 
     case 'variableReference':
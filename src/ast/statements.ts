@@ -5,6 +5,7 @@ import {
   VariableReferenceExpression,
 } from './expressions.js'
 import { StepName } from './steps.js'
+import { SourceCodeLocation } from '../errors.js'
 
 export type WorkflowParameters = Record<VariableName, Expression>
 
@@ -31,24 +32,33 @@ export interface CustomRetryPolicy {
 
 export class AssignStatement {
   readonly tag = 'assign'
+  loc?: SourceCodeLocation
+  comments?: string[]
+  tempVariables?: Record<VariableName, string>
 
   constructor(public readonly assignments: VariableAssignment[]) {}
 }
 
 export class BreakStatement {
   readonly tag = 'break'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
   constructor(public readonly label?: string) {}
 }
 
 export class ContinueStatement {
   readonly tag = 'continue'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
   constructor(public readonly label?: string) {}
 }
 
 export class ForStatement {
   readonly tag = 'for'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
   constructor(
     public readonly body: WorkflowStatement[],
@@ -60,6 +70,8 @@ export class ForStatement {
 
 export class ForRangeStatement {
   readonly tag = 'for-range'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
   constructor(
     public readonly body: WorkflowStatement[],
@@ -71,6 +83,9 @@ export class ForRangeStatement {
 
 export class FunctionInvocationStatement {
   readonly tag = 'function-invocation'
+  loc?: SourceCodeLocation
+  comments?: string[]
+  tempVariables?: Record<VariableName, string>
 
   constructor(
     public readonly callee: string,
@@ -91,6 +106,8 @@ export interface IfNextBranch {
 
 export class IfStatement {
   readonly tag = 'if'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
   constructor(public readonly branches: (IfBranch | IfNextBranch)[]) {}
 }
@@ -102,6 +119,8 @@ export interface ParallelBranch {
 
 export class ParallelStatement {
   readonly tag = 'parallel'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
   constructor(
     public readonly branches: ParallelBranch[],
@@ -113,6 +132,8 @@ export class ParallelStatement {
 
 export class ParallelForStatement {
   readonly tag = 'parallel-for'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
   constructor(
     public readonly forStep: ForStatement | ForRangeStatement,
@@ -124,24 +145,32 @@ export class ParallelForStatement {
 
 export class RaiseStatement {
   readonly tag = 'raise'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
   constructor(public readonly value: Expression) {}
 }
 
 export class ReturnStatement {
   readonly tag = 'return'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
   constructor(public readonly value: Expression | undefined) {}
 }
 
 export class SwitchStatement {
   readonly tag = 'switch'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
   constructor(public readonly branches: IfBranch[]) {}
 }
 
 export class TryStatement {
   readonly tag = 'try'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
   constructor(
     public readonly tryBody: WorkflowStatement[],
@@ -154,15 +183,22 @@ export class TryStatement {
 
 export class WhileStatement {
   readonly tag = 'while'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
+  // update is executed after the body on each iteration, also when the body
+  // continues. This is the update clause of a for(;;) loop.
   constructor(
     public readonly condition: Expression,
     public readonly body: WorkflowStatement[],
+    public readonly update?: WorkflowStatement[],
   ) {}
 }
 
 export class DoWhileStatement {
   readonly tag = 'do-while'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
   constructor(
     public readonly condition: Expression,
@@ -172,6 +208,8 @@ export class DoWhileStatement {
 
 export class LabelledStatement {
   readonly tag = 'label'
+  loc?: SourceCodeLocation
+  comments?: string[]
 
   constructor(
     public readonly label: string,
@@ -197,9 +235,60 @@ export type WorkflowStatement =
   | TryStatement
   | WhileStatement
 
+// The source code location and the comments of a statement
+export interface StatementSource {
+  loc?: SourceCodeLocation
+  // Lines of the comments preceding the statement in the source code
+  comments?: string[]
+  // The source code expressions of the temporary variables assigned by the
+  // statement, keyed by the variable name
+  tempVariables?: Record<VariableName, string>
+}
+
+/**
+ * Copy the source code location and the comments of the source statement to
+ * the statements that were converted or transformed from it. Returns the
+ * statements.
+ *
+ * The statements that don't have a location yet inherit the location. The
+ * comments are attached to the first statement, unless some of the statements
+ * already have comments.
+ */
+export function withSource<T extends WorkflowStatement>(
+  statements: T[],
+  source: StatementSource,
+): T[] {
+  statements.forEach((s) => {
+    s.loc ??= source.loc
+  })
+
+  if (
+    source.comments &&
+    statements.length > 0 &&
+    statements.every((s) => s.comments === undefined)
+  ) {
+    statements[0].comments = source.comments
+  }
+
+  return statements
+}
+
+/**
+ * Apply fn on the nested statement lists (for example, the body of a loop) of
+ * statement s. Returns a new statement that has the same source code location
+ * and comments as s.
+ */
 export function applyNested(
   fn: (x: WorkflowStatement[]) => WorkflowStatement[],
   s: WorkflowStatement,
+): WorkflowStatement {
+  const [transformed] = withSource([applyNestedWithoutSource(fn, s)], s)
+  return transformed
+}
+
+function applyNestedWithoutSource(
+  fn: (x: WorkflowStatement[]) => WorkflowStatement[],
+  s: WorkflowStatement,
 ): WorkflowStatement {
   switch (s.tag) {
     case 'assign':
@@ -281,6 +370,10 @@ export function applyNested(
       )
 
     case 'while':
-      return new WhileStatement(s.condition, fn(s.body))
+      return new WhileStatement(
+        s.condition,
+        fn(s.body),
+        s.update ? fn(s.update) : undefined,
+      )
   }
 }
@@ -25,6 +25,7 @@ import {
   ParallelForStatement,
   ParallelStatement,
   ReturnStatement,
+  StatementSource,
   SwitchStatement,
   TryStatement,
   VariableAssignment,
@@ -36,8 +37,13 @@ import { Subworkflow, SubworkflowStatements } from './workflows.js'
 
 export type StepName = string
 
+interface StepMetadata extends StatementSource {
+  // True if the label is a label of a labelled statement in the source code
+  userLabel?: boolean
+}
+
 // https://cloud.google.com/workflows/docs/reference/syntax/variables#assign-step
-interface AssignStep {
+interface AssignStep extends StepMetadata {
   tag: 'assign'
   label: StepName
   assignments: VariableAssignment[]
@@ -45,7 +51,7 @@ interface AssignStep {
 }
 
 // https://cloud.google.com/workflows/docs/reference/syntax/calls
-interface CallStep {
+interface CallStep extends StepMetadata {
   tag: 'call'
   label: StepName
   call: string
@@ -54,7 +60,7 @@ interface CallStep {
 }
 
 // https://cloud.google.com/workflows/docs/reference/syntax/iteration
-interface ForStep {
+interface ForStep extends StepMetadata {
   tag: 'for'
   label: StepName
   steps: WorkflowStep[]
@@ -66,14 +72,14 @@ interface ForStep {
 }
 
 // https://cloud.google.com/workflows/docs/reference/syntax/jumps
-interface NextStep {
+interface NextStep extends StepMetadata {
   tag: 'next'
   label: StepName
   next: StepName
 }
 
 // https://cloud.google.com/workflows/docs/reference/syntax/parallel-steps
-interface ParallelStep {
+interface ParallelStep extends StepMetadata {
   tag: 'parallel'
   label: StepName
   branches: ParallelBranch[]
@@ -88,7 +94,7 @@ interface ParallelBranch {
 }
 
 // https://cloud.google.com/workflows/docs/reference/syntax/parallel-steps#parallel-iteration
-interface ParallelIterationStep {
+interface ParallelIterationStep extends StepMetadata {
   tag: 'parallel-for'
   label: StepName
   forStep: ForStep
@@ -98,21 +104,21 @@ interface ParallelIterationStep {
 }
 
 // https://cloud.google.com/workflows/docs/reference/syntax/raising-errors
-interface RaiseStep {
+interface RaiseStep extends StepMetadata {
   tag: 'raise'
   label: string
   value: Expression
 }
 
 // https://cloud.google.com/workflows/docs/reference/syntax/completing
-interface ReturnStep {
+interface ReturnStep extends StepMetadata {
   tag: 'return'
   label: string
   value: Expression | undefined
 }
 
 // https://cloud.google.com/workflows/docs/reference/syntax/conditions
-interface SwitchStep {
+interface SwitchStep extends StepMetadata {
   tag: 'switch'
   label: StepName
   branches: SwitchBranch[]
@@ -126,7 +132,7 @@ interface SwitchBranch {
 }
 
 // https://cloud.google.com/workflows/docs/reference/syntax/catching-errors
-interface TryStep {
+interface TryStep extends StepMetadata {
   tag: 'try'
   label: StepName
   trySteps: WorkflowStep[]
@@ -138,7 +144,7 @@ interface TryStep {
 // Internal step that represents a potential jump target.
 // This can be used as a placeholder when the actual target step is not yet known.
 // JumpTargetSteps are removed before transpiling to workflows YAML.
-interface JumpTargetStep {
+interface JumpTargetStep extends StepMetadata {
   tag: 'jump-target'
   label: StepName
 }
@@ -161,6 +167,12 @@ interface StepContext {
   readonly breakTarget?: StepName
   // continueTarget is a jump target for an unlabeled continue statement
   readonly continueTarget?: StepName
+  // labelTargets are the jump targets of labeled break and continue
+  // statements by the label of the loop
+  readonly labelTargets?: Readonly<Record<StepName, LoopTargets>>
+  // loopLabel is the label of the loop that is being converted, if the loop
+  // is the body of a labeled statement
+  readonly loopLabel?: StepName
   // finalizerTargets is an array of jump targets for return statements. Used
   // for delaying a return until a finally block. Array of nested try-finally
   // blocks, the inner most block is last. This also used as a flag to indicate
@@ -168,6 +180,11 @@ interface StepContext {
   finalizerTargets?: StepName[]
 }
 
+interface LoopTargets {
+  breakTarget: StepName
+  continueTarget: StepName
+}
+
 interface JumpStackElement {
   step: WorkflowStep
   nestingLevel: number
@@ -431,12 +448,13 @@ function renderTryStep(step: TryStep): Record<string, unknown> {
 export function toStepSubworkflow(
   ast: SubworkflowStatements,
   generateLabel: (prefix: string) => string,
+  sourceFile?: string,
 ): Subworkflow {
   const steps = fixJumpLabels(
     statementListToSteps(generateLabel, {}, ast.statements),
   )
 
-  return new Subworkflow(ast.name, steps, ast.params)
+  return new Subworkflow(ast.name, steps, ast.params, ast.comments, sourceFile)
 }
 
 const statementListToSteps = R.curry(function (
@@ -445,10 +463,41 @@ const statementListToSteps = R.curry(function (
   statements: WorkflowStatement[],
 ): WorkflowStep[] {
   return mergeNextStep(
-    statements.flatMap((s) => statementToSteps(generateLabel, ctx, s)),
+    statements.flatMap((s) =>
+      withStepSource(statementToSteps(generateLabel, ctx, s), s),
+    ),
   )
 })
 
+/**
+ * Copy the source code location of a statement to the steps generated from it
+ * and the comments and the temporary variables to the first step that will be
+ * rendered. Jump targets are not rendered.
+ */
+function withStepSource(
+  steps: WorkflowStep[],
+  source: StatementSource,
+): WorkflowStep[] {
+  steps.forEach((step) => {
+    step.loc ??= source.loc
+  })
+
+  const firstRendered = steps.find((step) => step.tag !== 'jump-target')
+  if (
+    source.comments &&
+    firstRendered &&
+    steps.every((step) => step.comments === undefined)
+  ) {
+    firstRendered.comments = source.comments
+  }
+
+  if (source.tempVariables && firstRendered) {
+    firstRendered.tempVariables ??= source.tempVariables
+  }
+
+  return steps
+}
+
 function statementToSteps(
   generateLabel: (prefix: string) => string,
   ctx: StepContext,
@@ -549,7 +598,9 @@ function breakStep(
   return {
     tag: 'next',
     label: generateLabel('next'),
-    next: statement.label ?? ctx.breakTarget ?? 'break',
+    next: statement.label
+      ? (ctx.labelTargets?.[statement.label]?.breakTarget ?? statement.label)
+      : (ctx.breakTarget ?? 'break'),
   }
 }
 
@@ -569,7 +620,9 @@ function continueStep(
   return {
     tag: 'next',
     label: generateLabel('next'),
-    next: statement.label ?? ctx.continueTarget ?? 'continue',
+    next: statement.label
+      ? (ctx.labelTargets?.[statement.label]?.continueTarget ?? statement.label)
+      : (ctx.continueTarget ?? 'continue'),
   }
 }
 
@@ -615,18 +668,28 @@ function whileSteps(
   ctx: StepContext,
   statement: WhileStatement,
 ): WorkflowStep[] {
-  const startOfLoopLabel = generateLabel('switch')
+  const startOfLoopLabel = ctx.loopLabel ?? generateLabel('switch')
   const endOfLoopLabel = generatePlaceholderLabel()
-  const ctx2 = Object.assign({}, ctx, {
-    continueTarget: startOfLoopLabel,
-    breakTarget: endOfLoopLabel,
+  // continue jumps to the update steps, if there are any
+  const updateLabel = statement.update
+    ? generatePlaceholderLabel()
+    : startOfLoopLabel
+  const targets = { continueTarget: updateLabel, breakTarget: endOfLoopLabel }
+  const ctx2 = Object.assign({}, ctx, targets, {
+    labelTargets: ctx.loopLabel
+      ? { ...ctx.labelTargets, [ctx.loopLabel]: targets }
+      : ctx.labelTargets,
+    loopLabel: undefined,
   })
   const toSteps = statementListToSteps(generateLabel, ctx2)
-  const steps = appendNextStep(
-    generateLabel,
-    toSteps(statement.body),
-    startOfLoopLabel,
-  )
+  const bodySteps = toSteps(statement.body)
+  if (statement.update) {
+    bodySteps.push(
+      { tag: 'jump-target', label: updateLabel },
+      ...toSteps(statement.update),
+    )
+  }
+  const steps = appendNextStep(generateLabel, bodySteps, startOfLoopLabel)
   const body = {
     condition: statement.condition,
     steps,
@@ -663,6 +726,7 @@ function forStep(
     steps: toSteps(statement.body),
     loopVariableName: statement.loopVariableName,
     listExpression: statement.listExpression,
+    indexVariableName: statement.indexVariableName,
   }
 }
 
@@ -737,12 +801,19 @@ function labelledSteps(
   ctx: StepContext,
   statement: LabelledStatement,
 ): WorkflowStep[] {
-  const toSteps = statementListToSteps(generateLabel, ctx)
+  // A loop needs to know its label for labeled break and continue statements
+  const isLoop =
+    statement.statements.length === 1 && statement.statements[0].tag === 'while'
+  const toSteps = statementListToSteps(
+    generateLabel,
+    isLoop ? { ...ctx, loopLabel: statement.label } : ctx,
+  )
   const steps = toSteps(statement.statements)
 
   if (steps.length >= 1) {
     // FIXME: do not first generate a label and then immediately overwrite it here
     steps[0].label = statement.label
+    steps[0].userLabel = true
   }
 
   return steps
@@ -1222,7 +1293,11 @@ function nextNonJumpTargetNode(
   return undefined
 }
 
-function nestedSteps(step: WorkflowStep): WorkflowStep[][] {
+/**
+ * Returns the step lists nested inside a step, for example, the steps in the
+ * branches of a switch step.
+ */
+export function nestedSteps(step: WorkflowStep): WorkflowStep[][] {
   switch (step.tag) {
     case 'assign':
     case 'call':
@@ -1249,6 +1324,88 @@ function nestedSteps(step: WorkflowStep): WorkflowStep[][] {
   }
 }
 
+/**
+ * Returns steps and all steps nested inside them in the document order.
+ */
+export function flattenSteps(steps: WorkflowStep[]): WorkflowStep[] {
+  return steps.flatMap((step) => [
+    step,
+    ...nestedSteps(step).flatMap(flattenSteps),
+  ])
+}
+
+/**
+ * Rename steps. labels maps the old step names to new names. Both the labels
+ * of the steps and the jump targets that refer to them are renamed.
+ */
+export function renameSteps(
+  steps: WorkflowStep[],
+  labels: Map<StepName, StepName>,
+): WorkflowStep[] {
+  return relabelNextLabels(steps, labels).map((step) =>
+    renameStepLabels(step, labels),
+  )
+}
+
+function renameStepLabels(
+  step: WorkflowStep,
+  labels: Map<StepName, StepName>,
+): WorkflowStep {
+  const renameNested = (nested: WorkflowStep[]) =>
+    nested.map((s) => renameStepLabels(s, labels))
+  const label = labels.get(step.label) ?? step.label
+
+  switch (step.tag) {
+    case 'assign':
+    case 'call':
+    case 'next':
+    case 'raise':
+    case 'return':
+    case 'jump-target':
+      return { ...step, label }
+
+    case 'for':
+      return { ...step, label, steps: renameNested(step.steps) }
+
+    case 'parallel':
+      return {
+        ...step,
+        label,
+        branches: step.branches.map(({ name, steps }) => ({
+          name,
+          steps: renameNested(steps),
+        })),
+      }
+
+    case 'parallel-for':
+      return {
+        ...step,
+        label,
+        forStep: { ...step.forStep, steps: renameNested(step.forStep.steps) },
+      }
+
+    case 'switch':
+      return {
+        ...step,
+        label,
+        branches: step.branches.map((branch) => ({
+          ...branch,
+          steps: branch.steps ? renameNested(branch.steps) : undefined,
+        })),
+      }
+
+    case 'try':
+      return {
+        ...step,
+        label,
+        trySteps: renameNested(step.trySteps),
+        exceptSteps: step.exceptSteps
+          ? renameNested(step.exceptSteps)
+          : undefined,
+      }
+  }
+}
+
 function nestedStepsTry(step: TryStep): WorkflowStep[][] {
   const nested = []
   if (step.trySteps.length > 0) {
@@ -1470,8 +1627,7 @@ function renameJumpTargetsSwitch(
   })
 
   return {
-    tag: 'switch',
-    label: step.label,
+    ...step,
     branches: updatedBranches,
     next: updatedNext,
   }
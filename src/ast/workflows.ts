@@ -44,6 +44,8 @@ export class SubworkflowStatements {
     public readonly name: string,
     public readonly statements: WorkflowStatement[],
     public readonly params?: WorkflowParameter[],
+    // Lines of the comments preceding the function in the source code
+    public readonly comments?: string[],
   ) {}
 }
 
@@ -52,18 +54,34 @@ export class Subworkflow {
   readonly name: string
   readonly steps: WorkflowStep[]
   readonly params?: WorkflowParameter[]
+  readonly comments?: string[]
+  // The source file that the subworkflow was defined in
+  readonly sourceFile?: string
+  // The body of a subworkflow that is read from a YAML file. It is output
+  // as is instead of the steps.
+  readonly definition?: Record<string, unknown>
 
   constructor(
     name: string,
     steps: WorkflowStep[],
     params?: WorkflowParameter[],
+    comments?: string[],
+    sourceFile?: string,
+    definition?: Record<string, unknown>,
   ) {
     this.name = name
     this.steps = steps
     this.params = params
+    this.comments = comments
+    this.sourceFile = sourceFile
+    this.definition = definition
   }
 
   renderBody(): Record<string, unknown> {
+    if (this.definition) {
+      return this.definition
+    }
+
     const body = {}
     if (this.params && this.params.length > 0) {
       Object.assign(body, {
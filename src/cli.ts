@@ -3,26 +3,116 @@
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 import { fileURLToPath } from 'node:url'
-import { program } from 'commander'
-import { transpile, transpileText } from './transpiler/index.js'
-import { IOError, WorkflowSyntaxError } from './errors.js'
+import { Command, Option, program } from 'commander'
+import ts from 'typescript'
+import {
+  createProgram,
+  linkedSourceFiles,
+  OutputFormat,
+  readProjectFileNames,
+  transpile,
+  transpileProgramFile,
+  transpileText,
+  TranspileOptions,
+} from './transpiler/index.js'
+import { SourceMap } from './transpiler/sourcemap.js'
+import { StepNaming } from './transpiler/stepnames.js'
+import { watchProgram } from './transpiler/watch.js'
+import { linkedYAMLFiles } from './transpiler/yamlsubworkflows.js'
+import { decompile } from './decompiler/index.js'
+import {
+  BuildCache,
+  cleanBuildCache,
+  DEFAULT_CACHE_DIR,
+  openBuildCache,
+  OutputOptions,
+  readCachedOutput,
+  writeCachedOutput,
+} from './transpiler/cache.js'
+import {
+  Config,
+  CONFIG_FILE_NAMES,
+  EntryPoint,
+  findConfigFile,
+  loadConfig,
+  WarningLevel,
+} from './config.js'
+import {
+  ConfigError,
+  IOError,
+  MultipleWorkflowSyntaxErrors,
+  syntaxErrorWithText,
+  WorkflowSyntaxError,
+  WorkflowWarning,
+} from './errors.js'
 import { TSError } from '@typescript-eslint/typescript-estree'
-import { prettifySyntaxError } from './diagnostics.js'
+import {
+  Diagnostic,
+  DiagnosticsFormat,
+  formatDiagnosticsJSON,
+  formatDiagnosticsSARIF,
+  prettifySyntaxError,
+  prettifyTypeError,
+  prettifyWarning,
+  syntaxErrorToDiagnostics,
+  typeErrorToDiagnostic,
+  typescriptErrorToDiagnostics,
+  warningToDiagnostic,
+} from './diagnostics.js'
+import { ErrorCode } from './errorcodes.js'
 
 interface CLIOptions {
+  config?: string
   project?: string
   outdir?: string
   link: boolean
+  format: OutputFormat
+  preserveComments: boolean
+  debugComments: boolean
+  stepNames: StepNaming
   generatedFileComment: boolean
+  watch: boolean
+  check: boolean
+  diagnosticsFormat: DiagnosticsFormat
+  warningsAsErrors: boolean
+  cache: boolean
+  clean: boolean
+  sourceMap: boolean
+  // Warning levels from the config file
+  warnings: Partial<Record<ErrorCode, WarningLevel>>
+  // Input and output files
+  entries: EntryPoint[]
 }
 
-function parseArgs() {
+// Config file settings that can be overridden by a command line option
+const overridableSettings = [
+  'project',
+  'outdir',
+  'link',
+  'format',
+  'preserveComments',
+  'debugComments',
+  'stepNames',
+  'generatedFileComment',
+  'diagnosticsFormat',
+  'warningsAsErrors',
+  'cache',
+  'sourceMap',
+] as const
+
+type TranspileCallbacks = Pick<TranspileOptions, 'onWarning' | 'onSourceMap'>
+
+function parseArgs(): CLIOptions {
   program
     .name('ts2workflow')
     .version(versionFromPackageJson())
     .description(
       'Transpile a Typescript program into GCP Workflows YAML syntax.',
     )
+    .option(
+      '--config <path>',
+      `Path to the config file. If not given, looks for ${CONFIG_FILE_NAMES.join(' or ')} in the current directory and its parents.`,
+    )
     .option(
       '--project <path>',
       'Path to TSConfig for the Typescript sources files.',
@@ -36,6 +126,58 @@ function parseArgs() {
       'Emit YAML that includes all necessary subworkflows in one file. Requires --project',
       false,
     )
+    .addOption(
+      new Option('--format <format>', 'Output format')
+        .choices(['yaml', 'json'])
+        .default('yaml'),
+    )
+    .option(
+      '--preserve-comments',
+      'Include the source code comments as YAML comments above the corresponding steps and subworkflows',
+      false,
+    )
+    .option(
+      '--debug-comments',
+      'Annotate each step with a comment showing its source code location and each temporary variable with the expression it holds',
+      false,
+    )
+    .addOption(
+      new Option(
+        '--step-names <naming>',
+        'How the step names are generated. sequential numbers the steps of each type, stable derives the names from the step contents so that they stay the same when unrelated code changes, descriptive also describes conditions and returned values',
+      )
+        .choices(['sequential', 'stable', 'descriptive'])
+        .default('sequential'),
+    )
+    .option(
+      '--watch',
+      'Watch the input files and the files they import, and transpile again on changes. Requires --project',
+      false,
+    )
+    .option(
+      '--check',
+      "Report errors, warnings and, with --project, type errors but don't write the output",
+      false,
+    )
+    .addOption(
+      new Option(
+        '--diagnostics-format <format>',
+        'Format of the error messages. json and sarif are machine-readable formats.',
+      )
+        .choices(['text', 'json', 'sarif'])
+        .default('text'),
+    )
+    .option('--warnings-as-errors', 'Fail if there are any warnings', false)
+    .option(
+      '--no-cache',
+      `Don't use the build cache in ${DEFAULT_CACHE_DIR}. The cache is used only with --project`,
+    )
+    .option('--clean', 'Delete the build cache before transpiling', false)
+    .option(
+      '--source-map',
+      'Write a source map that maps the generated steps to the source code lines. The map is written next to the output file with a .map extension. Requires --outdir',
+      false,
+    )
     .option(
       '--generated-file-comment',
       'Include a comment stating that the result is a generated file',
@@ -51,118 +193,716 @@ function parseArgs() {
     )
     .parse()
 
+  const config = readConfigFile(program.opts<CLIOptions>().config)
+
+  overridableSettings.forEach((key) => {
+    if (
+      config[key] !== undefined &&
+      program.getOptionValueSource(key) !== 'cli'
+    ) {
+      program.setOptionValueWithSource(key, config[key], 'config')
+    }
+  })
+
   const opts = program.opts<CLIOptions>()
   if (opts.link && !opts.project) {
     console.warn('--link must be used together with --project')
   }
 
+  // Files given on the command line override the entries in the config file
+  const entries =
+    program.args.length > 0
+      ? program.args.map((input) => ({ input }))
+      : (config.entries ?? [])
+
   return {
     ...opts,
-    sourceFiles: program.args,
+    warnings: config.warnings ?? {},
+    entries,
+  }
+}
+
+/**
+ * Load the config file given by --config or, if not given, the config file
+ * found in the current working directory or its parents. Exits on an invalid
+ * config file.
+ */
+function readConfigFile(configPath: string | undefined): Config {
+  const resolvedPath = configPath ?? findConfigFile(process.cwd())
+  if (resolvedPath === undefined) {
+    return {}
+  }
+
+  try {
+    return loadConfig(resolvedPath)
+  } catch (err) {
+    printError(err, resolvedPath)
+    process.exit(1)
   }
 }
 
 function cliMain() {
   const args = parseArgs()
 
+  if (args.clean) {
+    cleanBuildCache(DEFAULT_CACHE_DIR)
+
+    if (args.entries.length === 0) {
+      return
+    }
+  }
+
   let files = []
-  if (args.sourceFiles.length === 0) {
+  if (args.entries.length === 0) {
     files = ['-']
   } else {
-    files = args.sourceFiles
+    files = args.entries.map((entry) => entry.input)
+  }
+
+  if (
+    args.sourceMap &&
+    !args.check &&
+    files.some((inputFile) => outputFilename(inputFile, args) === undefined)
+  ) {
+    console.error(
+      "Error: --source-map can't be used when writing the output to stdout. Use --outdir",
+    )
+    process.exit(1)
+  }
+
+  if (
+    args.diagnosticsFormat !== 'text' &&
+    !args.check &&
+    files.some((inputFile) => outputFilename(inputFile, args) === undefined)
+  ) {
+    console.error(
+      `Error: --diagnostics-format ${args.diagnosticsFormat} can't be used when writing the output to stdout. Use --outdir or --check`,
+    )
+    process.exit(1)
+  }
+
+  if (args.watch) {
+    if (!args.project) {
+      console.error('Error: --watch must be used together with --project')
+      process.exit(1)
+    } else if (args.check) {
+      console.error("Error: --watch can't be used together with --check")
+      process.exit(1)
+    } else if (files.includes('-')) {
+      console.error("Error: --watch can't be used when reading from stdin")
+      process.exit(1)
+    }
+
+    watchAndTranspile(files, args.project, args)
+    return
+  }
+
+  // A program can't be created if the input is read from stdin
+  const project = files.includes('-') ? undefined : args.project
+  let cache: BuildCache | undefined = undefined
+  if (project && args.cache) {
+    try {
+      cache = openBuildCache(
+        DEFAULT_CACHE_DIR,
+        project,
+        versionFromPackageJson(),
+      )
+    } catch (err) {
+      printError(err, project)
+      process.exit(1)
+    }
   }
 
+  // All input files share one program so that each imported module is
+  // parsed only once. The program is created only if some of the files are
+  // not found in the cache. With --check, the program includes all project
+  // files so that the type checker sees the same files as tsc.
+  let sharedProgram: ts.Program | undefined = undefined
+  const getSharedProgram = (tsconfigPath: string) => {
+    const rootNames = args.check
+      ? [...files, ...readProjectFileNames(tsconfigPath)]
+      : files
+    sharedProgram ??= createProgram(rootNames, tsconfigPath)
+    return sharedProgram
+  }
+
+  const diagnostics: Diagnostic[] = []
+  const reportedWarnings = new Set<string>()
+  // Files with errors printed in the text format. Without --check, the first
+  // error stops the transpilation.
+  const failedFiles = new Set<string>()
   files.forEach((inputFile) => {
     try {
-      const transpiled = generateTranspiledText(
+      const { warnings, sourceMaps, callbacks } = collectResults(args)
+      const transpiled = project
+        ? generateCachedProgramFileText(
+            () => getSharedProgram(project),
+            cache,
+            inputFile,
+            args,
+            callbacks,
+          )
+        : generateTranspiledText(
+            inputFile,
+            readSourceCode(inputFile),
+            args,
+            callbacks,
+          )
+
+      const failed = reportWarnings(
+        warnings,
         inputFile,
-        readSourceCode(inputFile),
-        args.generatedFileComment,
-        args.link,
-        args.project,
+        reportedWarnings,
+        args,
+        diagnostics,
       )
-
-      writeOutput(transpiled, inputFile, args.outdir)
+      if (failed && args.diagnosticsFormat === 'text') {
+        failedFiles.add(inputFile)
+        if (!args.check) {
+          process.exit(1)
+        }
+      } else if (!failed && !args.check) {
+        writeOutput(
+          transpiled,
+          outputFilename(inputFile, args),
+          sourceMaps.at(0),
+        )
+      }
     } catch (err) {
-      if (isIoError(err)) {
-        let message: string
-        if (err.code === 'EAGAIN' && inputFile === '-') {
-          // Reading from stdin if there's no input causes error. This is a bug in node
-          message = 'Error: Failed to read from stdin'
-        } else if (err.code === 'EISDIR') {
-          message = `Error: "${inputFile}" is a directory`
-        } else {
-          message = err.message
+      if (args.diagnosticsFormat === 'text') {
+        printError(err, inputFile)
+        failedFiles.add(inputFile)
+        if (!args.check) {
+          process.exit(1)
         }
-        console.error(message)
-        process.exit(1)
-      } else if (err instanceof WorkflowSyntaxError) {
-        console.error(prettifySyntaxError(err))
-        process.exit(1)
-      } else if (err instanceof TSError) {
-        console.error(prettifySyntaxError(err))
-        process.exit(1)
       } else {
-        throw err
+        // Collect errors from all files into a single report
+        diagnostics.push(...errorToDiagnostics(err, inputFile))
       }
     }
   })
+
+  if (args.check && project) {
+    const typeErrors = typeCheck(getSharedProgram(project), files)
+
+    if (args.diagnosticsFormat === 'text') {
+      typeErrors.forEach((d) => console.error(`${prettifyTypeError(d)}\n`))
+      typeErrors
+        .filter((d) => d.category === ts.DiagnosticCategory.Error)
+        .forEach((d) => failedFiles.add(d.file?.fileName ?? project))
+    } else {
+      diagnostics.push(...typeErrors.map(typeErrorToDiagnostic))
+    }
+  }
+
+  if (args.diagnosticsFormat !== 'text') {
+    printDiagnostics(diagnostics, args.diagnosticsFormat)
+
+    if (diagnostics.some((d) => d.severity === 'error')) {
+      process.exit(1)
+    }
+  } else if (failedFiles.size > 0) {
+    console.error(`Found errors in ${failedFiles.size} file(s)`)
+    process.exit(1)
+  }
+}
+
+/**
+ * The "decompile" command: convert GCP Workflows YAML or JSON files into
+ * Typescript source code
+ */
+function decompileMain(argv: string[]) {
+  const command = new Command()
+    .name('ts2workflow decompile')
+    .description(
+      'Convert GCP Workflows YAML or JSON definitions into Typescript source code.',
+    )
+    .option(
+      '--outdir <path>',
+      'Write the Typescript files to this directory instead of stdout.',
+    )
+    .argument(
+      '[FILES...]',
+      'Path to workflow definition file(s). If not given, reads from stdin.',
+    )
+    .parse(argv, { from: 'user' })
+
+  const { outdir } = command.opts<{ outdir?: string }>()
+  const files = command.args.length > 0 ? command.args : ['-']
+
+  files.forEach((inputFile) => {
+    try {
+      const yamlText = readSourceCode(inputFile)
+      let decompiled: string
+      try {
+        decompiled = decompile(yamlText)
+      } catch (err) {
+        throw err instanceof WorkflowSyntaxError
+          ? syntaxErrorWithText(err, inputFile, yamlText)
+          : err
+      }
+
+      writeOutput(
+        decompiled,
+        outdir !== undefined && inputFile !== '-'
+          ? path.format({
+              dir: outdir,
+              name: path.parse(inputFile).name,
+              ext: '.ts',
+            })
+          : undefined,
+      )
+    } catch (err) {
+      printError(err, inputFile)
+      process.exit(1)
+    }
+  })
+}
+
+/**
+ * Run the Typescript type checker on the program.
+ *
+ * Syntax errors in the input files are skipped because the transpiler has
+ * already reported them.
+ */
+function typeCheck(program: ts.Program, files: string[]): ts.Diagnostic[] {
+  const syntaxErrors = new Set<ts.Diagnostic>(
+    files.flatMap((inputFile) => {
+      const sourceFile = program.getSourceFile(inputFile)
+      return sourceFile ? program.getSyntacticDiagnostics(sourceFile) : []
+    }),
+  )
+
+  return ts
+    .getPreEmitDiagnostics(program)
+    .filter(
+      (d) =>
+        !syntaxErrors.has(d) &&
+        (d.category === ts.DiagnosticCategory.Error ||
+          d.category === ts.DiagnosticCategory.Warning),
+    )
+}
+
+/**
+ * Transpile files and keep transpiling them again whenever they or the files
+ * they import change.
+ *
+ * Only the affected output files are written again after a change: those whose
+ * input file has changed and, with --link, those that include subworkflows
+ * from a changed source file or YAML file.
+ */
+function watchAndTranspile(
+  files: string[],
+  tsconfigPath: string,
+  args: CLIOptions,
+): void {
+  const linkedYAML = (program: ts.Program) =>
+    args.link ? files.flatMap((f) => linkedYAMLFiles(program, f)) : []
+
+  watchProgram(
+    files,
+    tsconfigPath,
+    (program, changedFiles) => {
+      const affectedFiles = files.filter((inputFile) =>
+        isAffectedByChanges(program, inputFile, changedFiles, args.link),
+      )
+
+      const diagnostics: Diagnostic[] = []
+      const reportedWarnings = new Set<string>()
+      affectedFiles.forEach((inputFile) => {
+        try {
+          const { warnings, sourceMaps, callbacks } = collectResults(args)
+          const transpiled = generateProgramFileText(
+            program,
+            inputFile,
+            args,
+            callbacks,
+          )
+
+          const failed = reportWarnings(
+            warnings,
+            inputFile,
+            reportedWarnings,
+            args,
+            diagnostics,
+          )
+          if (!failed) {
+            writeOutput(
+              transpiled,
+              outputFilename(inputFile, args),
+              sourceMaps.at(0),
+            )
+          }
+        } catch (err) {
+          if (!isExpectedError(err)) {
+            // An unexpected error, such as an internal transpiler error, is
+            // reported without stopping the watcher
+            console.error(
+              `Error: Failed to transpile ${inputFile}: ${String(err)}`,
+            )
+          } else if (args.diagnosticsFormat === 'text') {
+            printError(err, inputFile)
+          } else {
+            diagnostics.push(...errorToDiagnostics(err, inputFile))
+          }
+        }
+      })
+
+      if (args.diagnosticsFormat !== 'text') {
+        printDiagnostics(diagnostics, args.diagnosticsFormat)
+      }
+
+      console.error(
+        `Transpiled ${affectedFiles.length} file(s). Watching for file changes.`,
+      )
+    },
+    linkedYAML,
+  )
+}
+
+function isAffectedByChanges(
+  program: ts.Program,
+  inputFile: string,
+  changedFiles: Set<string>,
+  linkSubworkflows: boolean,
+): boolean {
+  const sourceFile = program.getSourceFile(inputFile)
+
+  if (sourceFile === undefined || changedFiles.has(sourceFile.fileName)) {
+    return true
+  } else if (linkSubworkflows) {
+    return [
+      ...linkedSourceFiles(program, inputFile),
+      ...linkedYAMLFiles(program, inputFile),
+    ].some((f) => changedFiles.has(f))
+  } else {
+    return false
+  }
+}
+
+// The errors that errorToDiagnostics() and printError() know how to report
+function isExpectedError(err: unknown): boolean {
+  return (
+    isIoError(err) ||
+    err instanceof WorkflowSyntaxError ||
+    err instanceof TSError
+  )
+}
+
+function printError(err: unknown, inputFile: string): void {
+  if (err instanceof ConfigError) {
+    console.error(`Error: ${err.message}`)
+  } else if (isIoError(err)) {
+    console.error(`Error: ${ioErrorMessage(err, inputFile)}`)
+  } else if (err instanceof MultipleWorkflowSyntaxErrors) {
+    console.error(err.errors.map(prettifySyntaxError).join('\n\n'))
+    console.error(`\nFound ${err.errors.length} errors in ${inputFile}`)
+  } else if (err instanceof WorkflowSyntaxError) {
+    console.error(prettifySyntaxError(err))
+  } else if (err instanceof TSError) {
+    console.error(prettifySyntaxError(err))
+  } else {
+    throw err
+  }
+}
+
+/**
+ * Print the warnings or, in a machine-readable diagnostics format, append them
+ * to diagnostics. A warning that has already been reported (because several
+ * linked outputs include the same subworkflow) is skipped. Warnings that are
+ * turned off in the config file are ignored.
+ *
+ * Returns true if the transpilation should fail because of the warnings.
+ */
+function reportWarnings(
+  allWarnings: WorkflowWarning[],
+  inputFile: string,
+  reportedWarnings: Set<string>,
+  args: CLIOptions,
+  diagnostics: Diagnostic[],
+): boolean {
+  const warnings = allWarnings.filter(
+    (w) => warningLevel(w.code, args) !== 'off',
+  )
+  const errors = warnings.filter((w) => warningLevel(w.code, args) === 'error')
+  const newWarnings = warnings.filter((w) => {
+    const key = `${w.filename}:${w.location.start.line}:${w.location.start.column}:${w.code}`
+    const isNew = !reportedWarnings.has(key)
+    reportedWarnings.add(key)
+    return isNew
+  })
+
+  if (args.diagnosticsFormat === 'text') {
+    newWarnings.forEach((w) => console.error(`${prettifyWarning(w)}\n`))
+
+    if (errors.length > 0) {
+      console.error(
+        `Error: Found ${errors.length} warning(s) treated as errors in ${inputFile}`,
+      )
+    }
+  } else {
+    diagnostics.push(
+      ...newWarnings.map((w) =>
+        warningToDiagnostic(
+          w,
+          warningLevel(w.code, args) === 'error' ? 'error' : 'warning',
+        ),
+      ),
+    )
+  }
+
+  return errors.length > 0
+}
+
+// --warnings-as-errors turns all warnings that are not off into errors
+function warningLevel(code: ErrorCode, args: CLIOptions): WarningLevel {
+  const level = args.warnings[code] ?? 'warning'
+
+  return args.warningsAsErrors && level !== 'off' ? 'error' : level
+}
+
+function errorToDiagnostics(err: unknown, inputFile: string): Diagnostic[] {
+  if (isIoError(err)) {
+    return [
+      {
+        file: inputFile,
+        message: ioErrorMessage(err, inputFile),
+        code: 'TS2WF0002',
+        severity: 'error',
+      },
+    ]
+  } else if (err instanceof WorkflowSyntaxError) {
+    return syntaxErrorToDiagnostics(err, inputFile)
+  } else if (err instanceof TSError) {
+    return typescriptErrorToDiagnostics(err, inputFile)
+  } else {
+    throw err
+  }
+}
+
+function ioErrorMessage(err: IOError, inputFile: string): string {
+  if (err.code === 'EAGAIN' && inputFile === '-') {
+    // Reading from stdin if there's no input causes error. This is a bug in node
+    return 'Failed to read from stdin'
+  } else if (err.code === 'EISDIR') {
+    return `"${inputFile}" is a directory`
+  } else {
+    return err.message
+  }
+}
+
+function printDiagnostics(
+  diagnostics: Diagnostic[],
+  format: Exclude<DiagnosticsFormat, 'text'>,
+): void {
+  // The machine-readable report is written to stdout, separately from the
+  // human-readable messages on stderr
+  if (format === 'json') {
+    console.log(formatDiagnosticsJSON(diagnostics))
+  } else {
+    console.log(formatDiagnosticsSARIF(diagnostics, versionFromPackageJson()))
+  }
 }
 
 function generateTranspiledText(
   filename: string | undefined,
   sourceCode: string,
-  addGeneratedFileComment: boolean,
-  linkSubworkflows: boolean,
-  project?: string,
+  args: CLIOptions,
+  callbacks: TranspileCallbacks,
 ): string {
   if (filename === undefined) {
-    return transpileText(sourceCode)
+    return transpileText(sourceCode, {
+      ...renderOptions(args),
+      ...callbacks,
+    })
   } else {
-    const header = addGeneratedFileComment ? generatedFileComment(filename) : ''
     const transpiled = transpile(
       filename,
       sourceCode,
-      project,
-      linkSubworkflows,
+      args.project,
+      args.link,
+      {
+        ...renderOptions(args),
+        ...callbacks,
+      },
     )
-    return `${header}${transpiled}`
+    return `${outputHeader(filename, args)}${transpiled}`
   }
 }
 
+function generateProgramFileText(
+  program: ts.Program,
+  filename: string,
+  args: CLIOptions,
+  callbacks: TranspileCallbacks,
+): string {
+  const transpiled = transpileProgramFile(program, filename, args.link, {
+    ...renderOptions(args),
+    ...callbacks,
+  })
+  return `${outputHeader(filename, args)}${transpiled}`
+}
+
+/**
+ * Returns the transpiled output from the cache if none of the source files it
+ * depends on have changed. Otherwise, transpiles the file and stores the
+ * result in the cache.
+ */
+function generateCachedProgramFileText(
+  getProgram: () => ts.Program,
+  cache: BuildCache | undefined,
+  filename: string,
+  args: CLIOptions,
+  callbacks: TranspileCallbacks,
+): string {
+  const cached = cache
+    ? readCachedOutput(cache, filename, outputOptions(args))
+    : undefined
+  if (cached) {
+    cached.warnings.forEach((w) => callbacks.onWarning?.(w))
+    callbacks.onSourceMap?.(cached.sourceMap)
+    return `${outputHeader(filename, args)}${cached.output}`
+  }
+
+  const program = getProgram()
+  const warnings: WorkflowWarning[] = []
+  // The source map is always stored in the cache so that a later run with
+  // --source-map can use the cached output
+  let sourceMap: SourceMap = { version: 1, steps: {} }
+  const transpiled = transpileProgramFile(program, filename, args.link, {
+    ...renderOptions(args),
+    onWarning: (warning) => warnings.push(warning),
+    onSourceMap: (map) => {
+      sourceMap = map
+    },
+    cache,
+  })
+
+  if (cache) {
+    writeCachedOutput(cache, program, filename, outputOptions(args), {
+      output: transpiled,
+      warnings,
+      sourceMap,
+    })
+  }
+
+  warnings.forEach((w) => callbacks.onWarning?.(w))
+  callbacks.onSourceMap?.(sourceMap)
+  return `${outputHeader(filename, args)}${transpiled}`
+}
+
+function outputOptions(args: CLIOptions): OutputOptions {
+  return {
+    linkSubworkflows: args.link,
+    format: args.format,
+    preserveComments: args.preserveComments,
+    debugComments: args.debugComments,
+    stepNames: args.stepNames,
+  }
+}
+
+// The transpiler options that affect how the output is rendered
+function renderOptions(args: CLIOptions): TranspileOptions {
+  return {
+    format: args.format,
+    preserveComments: args.preserveComments,
+    debugComments: args.debugComments,
+    stepNames: args.stepNames,
+  }
+}
+
+// Callbacks that collect the warnings and, with --source-map, the source map
+// of a transpiled file
+function collectResults(args: CLIOptions): {
+  warnings: WorkflowWarning[]
+  sourceMaps: SourceMap[]
+  callbacks: TranspileCallbacks
+} {
+  const warnings: WorkflowWarning[] = []
+  const sourceMaps: SourceMap[] = []
+  const callbacks: TranspileCallbacks = {
+    onWarning: (warning) => warnings.push(warning),
+    ...(args.sourceMap && {
+      onSourceMap: (sourceMap: SourceMap) => sourceMaps.push(sourceMap),
+    }),
+  }
+
+  return { warnings, sourceMaps, callbacks }
+}
+
 function readSourceCode(filename: string): string {
   const filenameOrFd = filename === '-' ? process.stdin.fd : filename
 
   return fs.readFileSync(filenameOrFd, 'utf8')
 }
 
+/**
+ * Write the transpiled output to outputFile or, if outputFile is undefined, to
+ * stdout. The source map, if given, is written to outputFile.map.
+ */
 function writeOutput(
   transpiled: string,
-  inputFile: string,
-  outdir?: string,
+  outputFile?: string,
+  sourceMap?: SourceMap,
 ): void {
-  if (outdir !== undefined) {
+  if (outputFile !== undefined) {
+    const outdir = path.dirname(outputFile)
     if (!fs.existsSync(outdir)) {
       fs.mkdirSync(outdir, { recursive: true })
     }
 
-    const outputFile = createOutputFilename(inputFile, outdir)
     fs.writeFileSync(outputFile, transpiled)
+
+    if (sourceMap) {
+      fs.writeFileSync(
+        `${outputFile}.map`,
+        JSON.stringify(sourceMap, undefined, 2) + '\n',
+      )
+    }
   } else {
     process.stdout.write(transpiled)
   }
 }
 
-function createOutputFilename(inputFile: string, outdir: string): string {
+// Returns the output path of inputFile or undefined if the output should be
+// written to stdout
+function outputFilename(
+  inputFile: string,
+  args: CLIOptions,
+): string | undefined {
+  const entry = args.entries.find((e) => e.input === inputFile)
+
+  if (entry?.output !== undefined) {
+    return entry.output
+  } else if (args.outdir !== undefined) {
+    return createOutputFilename(inputFile, args.outdir, args.format)
+  } else {
+    return undefined
+  }
+}
+
+function createOutputFilename(
+  inputFile: string,
+  outdir: string,
+  format: OutputFormat,
+): string {
   const parsedInput = path.parse(inputFile)
 
   return path.format({
     dir: outdir,
     name: parsedInput.name,
-    ext: '.yaml',
+    ext: `.${format}`,
   })
 }
 
+// JSON doesn't have comments and therefore the JSON output never has the
+// generated file comment
+function outputHeader(inputFile: string, args: CLIOptions): string {
+  return args.generatedFileComment && args.format === 'yaml'
+    ? generatedFileComment(inputFile)
+    : ''
+}
+
 function generatedFileComment(inputFile: string): string {
   return (
     `# This file has been generated by ts2workflows from source file ${inputFile}\n` +
@@ -171,7 +911,12 @@ function generatedFileComment(inputFile: string): string {
 }
 
 function isIoError(err: unknown): err is IOError {
-  return err instanceof Error && 'code' in err
+  // WorkflowSyntaxErrors have an error code, too
+  return (
+    err instanceof Error &&
+    'code' in err &&
+    !(err instanceof WorkflowSyntaxError)
+  )
 }
 
 function versionFromPackageJson(): string {
@@ -188,5 +933,9 @@ if (
   import.meta.url.endsWith(process.argv[1]) ||
   process.argv[1].endsWith('/ts2workflows')
 ) {
-  cliMain()
+  if (process.argv[2] === 'decompile') {
+    decompileMain(process.argv.slice(3))
+  } else {
+    cliMain()
+  }
 }
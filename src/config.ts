@@ -0,0 +1,294 @@
+import * as fs from 'node:fs'
+import { createRequire } from 'node:module'
+import * as path from 'node:path'
+import * as vm from 'node:vm'
+import ts from 'typescript'
+import { DiagnosticsFormat } from './diagnostics.js'
+import { ErrorCode, errorCatalogue } from './errorcodes.js'
+import { ConfigError } from './errors.js'
+import { OutputFormat } from './transpiler/index.js'
+import { StepNaming } from './transpiler/stepnames.js'
+
+// Config file names in the order of preference
+export const CONFIG_FILE_NAMES = [
+  'ts2workflows.config.json',
+  'ts2workflows.config.ts',
+]
+
+export type WarningLevel = 'off' | 'warning' | 'error'
+
+export interface EntryPoint {
+  // Path to the Typescript source file
+  input: string
+  // Path to the output file. If not given, the output is written to outdir or,
+  // if outdir is not set either, to stdout.
+  output?: string
+}
+
+/**
+ * Project-wide settings read from ts2workflows.config.json or
+ * ts2workflows.config.ts.
+ *
+ * Most settings correspond to a command line option. A command line option
+ * overrides the value in the config file. Relative paths are relative to the
+ * directory of the config file.
+ */
+export interface Config {
+  // Path to TSConfig
+  project?: string
+  outdir?: string
+  link?: boolean
+  format?: OutputFormat
+  preserveComments?: boolean
+  debugComments?: boolean
+  stepNames?: StepNaming
+  generatedFileComment?: boolean
+  diagnosticsFormat?: DiagnosticsFormat
+  warningsAsErrors?: boolean
+  // Levels of individual warnings by warning code
+  warnings?: Partial<Record<ErrorCode, WarningLevel>>
+  cache?: boolean
+  // Write a source map next to each output file
+  sourceMap?: boolean
+  // Files that are transpiled if no files are given on the command line
+  entries?: EntryPoint[]
+}
+
+type Validator = (value: unknown, key: string) => void
+
+const configValidators: Record<keyof Config, Validator> = {
+  project: validateString,
+  outdir: validateString,
+  link: validateBoolean,
+  format: validateChoice(['yaml', 'json']),
+  preserveComments: validateBoolean,
+  debugComments: validateBoolean,
+  stepNames: validateChoice(['sequential', 'stable', 'descriptive']),
+  generatedFileComment: validateBoolean,
+  diagnosticsFormat: validateChoice(['text', 'json', 'sarif']),
+  warningsAsErrors: validateBoolean,
+  warnings: validateWarningLevels,
+  cache: validateBoolean,
+  sourceMap: validateBoolean,
+  entries: validateEntries,
+}
+
+/**
+ * Returns the path of the config file in directory or in the closest parent
+ * directory that has one. Returns undefined if there are no config files.
+ */
+export function findConfigFile(directory: string): string | undefined {
+  let dir = path.resolve(directory)
+
+  for (;;) {
+    const found = CONFIG_FILE_NAMES.map((name) => path.join(dir, name)).find(
+      (candidate) => fs.existsSync(candidate),
+    )
+    if (found) {
+      return found
+    }
+
+    const parent = path.dirname(dir)
+    if (parent === dir) {
+      return undefined
+    }
+
+    dir = parent
+  }
+}
+
+/**
+ * Read and validate a config file.
+ *
+ * A .json config file contains the Config object. A .ts config file must
+ * default export it. The relative paths in the returned Config are resolved
+ * against the current working directory.
+ *
+ * Throws a ConfigError if the file can't be read or is not a valid config.
+ */
+export function loadConfig(configPath: string): Config {
+  let source: string
+  try {
+    source = fs.readFileSync(configPath, 'utf-8')
+  } catch (err) {
+    throw new ConfigError(
+      `Failed to read ${configPath}: ${err instanceof Error ? err.message : String(err)}`,
+      configPath,
+    )
+  }
+
+  const rawConfig =
+    path.extname(configPath) === '.ts'
+      ? evaluateTypescriptConfig(source, configPath)
+      : parseJSONConfig(source, configPath)
+
+  return resolvePaths(validateConfig(rawConfig, configPath), configPath)
+}
+
+function parseJSONConfig(source: string, configPath: string): unknown {
+  try {
+    return JSON.parse(source)
+  } catch (err) {
+    throw new ConfigError(
+      `${configPath} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+      configPath,
+    )
+  }
+}
+
+// Transpile the config file into CommonJS and return its default export
+function evaluateTypescriptConfig(source: string, configPath: string): unknown {
+  const js = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+    },
+    fileName: configPath,
+  }).outputText
+
+  const module = { exports: {} as Record<string, unknown> }
+  try {
+    const moduleFunction = vm.runInThisContext(
+      `(function (module, exports, require) {${js}\n})`,
+      { filename: configPath },
+    ) as (module: unknown, exports: unknown, require: NodeJS.Require) => void
+    moduleFunction(module, module.exports, createRequire(configPath))
+  } catch (err) {
+    throw new ConfigError(
+      `Failed to evaluate ${configPath}: ${err instanceof Error ? err.message : String(err)}`,
+      configPath,
+    )
+  }
+
+  if (!('default' in module.exports)) {
+    throw new ConfigError(
+      `${configPath} must have a default export of the config object`,
+      configPath,
+    )
+  }
+
+  return module.exports.default
+}
+
+function validateConfig(config: unknown, configPath: string): Config {
+  try {
+    if (!isRecord(config)) {
+      throw new Error('The config must be an object')
+    }
+
+    Object.entries(config).forEach(([key, value]) => {
+      if (!Object.hasOwn(configValidators, key)) {
+        throw new Error(
+          `Unknown option "${key}". The valid options are: ${Object.keys(configValidators).join(', ')}`,
+        )
+      }
+
+      configValidators[key as keyof Config](value, key)
+    })
+
+    return config as Config
+  } catch (err) {
+    throw new ConfigError(
+      `Invalid config ${configPath}: ${err instanceof Error ? err.message : String(err)}`,
+      configPath,
+    )
+  }
+}
+
+function validateString(value: unknown, key: string): void {
+  if (typeof value !== 'string') {
+    throw new Error(`"${key}" must be a string`)
+  }
+}
+
+function validateBoolean(value: unknown, key: string): void {
+  if (typeof value !== 'boolean') {
+    throw new Error(`"${key}" must be true or false`)
+  }
+}
+
+function validateChoice(choices: string[]): Validator {
+  return (value, key) => {
+    if (typeof value !== 'string' || !choices.includes(value)) {
+      throw new Error(
+        `"${key}" must be one of ${choices.map((c) => `"${c}"`).join(', ')}`,
+      )
+    }
+  }
+}
+
+function validateWarningLevels(value: unknown, key: string): void {
+  if (!isRecord(value)) {
+    throw new Error(
+      `"${key}" must be an object that maps warning codes to levels`,
+    )
+  }
+
+  const warningCodes = Object.keys(errorCatalogue).filter((code) =>
+    code.startsWith('TS2WF2'),
+  )
+  Object.entries(value).forEach(([code, level]) => {
+    if (!warningCodes.includes(code)) {
+      throw new Error(
+        `"${code}" in "${key}" is not a warning code. The warning codes are: ${warningCodes.join(', ')}`,
+      )
+    }
+
+    validateChoice(['off', 'warning', 'error'])(level, `${key}.${code}`)
+  })
+}
+
+function validateEntries(value: unknown, key: string): void {
+  if (!Array.isArray(value)) {
+    throw new Error(`"${key}" must be an array`)
+  }
+
+  value.forEach((entry, i) => {
+    const entryKey = `${key}[${i}]`
+    if (typeof entry === 'string') {
+      throw new Error(
+        `"${entryKey}" must be an object such as { "input": "${entry}" }`,
+      )
+    } else if (!isRecord(entry)) {
+      throw new Error(`"${entryKey}" must be an object`)
+    }
+
+    Object.entries(entry).forEach(([entryOption, entryValue]) => {
+      if (entryOption !== 'input' && entryOption !== 'output') {
+        throw new Error(
+          `Unknown option "${entryOption}" in "${entryKey}". The valid options are: input, output`,
+        )
+      }
+
+      validateString(entryValue, `${entryKey}.${entryOption}`)
+    })
+
+    if (!Object.hasOwn(entry, 'input')) {
+      throw new Error(`"${entryKey}.input" is required`)
+    }
+  })
+}
+
+// Make paths relative to the config file directory relative to the current
+// working directory instead
+function resolvePaths(config: Config, configPath: string): Config {
+  const configDir = path.dirname(configPath)
+  const resolve = (p: string) =>
+    path.relative(process.cwd(), path.resolve(configDir, p)) || '.'
+
+  return {
+    ...config,
+    ...(config.project !== undefined && { project: resolve(config.project) }),
+    ...(config.outdir !== undefined && { outdir: resolve(config.outdir) }),
+    ...(config.entries !== undefined && {
+      entries: config.entries.map((entry) => ({
+        input: resolve(entry.input),
+        ...(entry.output !== undefined && { output: resolve(entry.output) }),
+      })),
+    }),
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
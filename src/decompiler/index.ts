@@ -0,0 +1,16 @@
+import { parseWorkflowDefinition } from './parseworkflow.js'
+import { printWorkflow } from './printer.js'
+
+/**
+ * Convert a GCP Workflows definition in YAML or JSON to ts2workflows
+ * Typescript source code.
+ *
+ * Steps that have no counterpart in ts2workflows Typescript are output as
+ * comments marked with "TODO(ts2workflows)".
+ *
+ * Throws a WorkflowSyntaxError if yamlText is not a valid workflow
+ * definition.
+ */
+export function decompile(yamlText: string): string {
+  return printWorkflow(parseWorkflowDefinition(yamlText))
+}
@@ -0,0 +1,909 @@
+import * as YAML from 'yaml'
+import {
+  Expression,
+  expressionToString,
+  isPrimitive,
+  isQualifiedName,
+  VariableName,
+} from '../ast/expressions.js'
+import {
+  parseExpression,
+  parseLiteralValueOrLiteralExpression,
+} from '../ast/expressionparser.js'
+import {
+  AssignStatement,
+  BreakStatement,
+  ContinueStatement,
+  CustomRetryPolicy,
+  DoWhileStatement,
+  ForStatement,
+  FunctionInvocationStatement,
+  IfBranch,
+  IfStatement,
+  LabelledStatement,
+  ParallelBranch,
+  ParallelForStatement,
+  ParallelStatement,
+  RaiseStatement,
+  ReturnStatement,
+  TryStatement,
+  VariableAssignment,
+  WhileStatement,
+  withSource,
+  WorkflowStatement,
+} from '../ast/statements.js'
+import { StepName } from '../ast/steps.js'
+import { SubworkflowStatements, WorkflowParameter } from '../ast/workflows.js'
+import { SourceCodeLocation, WorkflowSyntaxError } from '../errors.js'
+
+interface ParsingContext {
+  readonly doc: YAML.Document
+  readonly lineCounter: YAML.LineCounter
+  // The step that is executed after the current step, if there is one
+  readonly following?: StepName
+  // Jump targets that correspond to continue and break in a while loop
+  readonly continueTarget?: StepName
+  readonly breakTarget?: StepName
+  // TODO notes about the step that is being parsed. The notes are written as
+  // comments above the step.
+  readonly todos: string[]
+}
+
+// Typescript has no integer division operator. The printer writes x // y as
+// Math.floor(x / y), which the transpiler doesn't convert back.
+const INTEGER_DIVISION_TODO =
+  'TODO(ts2workflows): Math.floor(x / y) stands for the integer division x // y, which has no Typescript counterpart. Rewrite it by hand.'
+
+// Thrown when a step is valid but can't be expressed in ts2workflows
+// Typescript. The step is output as a comment.
+class UnsupportedStepError extends Error {}
+
+/**
+ * Parse a workflow definition in YAML or JSON into subworkflow statements.
+ *
+ * The definition is either a map of subworkflows or, in the simple form, a
+ * list of steps of the main workflow. Each step is converted to a
+ * LabelledStatement that holds the step name. A step that has no counterpart
+ * in ts2workflows Typescript is converted to an empty LabelledStatement whose
+ * comments contain a TODO marker and the YAML of the step.
+ *
+ * Throws a WorkflowSyntaxError if yamlText is not a valid workflow definition.
+ */
+export function parseWorkflowDefinition(
+  yamlText: string,
+): SubworkflowStatements[] {
+  const lineCounter = new YAML.LineCounter()
+  const doc = YAML.parseDocument(yamlText, { lineCounter })
+  const ctx: ParsingContext = { doc, lineCounter, todos: [] }
+
+  if (doc.errors.length > 0) {
+    const [err] = doc.errors
+    const [start, end] = err.linePos ?? [{ line: 1, col: 1 }]
+    throw new WorkflowSyntaxError(
+      err.message,
+      {
+        start: { line: start.line, column: start.col - 1 },
+        end: { line: (end ?? start).line, column: (end ?? start).col - 1 },
+      },
+      'TS2WF0003',
+    )
+  }
+
+  if (YAML.isSeq(doc.contents)) {
+    return [new SubworkflowStatements('main', parseSteps(doc.contents, ctx))]
+  } else if (YAML.isMap(doc.contents)) {
+    return doc.contents.items.map((pair) => parseSubworkflow(pair, ctx))
+  } else {
+    fail('Expected a map of subworkflows or a list of steps', doc.contents, ctx)
+  }
+}
+
+function parseSubworkflow(
+  pair: YAML.Pair,
+  ctx: ParsingContext,
+): SubworkflowStatements {
+  const name = stringValue(pair.key, ctx)
+  const body = pair.value
+  if (!YAML.isMap(body)) {
+    fail(`Expected subworkflow "${name}" to be a map`, pair.key, ctx)
+  }
+
+  checkProperties(body, ['params', 'steps'], ctx, fail)
+
+  const paramsNode = body.get('params', true)
+  const params =
+    paramsNode === undefined ? undefined : parseParams(paramsNode, ctx)
+  const statements = parseSteps(body.get('steps', true), ctx)
+  const comments = YAML.isScalar(pair.key)
+    ? commentLines(pair.key.commentBefore)
+    : undefined
+
+  return new SubworkflowStatements(name, statements, params, comments)
+}
+
+function parseParams(node: unknown, ctx: ParsingContext): WorkflowParameter[] {
+  if (!YAML.isSeq(node)) {
+    fail('Expected "params" to be a list', node, ctx)
+  }
+
+  return node.items.map((item) => {
+    if (YAML.isMap(item) && item.items.length === 1) {
+      const [pair] = item.items
+      const defaultValue = parseValue(pair.value, ctx)
+      if (!isPrimitive(defaultValue)) {
+        fail('The default value of a parameter must be a primitive', item, ctx)
+      }
+
+      return { name: stringValue(pair.key, ctx), default: defaultValue }
+    } else {
+      return { name: stringValue(item, ctx) }
+    }
+  })
+}
+
+function parseSteps(node: unknown, ctx: ParsingContext): WorkflowStatement[] {
+  if (!YAML.isSeq(node)) {
+    fail('Expected a list of steps', node, ctx)
+  }
+
+  // The comment above the first step is attached to the list
+  return parseStepList(node.items, ctx, node.commentBefore)
+}
+
+// A do...while loop is a list of steps followed by a switch that jumps back
+// to the first step of the loop
+function parseStepList(
+  items: unknown[],
+  ctx: ParsingContext,
+  firstComment?: string | null,
+): WorkflowStatement[] {
+  const labels = items.map((item) =>
+    YAML.isMap(item) ? scalarString(item.items.at(0)?.key) : undefined,
+  )
+
+  const parseRange = (
+    start: number,
+    end: number,
+    rangeCtx: ParsingContext,
+  ): WorkflowStatement[] => {
+    const statements: WorkflowStatement[] = []
+    let i = start
+    while (i < end) {
+      const following = i + 1 < end ? labels[i + 1] : rangeCtx.following
+      const loop = findDoWhileLoop(items, labels[i], i + 1, end, ctx)
+
+      if (loop) {
+        const body = parseRange(i, loop.end, {
+          ...rangeCtx,
+          following: labels[loop.end],
+          continueTarget: labels[i],
+          breakTarget:
+            loop.end + 1 < end ? labels[loop.end + 1] : rangeCtx.following,
+        })
+        statements.push(new DoWhileStatement(loop.condition, body))
+        i = loop.end + 1
+      } else {
+        statements.push(
+          ...parseNamedStep(
+            items[i],
+            { ...rangeCtx, following },
+            i === 0 ? firstComment : undefined,
+          ),
+        )
+        i++
+      }
+    }
+
+    return statements
+  }
+
+  return parseRange(0, items.length, ctx)
+}
+
+// Find the last switch step between start and end that jumps back to the
+// step label. Returns the index of the switch and its condition.
+function findDoWhileLoop(
+  items: unknown[],
+  label: StepName | undefined,
+  start: number,
+  end: number,
+  ctx: ParsingContext,
+): { end: number; condition: Expression } | undefined {
+  if (label === undefined) {
+    return undefined
+  }
+
+  for (let j = end - 1; j >= start; j--) {
+    const item = items[j]
+    const body = YAML.isMap(item) ? item.items.at(0)?.value : undefined
+    const branches = YAML.isMap(body) ? body.get('switch', true) : undefined
+    const branch = YAML.isSeq(branches) ? branches.items.at(0) : undefined
+    const steps = YAML.isMap(branch) ? branch.get('steps', true) : undefined
+    const isJumpBack =
+      YAML.isMap(body) &&
+      body.items.length === 1 &&
+      YAML.isSeq(branches) &&
+      branches.items.length === 1 &&
+      YAML.isMap(branch) &&
+      branch.get('next') === label &&
+      (steps === undefined || (YAML.isSeq(steps) && steps.items.length === 0))
+
+    if (isJumpBack) {
+      try {
+        return {
+          end: j,
+          condition: parseValue(branch.get('condition', true), ctx),
+        }
+      } catch (err) {
+        if (err instanceof UnsupportedStepError) {
+          return undefined
+        } else {
+          throw err
+        }
+      }
+    }
+  }
+
+  return undefined
+}
+
+function parseNamedStep(
+  node: unknown,
+  ctx: ParsingContext,
+  leadingComment?: string | null,
+): WorkflowStatement[] {
+  if (!YAML.isMap(node) || node.items.length !== 1) {
+    fail('Expected a step to be a map with a single step name', node, ctx)
+  }
+
+  const [pair] = node.items
+  const label = stringValue(pair.key, ctx)
+  const source = {
+    loc: location(node, ctx),
+    comments: commentLines(
+      [leadingComment, node.commentBefore].filter(Boolean).join('\n'),
+    ),
+  }
+
+  // The notes of the nested steps have been taken by the time parseStep()
+  // returns. The rest belong to this step.
+  const todoCount = ctx.todos.length
+  try {
+    const statements = withSource(parseStep(pair.value, label, ctx), {
+      loc: source.loc,
+    })
+    const todos = ctx.todos.splice(todoCount)
+    const comments = [...(source.comments ?? []), ...todos]
+
+    return withSource([new LabelledStatement(label, statements)], {
+      loc: source.loc,
+      comments: comments.length > 0 ? comments : undefined,
+    })
+  } catch (err) {
+    ctx.todos.splice(todoCount)
+
+    if (err instanceof UnsupportedStepError) {
+      return withSource(
+        [unsupportedStep(label, node, err.message, source.comments, ctx)],
+        { loc: source.loc },
+      )
+    } else {
+      throw err
+    }
+  }
+}
+
+// An empty statement with comments explaining why the step was not converted
+function unsupportedStep(
+  label: StepName,
+  node: YAML.YAMLMap,
+  reason: string,
+  comments: string[] | undefined,
+  ctx: ParsingContext,
+): LabelledStatement {
+  const yamlLines = YAML.stringify([node.toJS(ctx.doc)])
+    .trimEnd()
+    .split('\n')
+  const statement = new LabelledStatement(label, [])
+  statement.comments = [
+    ...(comments ?? []),
+    `TODO(ts2workflows): ${reason}. The original step:`,
+    ...yamlLines,
+  ]
+
+  return statement
+}
+
+function parseStep(
+  node: unknown,
+  label: StepName,
+  ctx: ParsingContext,
+): WorkflowStatement[] {
+  if (!YAML.isMap(node)) {
+    fail(`Expected the body of step "${label}" to be a map`, node, ctx)
+  }
+
+  let statements: WorkflowStatement[]
+  if (node.has('assign')) {
+    checkProperties(node, ['assign', 'next'], ctx)
+    statements = [parseAssign(node.get('assign', true), ctx)]
+  } else if (node.has('call')) {
+    checkProperties(node, ['call', 'args', 'result', 'next'], ctx)
+    statements = [parseCall(node, ctx)]
+  } else if (node.has('switch')) {
+    checkProperties(node, ['switch', 'next'], ctx)
+    statements = parseSwitch(node.get('switch', true), label, ctx)
+  } else if (node.has('for')) {
+    checkProperties(node, ['for', 'next'], ctx)
+    statements = [parseFor(node.get('for', true), ctx)]
+  } else if (node.has('parallel')) {
+    checkProperties(node, ['parallel', 'next'], ctx)
+    statements = [parseParallel(node.get('parallel', true), ctx)]
+  } else if (node.has('try')) {
+    checkProperties(node, ['try', 'retry', 'except', 'next'], ctx)
+    statements = [parseTry(node, label, ctx)]
+  } else if (node.has('raise')) {
+    checkProperties(node, ['raise'], ctx)
+    statements = [new RaiseStatement(parseValue(node.get('raise', true), ctx))]
+  } else if (node.has('return')) {
+    checkProperties(node, ['return'], ctx)
+    statements = [
+      new ReturnStatement(parseValue(node.get('return', true), ctx)),
+    ]
+  } else if (node.has('steps')) {
+    checkProperties(node, ['steps', 'next'], ctx)
+    statements = parseSteps(node.get('steps', true), ctx)
+  } else if (node.has('next')) {
+    checkProperties(node, ['next'], ctx)
+    statements = []
+  } else {
+    throw new UnsupportedStepError('Unknown step type')
+  }
+
+  const next = node.get('next', true)
+  if (next !== undefined) {
+    statements.push(...parseJump(next, ctx))
+  }
+
+  return statements
+}
+
+function parseAssign(node: unknown, ctx: ParsingContext): AssignStatement {
+  if (!YAML.isSeq(node)) {
+    fail('Expected "assign" to be a list', node, ctx)
+  }
+
+  const assignments = node.items.map((item): VariableAssignment => {
+    if (!YAML.isMap(item) || item.items.length !== 1) {
+      fail('Expected an assignment to be a map with a single key', item, ctx)
+    }
+
+    const [pair] = item.items
+    const name = parseExpressionNode(stringValue(pair.key, ctx), pair.key, ctx)
+    if (name.tag !== 'variableReference' && name.tag !== 'member') {
+      fail('Expected a variable name', pair.key, ctx)
+    }
+
+    return { name, value: parseValue(pair.value, ctx) }
+  })
+
+  return new AssignStatement(assignments)
+}
+
+function parseCall(
+  node: YAML.YAMLMap,
+  ctx: ParsingContext,
+): FunctionInvocationStatement {
+  const callee = stringValue(node.get('call', true), ctx)
+  const argsNode = node.get('args', true)
+  const resultNode = node.get('result', true)
+
+  let args: Record<VariableName, Expression> | undefined = undefined
+  if (argsNode !== undefined) {
+    if (!YAML.isMap(argsNode)) {
+      fail('Expected "args" to be a map', argsNode, ctx)
+    }
+
+    args = Object.fromEntries(
+      argsNode.items.map((pair) => [
+        stringValue(pair.key, ctx),
+        parseValue(pair.value, ctx),
+      ]),
+    )
+  }
+
+  const result =
+    resultNode === undefined ? undefined : stringValue(resultNode, ctx)
+
+  return new FunctionInvocationStatement(callee, args, result)
+}
+
+// A switch is converted to a while loop if its only branch ends with a jump
+// back to the switch. Otherwise, it is converted to an if statement.
+function parseSwitch(
+  node: unknown,
+  label: StepName,
+  ctx: ParsingContext,
+): WorkflowStatement[] {
+  if (!YAML.isSeq(node)) {
+    fail('Expected "switch" to be a list', node, ctx)
+  }
+
+  const branches = node.items.map((item) => {
+    if (!YAML.isMap(item)) {
+      fail('Expected a switch condition to be a map', item, ctx)
+    }
+
+    checkProperties(item, ['condition', 'steps', 'next'], ctx, fail)
+
+    return item
+  })
+
+  const loopBody =
+    branches.length === 1 ? loopBodySteps(branches[0], label) : undefined
+  if (loopBody) {
+    const body = parseStepList(loopBody, {
+      ...ctx,
+      following: label,
+      continueTarget: label,
+      breakTarget: ctx.following,
+    })
+
+    return [
+      new WhileStatement(
+        parseValue(branches[0].get('condition', true), ctx),
+        withoutTrailingContinue(body),
+      ),
+    ]
+  }
+
+  return [
+    new IfStatement(
+      branches.map((branch): IfBranch => {
+        const steps = branch.get('steps', true)
+        const next = branch.get('next', true)
+
+        return {
+          condition: parseValue(branch.get('condition', true), ctx),
+          body: [
+            ...(steps === undefined ? [] : parseSteps(steps, ctx)),
+            ...(next === undefined ? [] : parseJump(next, ctx)),
+          ],
+        }
+      }),
+    ),
+  ]
+}
+
+// Returns the steps of a switch branch without the final jump back to the
+// switch or undefined if the branch doesn't end with the jump. The jump is
+// either a separate step or the "next" of the last step.
+function loopBodySteps(
+  branch: YAML.YAMLMap,
+  label: StepName,
+): unknown[] | undefined {
+  const steps = branch.get('steps', true)
+  if (branch.has('next') || !YAML.isSeq(steps)) {
+    return undefined
+  }
+
+  const last = steps.items.at(-1)
+  const lastBody = YAML.isMap(last) ? last.items.at(0)?.value : undefined
+  if (
+    !YAML.isMap(last) ||
+    last.items.length !== 1 ||
+    !YAML.isMap(lastBody) ||
+    lastBody.get('next') !== label
+  ) {
+    return undefined
+  }
+
+  return lastBody.items.length === 1 ? steps.items.slice(0, -1) : steps.items
+}
+
+// Remove the jump back to the start of a loop at the end of the loop body
+function withoutTrailingContinue(
+  statements: WorkflowStatement[],
+): WorkflowStatement[] {
+  const last = statements.at(-1)
+  if (last?.tag === 'continue') {
+    return statements.slice(0, -1)
+  } else if (last?.tag === 'label') {
+    const labelled = new LabelledStatement(
+      last.label,
+      withoutTrailingContinue(last.statements),
+    )
+    labelled.loc = last.loc
+    labelled.comments = last.comments
+    return [...statements.slice(0, -1), labelled]
+  } else {
+    return statements
+  }
+}
+
+function parseFor(node: unknown, ctx: ParsingContext): ForStatement {
+  if (!YAML.isMap(node)) {
+    fail('Expected "for" to be a map', node, ctx)
+  }
+
+  checkProperties(node, ['value', 'index', 'in', 'range', 'steps'], ctx, fail)
+
+  if (node.has('range')) {
+    throw new UnsupportedStepError('A for loop over a range is not supported')
+  } else if (!node.has('in')) {
+    fail('Expected "in" or "range" in a for loop', node, ctx)
+  }
+
+  const loopVariable = stringValue(node.get('value', true), ctx)
+  const indexVariable = node.has('index')
+    ? stringValue(node.get('index', true), ctx)
+    : undefined
+  const listExpression = parseValue(node.get('in', true), ctx)
+  const body = parseSteps(node.get('steps', true), loopBodyContext(ctx))
+
+  return new ForStatement(body, loopVariable, listExpression, indexVariable)
+}
+
+// Jumps out of a for loop or a parallel branch can't be expressed as break
+// or continue
+function loopBodyContext(ctx: ParsingContext): ParsingContext {
+  return { doc: ctx.doc, lineCounter: ctx.lineCounter, todos: ctx.todos }
+}
+
+function parseParallel(
+  node: unknown,
+  ctx: ParsingContext,
+): ParallelStatement | ParallelForStatement {
+  if (!YAML.isMap(node)) {
+    fail('Expected "parallel" to be a map', node, ctx)
+  }
+
+  checkProperties(
+    node,
+    ['branches', 'for', 'shared', 'concurrency_limit', 'exception_policy'],
+    ctx,
+    fail,
+  )
+
+  const sharedNode = node.get('shared', true)
+  const shared = YAML.isSeq(sharedNode)
+    ? sharedNode.items.map((item) => stringValue(item, ctx))
+    : undefined
+  const concurrencyLimit = node.get('concurrency_limit')
+  if (concurrencyLimit !== undefined && typeof concurrencyLimit !== 'number') {
+    throw new UnsupportedStepError(
+      'An expression as a concurrency limit is not supported',
+    )
+  }
+  const exceptionPolicyNode = node.get('exception_policy', true)
+  const exceptionPolicy =
+    exceptionPolicyNode === undefined
+      ? undefined
+      : stringValue(exceptionPolicyNode, ctx)
+
+  const branchesNode = node.get('branches', true)
+  if (branchesNode !== undefined) {
+    if (!YAML.isSeq(branchesNode)) {
+      fail('Expected "branches" to be a list', branchesNode, ctx)
+    }
+
+    const branches = branchesNode.items.map((item): ParallelBranch => {
+      if (!YAML.isMap(item) || item.items.length !== 1) {
+        fail('Expected a branch to be a map with a branch name', item, ctx)
+      }
+
+      const [pair] = item.items
+      const body = pair.value
+      if (!YAML.isMap(body)) {
+        fail('Expected a branch body to be a map', body, ctx)
+      }
+
+      checkProperties(body, ['steps'], ctx, fail)
+
+      return {
+        name: stringValue(pair.key, ctx),
+        body: parseSteps(body.get('steps', true), loopBodyContext(ctx)),
+      }
+    })
+
+    return new ParallelStatement(
+      branches,
+      shared,
+      concurrencyLimit,
+      exceptionPolicy,
+    )
+  } else if (node.has('for')) {
+    return new ParallelForStatement(
+      parseFor(node.get('for', true), ctx),
+      shared,
+      concurrencyLimit,
+      exceptionPolicy,
+    )
+  } else {
+    fail('Expected "branches" or "for" in a parallel step', node, ctx)
+  }
+}
+
+function parseTry(
+  node: YAML.YAMLMap,
+  label: StepName,
+  ctx: ParsingContext,
+): TryStatement {
+  const tryNode = node.get('try', true)
+  if (!YAML.isMap(tryNode)) {
+    fail('Expected "try" to be a map', tryNode, ctx)
+  }
+
+  // The try body is either a list of steps or a single step body
+  const tryBody = parseStep(tryNode, label, ctx)
+
+  const retryNode = node.get('retry', true)
+  const retryPolicy =
+    retryNode === undefined ? undefined : parseRetryPolicy(retryNode, ctx)
+
+  const exceptNode = node.get('except', true)
+  if (exceptNode === undefined) {
+    return new TryStatement(tryBody, undefined, retryPolicy)
+  } else if (!YAML.isMap(exceptNode)) {
+    fail('Expected "except" to be a map', exceptNode, ctx)
+  }
+
+  checkProperties(exceptNode, ['as', 'steps'], ctx, fail)
+
+  const errorMapNode = exceptNode.get('as', true)
+  const errorMap =
+    errorMapNode === undefined ? undefined : stringValue(errorMapNode, ctx)
+  const exceptBody = parseSteps(exceptNode.get('steps', true), ctx)
+
+  return new TryStatement(tryBody, exceptBody, retryPolicy, errorMap)
+}
+
+function parseRetryPolicy(
+  node: unknown,
+  ctx: ParsingContext,
+): string | CustomRetryPolicy {
+  if (!YAML.isMap(node)) {
+    return functionName(node, ctx)
+  }
+
+  checkProperties(node, ['predicate', 'max_retries', 'backoff'], ctx, fail)
+
+  if (!node.has('max_retries')) {
+    throw new UnsupportedStepError(
+      'A retry policy without max_retries is not supported',
+    )
+  }
+
+  const backoff = node.get('backoff', true)
+  if (!YAML.isMap(backoff)) {
+    fail('Expected "backoff" to be a map', backoff ?? node, ctx)
+  }
+
+  checkProperties(
+    backoff,
+    ['initial_delay', 'max_delay', 'multiplier'],
+    ctx,
+    fail,
+  )
+
+  const optionalValue = (key: string) =>
+    backoff.has(key) ? parseValue(backoff.get(key, true), ctx) : undefined
+  const predicate = node.get('predicate', true)
+
+  return {
+    predicate:
+      predicate === undefined ? undefined : functionName(predicate, ctx),
+    maxRetries: parseValue(node.get('max_retries', true), ctx),
+    backoff: {
+      initialDelay: optionalValue('initial_delay'),
+      maxDelay: optionalValue('max_delay'),
+      multiplier: optionalValue('multiplier'),
+    },
+  }
+}
+
+// A retry policy or a predicate: a function name enclosed in ${}
+function functionName(node: unknown, ctx: ParsingContext): string {
+  const ex = parseValue(node, ctx)
+  if (!isQualifiedName(ex)) {
+    fail('Expected a function name', node, ctx)
+  }
+
+  return expressionToString(ex)
+}
+
+// Convert a jump to a return, break or continue statement. A jump to the
+// following step is a no-op.
+function parseJump(node: unknown, ctx: ParsingContext): WorkflowStatement[] {
+  const target = stringValue(node, ctx)
+
+  if (target === 'end') {
+    return [new ReturnStatement(undefined)]
+  } else if (target === 'break') {
+    return [new BreakStatement()]
+  } else if (target === 'continue') {
+    return [new ContinueStatement()]
+  } else if (target === ctx.continueTarget) {
+    return [new ContinueStatement()]
+  } else if (target === ctx.breakTarget) {
+    return [new BreakStatement()]
+  } else if (target === ctx.following) {
+    return []
+  } else {
+    throw new UnsupportedStepError(
+      `A jump to step "${target}" is not supported`,
+    )
+  }
+}
+
+// Parse a literal value or an expression enclosed in ${}
+function parseValue(node: unknown, ctx: ParsingContext): Expression {
+  const value: unknown = YAML.isNode(node) ? node.toJS(ctx.doc) : node
+
+  try {
+    return checkSupportedExpression(
+      parseLiteralValueOrLiteralExpression(value),
+      ctx,
+    )
+  } catch (err) {
+    throw relocateError(err, node, ctx)
+  }
+}
+
+function parseExpressionNode(
+  text: string,
+  node: unknown,
+  ctx: ParsingContext,
+): Expression {
+  try {
+    return checkSupportedExpression(parseExpression(text), ctx)
+  } catch (err) {
+    throw relocateError(err, node, ctx)
+  }
+}
+
+// The location of an expression error is relative to the expression. Report
+// the error at the YAML node instead.
+function relocateError(
+  err: unknown,
+  node: unknown,
+  ctx: ParsingContext,
+): unknown {
+  return err instanceof WorkflowSyntaxError
+    ? new WorkflowSyntaxError(err.message, location(node, ctx), err.code)
+    : err
+}
+
+// Throws an UnsupportedStepError if ex has no Typescript counterpart. Adds a
+// TODO note to ctx if ex can be printed only approximately.
+function checkSupportedExpression(
+  ex: Expression,
+  ctx: ParsingContext,
+): Expression {
+  const check = (x: Expression) => checkSupportedExpression(x, ctx)
+
+  switch (ex.tag) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'null':
+    case 'variableReference':
+      break
+
+    case 'list':
+      ex.value.forEach(check)
+      break
+
+    case 'map':
+      Object.values(ex.value).forEach(check)
+      break
+
+    case 'binary':
+      if (
+        ex.binaryOperator === '//' &&
+        !ctx.todos.includes(INTEGER_DIVISION_TODO)
+      ) {
+        ctx.todos.push(INTEGER_DIVISION_TODO)
+      }
+      check(ex.left)
+      check(ex.right)
+      break
+
+    case 'functionInvocation': {
+      const expectedArity: Record<string, number> = { default: 2, if: 3 }
+      const arity = expectedArity[ex.functionName]
+      if (arity !== undefined && ex.arguments.length !== arity) {
+        throw new UnsupportedStepError(
+          `${ex.functionName}() with ${ex.arguments.length} arguments is not supported`,
+        )
+      }
+      ex.arguments.forEach((arg) => {
+        if (arg) {
+          check(arg)
+        }
+      })
+      break
+    }
+
+    case 'member':
+      check(ex.object)
+      check(ex.property)
+      break
+
+    case 'unary':
+      check(ex.value)
+      break
+  }
+
+  return ex
+}
+
+// Throws if node has properties other than the allowed ones. By default, the
+// step is output as a comment.
+function checkProperties(
+  node: YAML.YAMLMap,
+  allowed: string[],
+  ctx: ParsingContext,
+  onUnexpected: (
+    message: string,
+    node: unknown,
+    ctx: ParsingContext,
+  ) => never = (message) => {
+    throw new UnsupportedStepError(message)
+  },
+): void {
+  const unexpected = node.items.find(
+    (pair) => !allowed.includes(scalarString(pair.key) ?? ''),
+  )
+
+  if (unexpected) {
+    onUnexpected(
+      `Unexpected property "${scalarString(unexpected.key) ?? ''}"`,
+      unexpected.key,
+      ctx,
+    )
+  }
+}
+
+function stringValue(node: unknown, ctx: ParsingContext): string {
+  const value = scalarString(node)
+  if (value === undefined) {
+    fail('Expected a string', node, ctx)
+  }
+
+  return value
+}
+
+function scalarString(node: unknown): string | undefined {
+  return YAML.isScalar(node) && typeof node.value === 'string'
+    ? node.value
+    : undefined
+}
+
+function commentLines(
+  comment: string | null | undefined,
+): string[] | undefined {
+  // Comments separated by an empty line, such as the generated file comment,
+  // are not attached to the node
+  const lines = (comment ?? '').split('\n')
+  const attached = lines
+    .slice(lines.lastIndexOf('') + 1)
+    .map((line) => line.replace(/^ /, ''))
+
+  return attached.length > 0 ? attached : undefined
+}
+
+function location(node: unknown, ctx: ParsingContext): SourceCodeLocation {
+  const range = YAML.isNode(node) ? node.range : undefined
+  const start = ctx.lineCounter.linePos(range?.[0] ?? 0)
+  const end = ctx.lineCounter.linePos(range?.[1] ?? 0)
+
+  return {
+    start: { line: start.line, column: start.col - 1 },
+    end: { line: end.line, column: end.col - 1 },
+  }
+}
+
+function fail(message: string, node: unknown, ctx: ParsingContext): never {
+  throw new WorkflowSyntaxError(message, location(node, ctx), 'TS2WF0003')
+}
@@ -0,0 +1,988 @@
+import * as R from 'ramda'
+import {
+  BinaryOperator,
+  Expression,
+  nullEx,
+  UnaryOperator,
+  VariableName,
+} from '../ast/expressions.js'
+import {
+  CustomRetryPolicy,
+  ForStatement,
+  FunctionInvocationStatement,
+  ParallelBranch,
+  ParallelForStatement,
+  ParallelStatement,
+  TryStatement,
+  VariableAssignment,
+  WorkflowStatement,
+} from '../ast/statements.js'
+import { SubworkflowStatements } from '../ast/workflows.js'
+import { InternalTranspilingError } from '../errors.js'
+import { blockingFunctions } from '../transpiler/generated/functionMetadata.js'
+
+const WORKFLOWSLIB_MODULE = 'ts2workflows/types/workflowslib'
+
+// The functions and namespaces exported by ts2workflows/types/workflowslib
+const WORKFLOWSLIB_NAMES = [
+  'base64',
+  'double',
+  'events',
+  'get_type',
+  'googleapis',
+  'hash',
+  'http',
+  'int',
+  'json',
+  'keys',
+  'len',
+  'list',
+  'map',
+  'math',
+  'retry',
+  'string',
+  'sys',
+  'text',
+  'time',
+  'uuid',
+]
+
+// The step names generated by the sequential step naming, for example
+// "assign1" or "call_sys_log_2". These are not output as @step tags because
+// the transpiler generates the same names again.
+const GENERATED_STEP_NAME =
+  /^(assign|for|next|parallel|raise|return|switch|try|call_\w+_)\d+$/
+
+const STEP_TAG_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/
+
+const RESERVED_STEP_NAMES = ['end', 'break', 'continue']
+
+// Longer calls are split on several lines
+const MAX_LINE_LENGTH = 72
+
+// Typescript operator precedence. A higher value binds tighter.
+const TERNARY = 1
+const NULLISH = 2
+const OR = 3
+const AND = 4
+const POSTFIX = 10
+const PRIMARY = 11
+
+const BINARY_OPERATORS: Record<
+  Exclude<BinaryOperator, '//'>,
+  [string, number]
+> = {
+  or: ['||', OR],
+  and: ['&&', AND],
+  '==': ['===', 5],
+  '!=': ['!==', 5],
+  '<': ['<', 6],
+  '<=': ['<=', 6],
+  '>': ['>', 6],
+  '>=': ['>=', 6],
+  in: ['in', 6],
+  '+': ['+', 7],
+  '-': ['-', 7],
+  '*': ['*', 8],
+  '/': ['/', 8],
+  '%': ['%', 8],
+}
+
+const UNARY = 9
+const UNARY_OPERATORS: Record<UnaryOperator, string> = {
+  not: '!',
+  '-': '-',
+  '+': '+',
+}
+
+// Operators that can be written as compound assignments: x = x + 1 is
+// printed as x += 1
+const COMPOUND_ASSIGNMENT_OPERATORS: BinaryOperator[] = [
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+]
+
+type DeclarationSite = VariableAssignment | FunctionInvocationStatement
+
+interface PrinterContext {
+  // Names that need to be imported from workflowslib
+  readonly imports: Set<string>
+  // The assignments that declare a variable and the declaration keyword
+  readonly declarations: Map<DeclarationSite, 'const' | 'let'>
+  // Variables, parameters and subworkflows that shadow workflowslib names
+  readonly localNames: Set<string>
+  // Step names that have already been output as @step tags
+  readonly stepTags: Set<string>
+}
+
+/**
+ * Print subworkflow statements as ts2workflows Typescript source code.
+ *
+ * Each subworkflow is printed as a function. The functions and namespaces of
+ * the Workflows standard library that are used in the code are imported from
+ * workflowslib.
+ */
+export function printWorkflow(subworkflows: SubworkflowStatements[]): string {
+  const imports = new Set<string>()
+  const subworkflowNames = subworkflows.map((s) => s.name)
+  const functions = subworkflows.map((subworkflow) =>
+    printSubworkflow(subworkflow, imports, subworkflowNames),
+  )
+
+  const lines = [
+    ...(imports.size > 0 ? [importDeclaration(imports), ''] : []),
+    ...functions.flatMap((f, i) => (i > 0 ? ['', ...f] : f)),
+  ]
+
+  return lines.join('\n') + '\n'
+}
+
+function importDeclaration(imports: Set<string>): string {
+  const names = [...imports].sort()
+  const singleLine = `import { ${names.join(', ')} } from '${WORKFLOWSLIB_MODULE}'`
+
+  if (singleLine.length <= 80) {
+    return singleLine
+  } else {
+    return [
+      'import {',
+      ...names.map((name) => `  ${name},`),
+      `} from '${WORKFLOWSLIB_MODULE}'`,
+    ].join('\n')
+  }
+}
+
+function printSubworkflow(
+  subworkflow: SubworkflowStatements,
+  imports: Set<string>,
+  subworkflowNames: string[],
+): string[] {
+  const params = subworkflow.params ?? []
+  const { declarations, hoisted, variables } = findDeclarations(
+    subworkflow.statements,
+    params.map((p) => p.name),
+  )
+  const ctx: PrinterContext = {
+    imports,
+    declarations,
+    localNames: new Set([...variables, ...subworkflowNames]),
+    stepTags: new Set(),
+  }
+
+  // The parameters are untyped in Workflows. They are typed as any so that
+  // the output compiles with noImplicitAny.
+  const paramList = params
+    .map((p) =>
+      p.default === undefined
+        ? `${p.name}: any`
+        : `${p.name}: any = ${printExpression(p.default, ctx)}`,
+    )
+    .join(', ')
+  const body = [
+    ...hoisted.map((name) => `let ${name}`),
+    ...printStatements(subworkflow.statements, ctx),
+  ]
+
+  return [
+    ...docComment(subworkflow.comments),
+    ...block(`function ${subworkflow.name}(${paramList})`, body),
+  ]
+}
+
+function docComment(comments: string[] | undefined): string[] {
+  if (!comments) {
+    return []
+  }
+
+  return [
+    '/**',
+    ...comments.map((line) => (line === '' ? ' *' : ` * ${line}`)),
+    ' */',
+  ]
+}
+
+function printStatements(
+  statements: WorkflowStatement[],
+  ctx: PrinterContext,
+): string[] {
+  return statements.flatMap((s) => [
+    ...(s.comments ?? []).map((line) => (line === '' ? '//' : `// ${line}`)),
+    ...printStatement(s, ctx),
+  ])
+}
+
+function printStatement(s: WorkflowStatement, ctx: PrinterContext): string[] {
+  switch (s.tag) {
+    case 'assign':
+      return s.assignments.map((a) => printAssignment(a, ctx))
+
+    case 'break':
+      return ['break']
+
+    case 'continue':
+      return ['continue']
+
+    case 'for':
+      return block(printForHeader(s, ctx), printStatements(s.body, ctx))
+
+    case 'function-invocation':
+      return [printCallStatement(s, ctx)]
+
+    case 'if':
+      return s.branches.flatMap((branch, i) => {
+        if (!('body' in branch)) {
+          throw new InternalTranspilingError(
+            'Unexpected jump in an if statement',
+          )
+        }
+
+        const isElse =
+          i > 0 &&
+          i === s.branches.length - 1 &&
+          branch.condition.tag === 'boolean' &&
+          branch.condition.value
+        const header = isElse
+          ? '} else {'
+          : `${i > 0 ? '} else ' : ''}if (${printExpression(branch.condition, ctx)}) {`
+
+        return [
+          header,
+          ...indent(printStatements(branch.body, ctx)),
+          ...(i === s.branches.length - 1 ? ['}'] : []),
+        ]
+      })
+
+    case 'label':
+      return printLabelledStatements(s.label, s.statements, ctx)
+
+    case 'parallel':
+      return printParallel(s, ctx)
+
+    case 'parallel-for':
+      return printParallelFor(s, ctx)
+
+    case 'raise':
+      return [`throw ${printExpression(s.value, ctx)}`]
+
+    case 'return':
+      return [s.value ? `return ${printExpression(s.value, ctx)}` : 'return']
+
+    case 'try':
+      return printTry(s, ctx)
+
+    case 'while':
+      return block(
+        `while (${printExpression(s.condition, ctx)})`,
+        printStatements(s.body, ctx),
+      )
+
+    case 'do-while':
+      return [
+        'do {',
+        ...indent(printStatements(s.body, ctx)),
+        `} while (${printExpression(s.condition, ctx)})`,
+      ]
+
+    case 'for-range':
+    case 'switch':
+      throw new InternalTranspilingError(
+        `Printing a ${s.tag} statement is not supported`,
+      )
+  }
+}
+
+// The label is output as a @step tag unless it is a generated name. A label
+// on a group of labelled steps is dropped because the group is not a step
+// in the transpiled workflow.
+function printLabelledStatements(
+  label: string,
+  statements: WorkflowStatement[],
+  ctx: PrinterContext,
+): string[] {
+  const [first] = statements
+  const isGroup =
+    first?.tag === 'label' &&
+    first.statements.length > 0 &&
+    isTaggedStepName(first.label)
+  const isTagged =
+    first !== undefined &&
+    !isGroup &&
+    isTaggedStepName(label) &&
+    !ctx.stepTags.has(label)
+
+  if (isTagged) {
+    ctx.stepTags.add(label)
+  }
+
+  return [
+    ...(isTagged ? [`// @step ${label}`] : []),
+    ...printStatements(statements, ctx),
+  ]
+}
+
+function isTaggedStepName(label: string): boolean {
+  return (
+    STEP_TAG_NAME.test(label) &&
+    !GENERATED_STEP_NAME.test(label) &&
+    !RESERVED_STEP_NAMES.includes(label)
+  )
+}
+
+function printAssignment(a: VariableAssignment, ctx: PrinterContext): string {
+  const target = printExpression(a.name, ctx)
+  const keyword = ctx.declarations.get(a)
+
+  if (keyword) {
+    return `${keyword} ${target} = ${printExpression(a.value, ctx)}`
+  } else if (
+    a.value.tag === 'binary' &&
+    COMPOUND_ASSIGNMENT_OPERATORS.includes(a.value.binaryOperator) &&
+    R.equals(a.value.left, a.name)
+  ) {
+    return `${target} ${a.value.binaryOperator}= ${printExpression(a.value.right, ctx)}`
+  } else {
+    return `${target} = ${printExpression(a.value, ctx)}`
+  }
+}
+
+function printCallStatement(
+  s: FunctionInvocationStatement,
+  ctx: PrinterContext,
+): string {
+  const call = printCall(s.callee, s.args ?? {}, ctx)
+
+  if (s.result === undefined) {
+    return call
+  } else {
+    const keyword = ctx.declarations.get(s)
+    return `${keyword ? `${keyword} ` : ''}${s.result} = ${call}`
+  }
+}
+
+// A blocking function is called with positional arguments if the named
+// arguments are the leading parameters of the function. Other calls are
+// output as call_step() so that they are transpiled to call steps.
+function printCall(
+  callee: string,
+  args: Record<string, Expression>,
+  ctx: PrinterContext,
+): string {
+  addImport(callee, ctx)
+
+  const argNames = Object.keys(args)
+  const params = blockingFunctions.get(callee)
+  if (
+    params &&
+    argNames.length <= params.length &&
+    params.slice(0, argNames.length).every((name) => name in args)
+  ) {
+    const positional = params
+      .slice(0, argNames.length)
+      .map((name) => printExpression(args[name], ctx))
+
+    return `${callee}(${positional.join(', ')})`
+  } else {
+    ctx.imports.add('call_step')
+    return `call_step(${callee}, ${printMap(args, ctx)})`
+  }
+}
+
+function printTry(s: TryStatement, ctx: PrinterContext): string[] {
+  const retry = s.retryPolicy ? printRetryPolicy(s.retryPolicy, ctx) : []
+  if (s.retryPolicy) {
+    ctx.imports.add('retry_policy')
+  }
+
+  // Without an except block, the error is raised again after the retries
+  const catchBlock = s.exceptBody
+    ? [
+        s.errorMap ? `} catch (${s.errorMap}) {` : '} catch {',
+        ...indent(printStatements(s.exceptBody, ctx)),
+      ]
+    : s.finalizerBody
+      ? []
+      : ['} catch (err) {', '  throw err']
+  const finallyBlock = s.finalizerBody
+    ? ['} finally {', ...indent(printStatements(s.finalizerBody, ctx))]
+    : []
+
+  return [
+    'try {',
+    ...indent([...retry, ...printStatements(s.tryBody, ctx)]),
+    ...catchBlock,
+    ...finallyBlock,
+    '}',
+  ]
+}
+
+// The retry_policy() call. A long custom policy is split on several lines.
+function printRetryPolicy(
+  policy: string | CustomRetryPolicy,
+  ctx: PrinterContext,
+): string[] {
+  if (typeof policy === 'string') {
+    addImport(policy, ctx)
+    return [`retry_policy(${policy})`]
+  }
+
+  if (policy.predicate) {
+    addImport(policy.predicate, ctx)
+  }
+
+  const backoff = R.reject(R.isNil, {
+    initial_delay: policy.backoff.initialDelay,
+    max_delay: policy.backoff.maxDelay,
+    multiplier: policy.backoff.multiplier,
+  })
+  const properties = [
+    ...(policy.predicate ? [`predicate: ${policy.predicate}`] : []),
+    `max_retries: ${printExpression(policy.maxRetries, ctx)}`,
+    `backoff: ${printMap(backoff, ctx)}`,
+  ]
+
+  const singleLine = `retry_policy({ ${properties.join(', ')} })`
+  return singleLine.length <= MAX_LINE_LENGTH
+    ? [singleLine]
+    : [
+        'retry_policy({',
+        ...indent(properties.map((property) => `${property},`)),
+        '})',
+      ]
+}
+
+function printParallel(s: ParallelStatement, ctx: PrinterContext): string[] {
+  ctx.imports.add('parallel')
+
+  const branches = s.branches.flatMap((branch) => {
+    const subworkflow = branchSubworkflowName(branch)
+    return subworkflow
+      ? [`${subworkflow},`]
+      : block('() =>', printStatements(branch.body, ctx), ',')
+  })
+
+  return parallelCall(['[', ...indent(branches), ']'], s)
+}
+
+function printParallelFor(
+  s: ParallelForStatement,
+  ctx: PrinterContext,
+): string[] {
+  ctx.imports.add('parallel')
+
+  return parallelCall(block('() =>', printStatement(s.forStep, ctx)), s)
+}
+
+// A branch that only calls a subworkflow without arguments is printed as the
+// subworkflow name
+function branchSubworkflowName(branch: ParallelBranch): string | undefined {
+  if (branch.body.length !== 1) {
+    return undefined
+  }
+
+  let [s] = branch.body
+  if (
+    s.tag === 'label' &&
+    s.statements.length === 1 &&
+    !isTaggedStepName(s.label)
+  ) {
+    s = s.statements[0]
+  }
+
+  return s.tag === 'function-invocation' &&
+    s.comments === undefined &&
+    s.result === undefined &&
+    Object.keys(s.args ?? {}).length === 0
+    ? s.callee
+    : undefined
+}
+
+function parallelCall(
+  firstArgument: string[],
+  s: ParallelStatement | ParallelForStatement,
+): string[] {
+  const options = [
+    ...(s.shared ? [`shared: [${s.shared.map(quoteString).join(', ')}]`] : []),
+    ...(s.concurrencyLimit !== undefined
+      ? [`concurrency_limit: ${s.concurrencyLimit}`]
+      : []),
+    ...(s.exceptionPolicy !== undefined
+      ? [`exception_policy: ${quoteString(s.exceptionPolicy)}`]
+      : []),
+  ]
+
+  if (options.length === 0 && firstArgument.length === 1) {
+    return [`parallel(${firstArgument[0]})`]
+  } else if (options.length === 0) {
+    return [
+      `parallel(${firstArgument[0]}`,
+      ...firstArgument.slice(1, -1),
+      `${firstArgument[firstArgument.length - 1]})`,
+    ]
+  } else {
+    return [
+      'parallel(',
+      ...indent([
+        ...firstArgument.slice(0, -1),
+        `${firstArgument[firstArgument.length - 1]},`,
+        `{ ${options.join(', ')} },`,
+      ]),
+      ')',
+    ]
+  }
+}
+
+function printExpression(ex: Expression, ctx: PrinterContext): string {
+  return printExpressionWithPrecedence(ex, ctx)[0]
+}
+
+// Returns the Typescript code of ex and the precedence of its outermost
+// operator
+function printExpressionWithPrecedence(
+  ex: Expression,
+  ctx: PrinterContext,
+): [string, number] {
+  switch (ex.tag) {
+    case 'string':
+      return [quoteString(ex.value), PRIMARY]
+
+    case 'number':
+      return [ex.value.toString(), ex.value < 0 ? UNARY : PRIMARY]
+
+    case 'boolean':
+      return [ex.value ? 'true' : 'false', PRIMARY]
+
+    case 'null':
+      return ['null', PRIMARY]
+
+    case 'list':
+      return [
+        `[${ex.value.map((x) => printExpression(x, ctx)).join(', ')}]`,
+        PRIMARY,
+      ]
+
+    case 'map':
+      return [printMap(ex.value, ctx), PRIMARY]
+
+    case 'variableReference':
+      return [ex.variableName, PRIMARY]
+
+    case 'binary': {
+      if (ex.binaryOperator === '//') {
+        // An approximation. The parser adds a TODO note to the step.
+        const [, precedence] = BINARY_OPERATORS['/']
+        return [
+          `Math.floor(${operand(ex.left, precedence, false, ctx)} / ${operand(ex.right, precedence, true, ctx)})`,
+          POSTFIX,
+        ]
+      }
+
+      const [operator, precedence] = BINARY_OPERATORS[ex.binaryOperator]
+      return [
+        `${operand(ex.left, precedence, false, ctx)} ${operator} ${operand(ex.right, precedence, true, ctx)}`,
+        precedence,
+      ]
+    }
+
+    case 'unary': {
+      const [value, precedence] = printExpressionWithPrecedence(ex.value, ctx)
+      const operator = UNARY_OPERATORS[ex.operator]
+      // Parenthesize -(-x) so that it is not read as a decrement
+      const needsParentheses =
+        precedence < UNARY || (operator !== '!' && value.startsWith(operator))
+
+      return [`${operator}${needsParentheses ? `(${value})` : value}`, UNARY]
+    }
+
+    case 'member': {
+      const [object, precedence] = printExpressionWithPrecedence(ex.object, ctx)
+      const objectCode = precedence < POSTFIX ? `(${object})` : object
+      addImport(rootName(ex.object), ctx)
+
+      if (ex.computed) {
+        return [`${objectCode}[${printExpression(ex.property, ctx)}]`, POSTFIX]
+      } else {
+        return [`${objectCode}.${printExpression(ex.property, ctx)}`, POSTFIX]
+      }
+    }
+
+    case 'functionInvocation':
+      return printFunctionInvocation(
+        ex.functionName,
+        ex.arguments.map((x) => x ?? nullEx),
+        ctx,
+      )
+
+    case 'update': {
+      const argument = printExpression(ex.argument, ctx)
+      return ex.prefix
+        ? [`${ex.operator}${argument}`, UNARY]
+        : [`${argument}${ex.operator}`, POSTFIX]
+    }
+  }
+}
+
+// A loop with an index is printed as a loop over list.entries()
+function printForHeader(s: ForStatement, ctx: PrinterContext): string {
+  if (s.indexVariableName === undefined) {
+    return `for (const ${s.loopVariableName} of ${printExpression(s.listExpression, ctx)})`
+  }
+
+  const [list, precedence] = printExpressionWithPrecedence(
+    s.listExpression,
+    ctx,
+  )
+  const listCode = precedence < POSTFIX ? `(${list})` : list
+
+  return `for (const [${s.indexVariableName}, ${s.loopVariableName}] of ${listCode}.entries())`
+}
+
+// default() is printed as the ?? operator and if() as the ternary operator
+function printFunctionInvocation(
+  functionName: string,
+  args: Expression[],
+  ctx: PrinterContext,
+): [string, number] {
+  if (functionName === 'default' && args.length === 2) {
+    return [
+      `${operand(args[0], NULLISH, false, ctx)} ?? ${operand(args[1], NULLISH, true, ctx)}`,
+      NULLISH,
+    ]
+  } else if (functionName === 'if' && args.length === 3) {
+    return [
+      `${operand(args[0], TERNARY, true, ctx)} ? ${printExpression(args[1], ctx)} : ${printExpression(args[2], ctx)}`,
+      TERNARY,
+    ]
+  } else {
+    addImport(functionName, ctx)
+    const argList = args.map((x) => printExpression(x, ctx)).join(', ')
+    return [`${functionName}(${argList})`, POSTFIX]
+  }
+}
+
+// Print an operand of an operator with the given precedence. The operators
+// are left-associative. Typescript requires parentheses when ?? is mixed
+// with && or ||.
+function operand(
+  ex: Expression,
+  precedence: number,
+  isRight: boolean,
+  ctx: PrinterContext,
+): string {
+  const [code, operandPrecedence] = printExpressionWithPrecedence(ex, ctx)
+  const mixesNullish =
+    precedence === NULLISH &&
+    (operandPrecedence === OR || operandPrecedence === AND)
+
+  if (
+    operandPrecedence < precedence ||
+    (isRight && operandPrecedence === precedence) ||
+    mixesNullish
+  ) {
+    return `(${code})`
+  } else {
+    return code
+  }
+}
+
+function printMap(
+  value: Record<string, Expression>,
+  ctx: PrinterContext,
+): string {
+  const entries = Object.entries(value)
+  if (entries.length === 0) {
+    return '{}'
+  }
+
+  const properties = entries.map(([key, val]) => {
+    const printedKey = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key)
+      ? key
+      : quoteString(key)
+    return `${printedKey}: ${printExpression(val, ctx)}`
+  })
+
+  return `{ ${properties.join(', ')} }`
+}
+
+function quoteString(value: string): string {
+  const escaped = JSON.stringify(value)
+    .slice(1, -1)
+    .replaceAll('\\"', '"')
+    .replaceAll("'", "\\'")
+
+  return `'${escaped}'`
+}
+
+// Import the root of a qualified name, such as "sys" in "sys.log", if it is
+// exported by workflowslib and not shadowed by a local name
+function addImport(qualifiedName: string | undefined, ctx: PrinterContext) {
+  const root = qualifiedName?.split(/[.[]/)[0]
+  if (
+    root !== undefined &&
+    WORKFLOWSLIB_NAMES.includes(root) &&
+    !ctx.localNames.has(root)
+  ) {
+    ctx.imports.add(root)
+  }
+}
+
+function rootName(ex: Expression): string | undefined {
+  if (ex.tag === 'variableReference') {
+    return ex.variableName
+  } else if (ex.tag === 'member') {
+    return rootName(ex.object)
+  } else {
+    return undefined
+  }
+}
+
+// Returns header { body }, or header {} if the body is empty
+function block(header: string, body: string[], suffix = ''): string[] {
+  if (body.length === 0) {
+    return [`${header} {}${suffix}`]
+  } else {
+    return [`${header} {`, ...indent(body), `}${suffix}`]
+  }
+}
+
+function indent(lines: string[]): string[] {
+  return lines.map((line) => (line === '' ? line : `  ${line}`))
+}
+
+interface VariableUse {
+  // The statement list where the variable is used. Lists are identified by
+  // the path of list indices from the subworkflow body.
+  block: number[]
+  // The assignment if the variable is assigned, undefined if it is read
+  site?: DeclarationSite
+}
+
+/**
+ * Decide where the variables of a subworkflow are declared.
+ *
+ * A variable is declared at its first assignment if all its uses are in the
+ * same statement list or in the lists nested inside it. It is declared as
+ * const if it is assigned only once. Other variables are declared by "let" at
+ * the start of the subworkflow.
+ *
+ * Parameters, loop variables and error variables are declared by the
+ * subworkflow, the loop or the catch clause.
+ */
+function findDeclarations(
+  statements: WorkflowStatement[],
+  params: VariableName[],
+): {
+  declarations: Map<DeclarationSite, 'const' | 'let'>
+  hoisted: VariableName[]
+  variables: Set<VariableName>
+} {
+  const uses = new Map<VariableName, VariableUse[]>()
+  const variables = new Set(params)
+  let blockCounter = 0
+
+  const record = (
+    name: VariableName,
+    block: number[],
+    declared: Set<VariableName>,
+    site?: DeclarationSite,
+  ) => {
+    variables.add(name)
+    if (!declared.has(name)) {
+      uses.set(name, [...(uses.get(name) ?? []), { block, site }])
+    }
+  }
+
+  const visitExpression = (
+    ex: Expression | undefined,
+    block: number[],
+    declared: Set<VariableName>,
+  ): void => {
+    variableReferences(ex).forEach((name) => record(name, block, declared))
+  }
+
+  const visitList = (
+    list: WorkflowStatement[],
+    block: number[],
+    declared: Set<VariableName>,
+  ): void => {
+    list.forEach((s) => visitStatement(s, block, declared))
+  }
+
+  const visitNested = (
+    list: WorkflowStatement[],
+    block: number[],
+    declared: Set<VariableName>,
+  ): void => {
+    visitList(list, [...block, blockCounter++], declared)
+  }
+
+  const visitStatement = (
+    s: WorkflowStatement,
+    block: number[],
+    declared: Set<VariableName>,
+  ): void => {
+    switch (s.tag) {
+      case 'assign':
+        s.assignments.forEach((a) => {
+          visitExpression(a.value, block, declared)
+          if (a.name.tag === 'variableReference') {
+            record(a.name.variableName, block, declared, a)
+          } else {
+            visitExpression(a.name, block, declared)
+          }
+        })
+        break
+
+      case 'break':
+      case 'continue':
+        break
+
+      case 'do-while':
+        visitNested(s.body, block, declared)
+        visitExpression(s.condition, block, declared)
+        break
+
+      case 'for':
+      case 'for-range': {
+        if (s.tag === 'for') {
+          visitExpression(s.listExpression, block, declared)
+        }
+        variables.add(s.loopVariableName)
+        const loopDeclared = new Set([...declared, s.loopVariableName])
+        if (s.tag === 'for' && s.indexVariableName !== undefined) {
+          variables.add(s.indexVariableName)
+          loopDeclared.add(s.indexVariableName)
+        }
+        visitNested(s.body, block, loopDeclared)
+        break
+      }
+
+      case 'function-invocation':
+        Object.values(s.args ?? {}).forEach((arg) =>
+          visitExpression(arg, block, declared),
+        )
+        if (s.result !== undefined) {
+          record(s.result, block, declared, s)
+        }
+        break
+
+      case 'if':
+      case 'switch':
+        s.branches.forEach((branch) => {
+          visitExpression(branch.condition, block, declared)
+          if ('body' in branch) {
+            visitNested(branch.body, block, declared)
+          }
+        })
+        break
+
+      case 'label':
+        visitList(s.statements, block, declared)
+        break
+
+      case 'parallel':
+        s.branches.forEach((branch) =>
+          visitNested(branch.body, block, declared),
+        )
+        break
+
+      case 'parallel-for':
+        visitStatement(s.forStep, block, declared)
+        break
+
+      case 'raise':
+      case 'return':
+        visitExpression(s.value, block, declared)
+        break
+
+      case 'try': {
+        visitNested(s.tryBody, block, declared)
+        if (s.exceptBody) {
+          const errorDeclared = new Set(declared)
+          if (s.errorMap !== undefined) {
+            variables.add(s.errorMap)
+            errorDeclared.add(s.errorMap)
+          }
+          visitNested(s.exceptBody, block, errorDeclared)
+        }
+        if (s.finalizerBody) {
+          visitNested(s.finalizerBody, block, declared)
+        }
+        break
+      }
+
+      case 'while':
+        visitExpression(s.condition, block, declared)
+        visitNested(s.body, block, declared)
+        break
+    }
+  }
+
+  visitList(statements, [], new Set(params))
+
+  const declarations = new Map<DeclarationSite, 'const' | 'let'>()
+  const hoisted: VariableName[] = []
+  uses.forEach((variableUses, name) => {
+    const [first] = variableUses
+    const assignments = variableUses.filter((u) => u.site !== undefined)
+    if (assignments.length === 0) {
+      // A global variable or a variable that is never assigned
+      return
+    }
+
+    if (
+      first.site !== undefined &&
+      variableUses.every((u) => R.startsWith(first.block, u.block))
+    ) {
+      declarations.set(first.site, assignments.length === 1 ? 'const' : 'let')
+    } else {
+      hoisted.push(name)
+    }
+  })
+
+  return { declarations, hoisted, variables }
+}
+
+// Returns the names of the variables read in ex
+function variableReferences(ex: Expression | undefined): VariableName[] {
+  if (ex === undefined) {
+    return []
+  }
+
+  switch (ex.tag) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'null':
+      return []
+
+    case 'variableReference':
+      return [ex.variableName]
+
+    case 'list':
+      return ex.value.flatMap(variableReferences)
+
+    case 'map':
+      return Object.values(ex.value).flatMap(variableReferences)
+
+    case 'binary':
+      return [...variableReferences(ex.left), ...variableReferences(ex.right)]
+
+    case 'unary':
+      return variableReferences(ex.value)
+
+    case 'member':
+      return [
+        ...variableReferences(ex.object),
+        ...(ex.computed ? variableReferences(ex.property) : []),
+      ]
+
+    case 'functionInvocation':
+      return ex.arguments.flatMap(variableReferences)
+
+    case 'update':
+      return variableReferences(ex.argument)
+  }
+}
@@ -1,10 +1,19 @@
+import * as path from 'node:path'
+import * as R from 'ramda'
+import ts from 'typescript'
+import { TSError } from '@typescript-eslint/typescript-estree'
 import {
+  MultipleWorkflowSyntaxErrors,
   SourceCodeLocation,
   WorkflowSyntaxError,
   WorkflowSyntaxErrorWithText,
+  WorkflowWarning,
 } from './errors.js'
+import { describeErrorCode, ErrorCode } from './errorcodes.js'
 
-export function prettifySyntaxError(exception: WorkflowSyntaxError): string {
+export function prettifySyntaxError(
+  exception: WorkflowSyntaxError | TSError,
+): string {
   const filename =
     exception instanceof WorkflowSyntaxErrorWithText
       ? exception.filename
@@ -13,10 +22,45 @@ export function prettifySyntaxError(exception: WorkflowSyntaxError): string {
     exception instanceof WorkflowSyntaxErrorWithText
       ? exception.errorLine
       : undefined
+  const code: ErrorCode =
+    exception instanceof WorkflowSyntaxError ? exception.code : 'TS2WF0001'
 
   return (
     `${errorLocator(filename, exception.location, errorLineText)}\n` +
-    `${exception.message}`
+    `${code}: ${exception.message}`
+  )
+}
+
+export function prettifyWarning(warning: WorkflowWarning): string {
+  return (
+    `${errorLocator(warning.filename, warning.location, warning.errorLine)}\n` +
+    `Warning ${warning.code}: ${warning.message}`
+  )
+}
+
+/**
+ * Format a Typescript type checker diagnostic in the same style as the
+ * ts2workflows errors.
+ */
+export function prettifyTypeError(diagnostic: ts.Diagnostic): string {
+  const location = typeErrorLocation(diagnostic)
+  const errorLine =
+    diagnostic.file && location
+      ? diagnostic.file.text.split(/\r?\n/)[location.start.line - 1]
+      : undefined
+  const locator = diagnostic.file
+    ? errorLocator(
+        displayFileName(diagnostic.file.fileName),
+        location ?? unknownLocation,
+        errorLine,
+      )
+    : ''
+  const severity =
+    diagnostic.category === ts.DiagnosticCategory.Warning ? 'Warning ' : ''
+
+  return (
+    (locator ? `${locator}\n` : '') +
+    `${severity}TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`
   )
 }
 
@@ -74,3 +118,214 @@ function highlightedSourceCodeLine(
 
   return `${sourceLine}\n${markerLine}`
 }
+
+export type DiagnosticsFormat = 'text' | 'json' | 'sarif'
+
+export type DiagnosticSeverity = 'error' | 'warning'
+
+/**
+ * A machine-readable record of an error (or a warning) in an input file.
+ *
+ * The range uses 1-based lines and 0-based columns like SourceCodeLocation.
+ * It is undefined if the error doesn't point to a location in the file (for
+ * example, an IO error).
+ */
+export interface Diagnostic {
+  file: string
+  range?: SourceCodeLocation
+  message: string
+  code: string
+  severity: DiagnosticSeverity
+}
+
+/**
+ * Returns the diagnostics of a syntax error. The errors are located in
+ * filename unless the error itself names the file (for example, an error in
+ * an imported module).
+ */
+export function syntaxErrorToDiagnostics(
+  err: WorkflowSyntaxError,
+  filename: string,
+): Diagnostic[] {
+  if (err instanceof MultipleWorkflowSyntaxErrors) {
+    return err.errors.flatMap((e) => syntaxErrorToDiagnostics(e, filename))
+  }
+
+  return [
+    {
+      file:
+        err instanceof WorkflowSyntaxErrorWithText ? err.filename : filename,
+      range: validLocation(err.location),
+      message: err.message,
+      code: err.code,
+      severity: 'error',
+    },
+  ]
+}
+
+export function warningToDiagnostic(
+  warning: WorkflowWarning,
+  severity: DiagnosticSeverity = 'warning',
+): Diagnostic {
+  return {
+    file: warning.filename,
+    range: validLocation(warning.location),
+    message: warning.message,
+    code: warning.code,
+    severity,
+  }
+}
+
+export function typescriptErrorToDiagnostics(
+  err: TSError,
+  filename: string,
+): Diagnostic[] {
+  return [
+    {
+      file: filename,
+      range: validLocation({
+        start: {
+          line: err.location.start.line,
+          column: err.location.start.column,
+        },
+        end: { line: err.location.end.line, column: err.location.end.column },
+      }),
+      message: err.message,
+      code: 'TS2WF0001',
+      severity: 'error',
+    },
+  ]
+}
+
+export function typeErrorToDiagnostic(diagnostic: ts.Diagnostic): Diagnostic {
+  return {
+    file: diagnostic.file ? displayFileName(diagnostic.file.fileName) : '',
+    range: typeErrorLocation(diagnostic),
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    code: `TS${diagnostic.code}`,
+    severity:
+      diagnostic.category === ts.DiagnosticCategory.Warning
+        ? 'warning'
+        : 'error',
+  }
+}
+
+function typeErrorLocation(
+  diagnostic: ts.Diagnostic,
+): SourceCodeLocation | undefined {
+  if (diagnostic.file === undefined || diagnostic.start === undefined) {
+    return undefined
+  }
+
+  const start = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+  const end = diagnostic.file.getLineAndCharacterOfPosition(
+    diagnostic.start + (diagnostic.length ?? 0),
+  )
+
+  // Typescript lines are 0-based
+  return {
+    start: { line: start.line + 1, column: start.character },
+    end: { line: end.line + 1, column: end.character },
+  }
+}
+
+// Typescript uses absolute paths. Show them relative to the working directory
+// like the input file names.
+function displayFileName(fileName: string): string {
+  return path.relative(process.cwd(), fileName)
+}
+
+const unknownLocation: SourceCodeLocation = {
+  start: { line: NaN, column: NaN },
+  end: { line: NaN, column: NaN },
+}
+
+function validLocation(
+  location: SourceCodeLocation,
+): SourceCodeLocation | undefined {
+  const values = [
+    location.start.line,
+    location.start.column,
+    location.end.line,
+    location.end.column,
+  ]
+
+  return values.every((x) => Number.isFinite(x) && x >= 0)
+    ? location
+    : undefined
+}
+
+export function formatDiagnosticsJSON(diagnostics: Diagnostic[]): string {
+  return JSON.stringify({ diagnostics }, undefined, 2)
+}
+
+/**
+ * Format diagnostics as a SARIF 2.1.0 log, the format consumed by code
+ * scanning tools.
+ */
+export function formatDiagnosticsSARIF(
+  diagnostics: Diagnostic[],
+  toolVersion: string,
+): string {
+  const ruleIds = R.uniq(diagnostics.map((d) => d.code)).sort()
+
+  const sarif = {
+    version: '2.1.0',
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'ts2workflows',
+            version: toolVersion,
+            informationUri: 'https://github.com/aajanki/ts2workflows',
+            rules: ruleIds.map(sarifRule),
+          },
+        },
+        results: diagnostics.map((d) => ({
+          ruleId: d.code,
+          level: d.severity,
+          message: { text: d.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: toSarifUri(d.file) },
+                ...(d.range ? { region: sarifRegion(d.range) } : {}),
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  }
+
+  return JSON.stringify(sarif, undefined, 2)
+}
+
+function sarifRule(code: string) {
+  const description = describeErrorCode(code)
+  if (description === undefined) {
+    return { id: code }
+  }
+
+  return {
+    id: code,
+    shortDescription: { text: description.summary },
+    fullDescription: { text: description.explanation },
+    help: { text: description.suggestion },
+  }
+}
+
+function sarifRegion(range: SourceCodeLocation) {
+  // SARIF columns are 1-based
+  return {
+    startLine: range.start.line,
+    startColumn: range.start.column + 1,
+    endLine: range.end.line,
+    endColumn: range.end.column + 1,
+  }
+}
+
+function toSarifUri(filename: string): string {
+  return filename.split(path.sep).join('/')
+}
@@ -0,0 +1,294 @@
+// The catalogue of ts2workflows error codes.
+//
+// The codes are stable across ts2workflows versions: a code is never reused for
+// a different kind of error. TS2WF0xxx are errors in reading or parsing the
+// input files, TS2WF1xxx are Typescript constructs that can't be transpiled
+// into Workflows and TS2WF2xxx are warnings about constructs that behave
+// differently on Workflows than on Typescript.
+
+export interface ErrorCodeDescription {
+  // A short description of the error
+  summary: string
+  // Why the error happens
+  explanation: string
+  // How to fix the error
+  suggestion: string
+}
+
+export const errorCatalogue = {
+  TS2WF0001: {
+    summary: 'Typescript parse error',
+    explanation: 'The input is not valid Typescript.',
+    suggestion: 'Fix the syntax error reported by the Typescript parser.',
+  },
+  TS2WF0002: {
+    summary: 'IO error',
+    explanation: "An input file couldn't be read.",
+    suggestion: 'Check that the file exists and is readable.',
+  },
+  TS2WF0003: {
+    summary: 'Invalid workflow definition',
+    explanation:
+      'The input is not a valid GCP Workflows definition in YAML or JSON.',
+    suggestion:
+      'Check the workflow syntax against the GCP Workflows syntax reference.',
+  },
+  TS2WF0004: {
+    summary: 'Invalid Workflows expression',
+    explanation:
+      'An expression enclosed in ${} is not valid in the Workflows expression language.',
+    suggestion: 'Fix the syntax of the expression.',
+  },
+  TS2WF0005: {
+    summary: 'YAML subworkflow not found',
+    explanation:
+      'A function declaration has a @yaml tag, but the YAML file does not define a subworkflow with the same name as the function.',
+    suggestion:
+      'Check the path in the @yaml tag and that the function name matches the subworkflow name.',
+  },
+  TS2WF1000: {
+    summary: 'Unsupported syntax',
+    explanation:
+      'The input contains a construct that has no counterpart in GCP Workflows.',
+    suggestion:
+      'Rewrite the code using the features listed in the language reference.',
+  },
+  TS2WF1001: {
+    summary: 'Only named imports are allowed',
+    explanation:
+      'Default and namespace imports are not supported because the imported subworkflows must be referenced by name.',
+    suggestion: 'Use a named import: import { name } from "./module".',
+  },
+  TS2WF1002: {
+    summary: 'Unsupported top-level statement',
+    explanation:
+      'Only function definitions, imports and type declarations are allowed at the top level of a source file. Workflows has no global variables or top-level code.',
+    suggestion:
+      'Move the statement inside a function or pass the value as a parameter.',
+  },
+  TS2WF1003: {
+    summary: 'Optional call expressions are not supported',
+    explanation:
+      'Workflows has no way to call a function only if it is defined, so f?.() can not be transpiled.',
+    suggestion: 'Call the function without the optional chaining operator.',
+  },
+  TS2WF1004: {
+    summary: 'Empty subworkflow body',
+    explanation:
+      'GCP Workflows requires that a subworkflow has at least one step.',
+    suggestion: 'Add a statement, for example a return statement, in the body.',
+  },
+  TS2WF1005: {
+    summary: 'Invalid function parameter',
+    explanation:
+      'Subworkflow parameters must be plain identifiers, optionally with a default value. Destructuring and rest parameters are not supported.',
+    suggestion:
+      'Declare the parameter as a plain identifier and destructure it in the function body.',
+  },
+  TS2WF1006: {
+    summary: 'Non-literal default value',
+    explanation:
+      'A default value of a subworkflow parameter must be a literal number, string, boolean, null or undefined.',
+    suggestion:
+      'Use a literal default value or compute the value in the function body.',
+  },
+  TS2WF1007: {
+    summary: 'Unsupported literal',
+    explanation: 'Workflows has no regular expression or BigInt values.',
+    suggestion:
+      'Use the text.match_regex() family of functions for regular expressions and number values instead of BigInts.',
+  },
+  TS2WF1008: {
+    summary: 'Unsupported expression',
+    explanation: 'The expression type has no counterpart in Workflows.',
+    suggestion:
+      'Rewrite the expression using the features listed in the language reference.',
+  },
+  TS2WF1009: {
+    summary: 'Invalid map key',
+    explanation:
+      'Keys in an object literal must be identifiers or string literals. Computed keys are not supported.',
+    suggestion:
+      'Use a constant key or assign the value with a member expression after creating the object.',
+  },
+  TS2WF1010: {
+    summary: 'Unsupported operator',
+    explanation: 'The operator has no counterpart in Workflows expressions.',
+    suggestion:
+      'Rewrite the expression using the operators listed in the language reference.',
+  },
+  TS2WF1011: {
+    summary: 'Unsupported optional chaining',
+    explanation:
+      'Optional chaining is supported only on property and element access.',
+    suggestion: 'Rewrite the expression without optional chaining.',
+  },
+  TS2WF1012: {
+    summary: 'Invalid function call',
+    explanation:
+      'Only subworkflows and standard library functions can be called, and they must be referenced by a qualified name. Some intrinsic functions can only be called as statements. entries() of a list can only be called as the iterable of a for...of loop.',
+    suggestion:
+      'Call a named function. Call intrinsics such as parallel() or retry_policy() as separate statements.',
+  },
+  TS2WF1013: {
+    summary: 'The spread syntax is not supported',
+    explanation: 'Workflows has no spread operator.',
+    suggestion: 'Pass the arguments or list elements explicitly.',
+  },
+  TS2WF1014: {
+    summary: 'Private identifiers are not supported',
+    explanation: 'Workflows has no classes and therefore no private members.',
+    suggestion: 'Use an ordinary property name.',
+  },
+  TS2WF1015: {
+    summary: 'Invalid assignment target',
+    explanation:
+      'Only variables and object properties or list elements can be assigned to.',
+    suggestion: 'Assign to an identifier or to a member expression.',
+  },
+  TS2WF1016: {
+    summary: 'Unsupported loop',
+    explanation: 'Workflows supports only iteration over a list or a range.',
+    suggestion: 'Use a for...of loop, a counting for loop or a while loop.',
+  },
+  TS2WF1017: {
+    summary: 'Nested function definition',
+    explanation:
+      'Subworkflows must be defined at the top level of a source file. Workflows has no closures.',
+    suggestion:
+      'Move the function to the top level and pass the captured variables as parameters.',
+  },
+  TS2WF1018: {
+    summary: 'Unsupported statement',
+    explanation: 'The statement type has no counterpart in Workflows.',
+    suggestion:
+      'Rewrite the code using the statements listed in the language reference.',
+  },
+  TS2WF1019: {
+    summary: 'Unsupported variable declaration',
+    explanation:
+      'Only const and let declarations are supported. var has function scope that Workflows can not express.',
+    suggestion: 'Declare the variable with const or let.',
+  },
+  TS2WF1020: {
+    summary: 'Blocking call inside an expression',
+    explanation:
+      'Some functions are transpiled into steps of their own and therefore can not be part of a larger expression.',
+    suggestion:
+      'Assign the result of the call to a variable and use the variable in the expression.',
+  },
+  TS2WF1021: {
+    summary: 'Invalid destructuring pattern',
+    explanation:
+      'The destructuring pattern uses a feature that is not supported, such as a default value on a nested pattern or a rest element that is not last.',
+    suggestion:
+      'Simplify the pattern or destructure in several steps with separate statements.',
+  },
+  TS2WF1022: {
+    summary: 'Invalid call_step() arguments',
+    explanation:
+      'call_step() takes a qualified function name as the first argument and an optional object literal of arguments as the second.',
+    suggestion: 'Call call_step(functionName, { arg1: value1 }).',
+  },
+  TS2WF1023: {
+    summary: 'Invalid parallel() arguments',
+    explanation:
+      'parallel() takes an array of arrow functions or a single arrow function wrapping a for...of loop, and an optional options object.',
+    suggestion:
+      'See the description of parallel branches and parallel iteration in the language reference.',
+  },
+  TS2WF1024: {
+    summary: 'Invalid for...of loop',
+    explanation:
+      'The iterated value must be a list. The loop variable is an identifier or a destructuring pattern. A loop over list.entries() must declare the index and the item as [i, x], and a destructuring loop over Object.entries(m) the key and the value as [k, v]. The index i and the key k must be identifiers.',
+    suggestion:
+      'Iterate over a list, or over entries() with a const [i, x] or const [k, v] pattern.',
+  },
+  TS2WF1025: {
+    summary: 'Invalid retry policy',
+    explanation:
+      'retry_policy() takes either a retry policy function name or an object with the required "backoff" parameter.',
+    suggestion:
+      'See the description of retry policies in the language reference.',
+  },
+  TS2WF1026: {
+    summary: 'Invalid catch parameter',
+    explanation:
+      'The error variable in a catch clause must be a plain identifier.',
+    suggestion: 'Use an identifier and destructure it in the catch block.',
+  },
+  TS2WF1027: {
+    summary: 'Invalid @step tag',
+    explanation:
+      'A @step tag must be followed by a step name consisting of letters, digits and underscores. A statement can have only one @step tag, and a labelled statement can not have a @step tag.',
+    suggestion:
+      'Write a single tag such as "// @step fetch_customer" above the statement.',
+  },
+  TS2WF1028: {
+    summary: 'Duplicate step name',
+    explanation:
+      'Step names given by labels and @step tags must be unique within a subworkflow.',
+    suggestion: 'Rename one of the steps.',
+  },
+  TS2WF1029: {
+    summary: 'Unsupported evaluation order',
+    explanation:
+      'Update expressions (x++) and Object.values() and Object.entries() calls inside an expression are executed as separate steps before the statement that contains them. Therefore, they can not be inside an operand that is evaluated only conditionally (the right-hand side of &&, || or ??, a branch of a conditional expression or the condition of an else if branch), and an updated variable can not be referenced elsewhere in the same expression.',
+    suggestion:
+      'Move the update or the call to a separate statement, or use an if statement instead of the conditional operator. In an else if condition, move the update or the call into a nested if statement in the else branch.',
+  },
+  TS2WF1030: {
+    summary: 'Function call in optional chaining',
+    explanation:
+      'Optional chaining is converted to a map.get() call, which can only access properties and elements. A function call in the middle of an optional chain, such as a?.f().b, can not be converted.',
+    suggestion:
+      'Assign the result of the function call to a variable and apply optional chaining to the variable.',
+  },
+  TS2WF2001: {
+    summary: 'Both branches of a conditional expression are evaluated',
+    explanation:
+      'Workflows evaluates both branches of a conditional (ternary) expression. A function call in the branch that is not selected is executed anyway and can fail or cause side effects.',
+    suggestion:
+      'Use an if statement instead of the conditional expression if a branch calls a function.',
+  },
+  TS2WF2002: {
+    summary: 'The right-hand side of ?? is always evaluated',
+    explanation:
+      'Workflows evaluates the right-hand side of the nullish coalescing operator even if the left-hand side is not null.',
+    suggestion:
+      'Use an if statement instead of ?? if the right-hand side calls a function.',
+  },
+  TS2WF2003: {
+    summary: 'The in operator on a list',
+    explanation:
+      'On Workflows, the in operator checks if a value is included in a list. On Typescript, it checks if the list object has a property.',
+    suggestion:
+      'Use Array.includes(list, value) to check if a list contains a value.',
+  },
+  TS2WF2004: {
+    summary: 'Non-boolean condition',
+    explanation:
+      'Workflows does not convert values to booleans implicitly. Using a non-boolean value as a condition or as an operand of a logical operator throws a TypeError at runtime.',
+    suggestion:
+      'Compare the value explicitly, for example x != null or len(x) > 0.',
+  },
+  TS2WF2005: {
+    summary: 'Uninitialized variable is set to null',
+    explanation:
+      'A variable declared without an initializer is set to null on Workflows. On Typescript, its value would be undefined.',
+    suggestion: 'Initialize the variable explicitly.',
+  },
+} satisfies Record<string, ErrorCodeDescription>
+
+export type ErrorCode = keyof typeof errorCatalogue
+
+/**
+ * Return the description of an error code or undefined if the code is unknown.
+ */
+export function describeErrorCode(
+  code: string,
+): ErrorCodeDescription | undefined {
+  return Object.hasOwn(errorCatalogue, code)
+    ? errorCatalogue[code as ErrorCode]
+    : undefined
+}
@@ -1,14 +1,18 @@
+import { ErrorCode } from './errorcodes.js'
+
 export interface SourceCodeLocation {
   start: { line: number; column: number }
   end: { line: number; column: number }
 }
 
 // WorkflowSyntaxError is thrown when the input contains a syntax error.
-// The error is in user's input.
+// The error is in user's input. The code identifies the kind of the error. See
+// errorcodes.ts.
 export class WorkflowSyntaxError extends Error {
   constructor(
     message: string,
     public readonly location: SourceCodeLocation,
+    public readonly code: ErrorCode = 'TS2WF1000',
   ) {
     super(message)
   }
@@ -22,8 +26,72 @@ export class WorkflowSyntaxErrorWithText extends WorkflowSyntaxError {
     public readonly location: SourceCodeLocation,
     public readonly filename: string,
     public readonly errorLine: string,
+    code: ErrorCode = 'TS2WF1000',
   ) {
-    super(message, location)
+    super(message, location, code)
+  }
+}
+
+// WorkflowWarning flags a construct that can be transpiled but behaves
+// differently on Workflows than on Typescript.
+export interface WorkflowWarning {
+  message: string
+  location: SourceCodeLocation
+  code: ErrorCode
+  filename: string
+  errorLine: string
+}
+
+// MultipleWorkflowSyntaxErrors is thrown when the input contains more than one
+// syntax error. The message and the location are those of the first error.
+export class MultipleWorkflowSyntaxErrors extends WorkflowSyntaxError {
+  constructor(public readonly errors: WorkflowSyntaxError[]) {
+    super(errors[0].message, errors[0].location, errors[0].code)
+  }
+}
+
+/**
+ * Call parse() and return its result. If parse() throws a WorkflowSyntaxError,
+ * the error is appended to syntaxErrors and fallback is returned instead.
+ *
+ * This allows the parsing to continue after an error so that all errors in
+ * the input can be reported at once. If syntaxErrors is undefined, the error
+ * is re-thrown.
+ */
+export function recoverSyntaxError<T>(
+  syntaxErrors: WorkflowSyntaxError[] | undefined,
+  fallback: T,
+  parse: () => T,
+): T {
+  try {
+    return parse()
+  } catch (err) {
+    if (syntaxErrors && err instanceof WorkflowSyntaxError) {
+      syntaxErrors.push(err)
+      return fallback
+    } else {
+      throw err
+    }
+  }
+}
+
+/**
+ * Throw the collected syntax errors, if there are any.
+ *
+ * Throws a single error as is and several errors (sorted by location) as a
+ * MultipleWorkflowSyntaxErrors.
+ */
+export function throwSyntaxErrors(syntaxErrors: WorkflowSyntaxError[]): void {
+  if (syntaxErrors.length === 1) {
+    throw syntaxErrors[0]
+  } else if (syntaxErrors.length > 1) {
+    throw new MultipleWorkflowSyntaxErrors(
+      syntaxErrors.toSorted(
+        (a, b) =>
+          a.location.start.line - b.location.start.line ||
+          a.location.start.column - b.location.start.column,
+      ),
+    )
   }
 }
 
@@ -31,7 +99,13 @@ export function syntaxErrorWithText(
   error: WorkflowSyntaxError,
   filename: string,
   sourceCode: string,
-): WorkflowSyntaxErrorWithText {
+): WorkflowSyntaxErrorWithText | MultipleWorkflowSyntaxErrors {
+  if (error instanceof MultipleWorkflowSyntaxErrors) {
+    return new MultipleWorkflowSyntaxErrors(
+      error.errors.map((e) => syntaxErrorWithText(e, filename, sourceCode)),
+    )
+  }
+
   const lineNumber = Math.max(error.location.start.line, 0)
   const lines = sourceCode.split('\n')
   const errorLine = lines[lineNumber - 1]
@@ -41,6 +115,7 @@ export function syntaxErrorWithText(
     error.location,
     filename,
     errorLine,
+    error.code,
   )
 }
 
@@ -52,6 +127,17 @@ export class InternalTranspilingError extends Error {
   }
 }
 
+// ConfigError is thrown when a ts2workflows config file can't be read or
+// contains invalid settings.
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly configPath: string,
+  ) {
+    super(message)
+  }
+}
+
 // An IO error with an error code string, similar to Node's SystemError
 export class IOError extends Error {
   constructor(
@@ -1,7 +1,31 @@
-export { transpile, transpileText } from './transpiler/index.js'
+export {
+  transpile,
+  transpileText,
+  OutputFormat,
+  TranspileOptions,
+} from './transpiler/index.js'
+export {
+  SourceMap,
+  StepSourceLocation,
+  lookupStep,
+} from './transpiler/sourcemap.js'
+export { StepNaming } from './transpiler/stepnames.js'
+export { decompile } from './decompiler/index.js'
+export { parseExpression } from './ast/expressionparser.js'
+export { Expression, expressionToString } from './ast/expressions.js'
+export { Config, EntryPoint, WarningLevel } from './config.js'
 export {
   WorkflowSyntaxError,
   WorkflowSyntaxErrorWithText,
+  MultipleWorkflowSyntaxErrors,
+  ConfigError,
+  WorkflowWarning,
   InternalTranspilingError,
   SourceCodeLocation,
 } from './errors.js'
+export {
+  errorCatalogue,
+  describeErrorCode,
+  ErrorCode,
+  ErrorCodeDescription,
+} from './errorcodes.js'
@@ -0,0 +1,344 @@
+import * as crypto from 'node:crypto'
+import fs from 'node:fs'
+import * as path from 'node:path'
+import ts from 'typescript'
+import { Subworkflow, WorkflowApp } from '../ast/workflows.js'
+import { WorkflowWarning } from '../errors.js'
+import { OutputFormat } from './index.js'
+import { StepNaming } from './stepnames.js'
+import { SourceMap } from './sourcemap.js'
+import { linkedYAMLFiles } from './yamlsubworkflows.js'
+
+export const DEFAULT_CACHE_DIR = '.ts2workflows-cache'
+
+/**
+ * An on-disk cache of transpilation results that persists between runs.
+ *
+ * The cache stores the parsed WorkflowApp of each module and the transpiled
+ * output of each input file. Entries are keyed by the ts2workflows version and
+ * the contents of the TSConfig and the files it extends, and they are valid only as long as the source files
+ * they were built from have the same content hash.
+ */
+export interface BuildCache {
+  readonly directory: string
+  // Hash of the ts2workflows version and the contents of the TSConfig and the
+  // files it extends
+  readonly configHash: string
+}
+
+export interface CachedModule {
+  workflow: WorkflowApp
+  warnings: WorkflowWarning[]
+}
+
+// The options that affect the transpiled output of an input file
+export interface OutputOptions {
+  linkSubworkflows: boolean
+  format: OutputFormat
+  preserveComments: boolean
+  debugComments: boolean
+  stepNames: StepNaming
+}
+
+export interface CachedOutput {
+  output: string
+  warnings: WorkflowWarning[]
+  sourceMap: SourceMap
+}
+
+interface ModuleRecord {
+  configHash: string
+  sourceHash: string
+  // Content hashes of the source files that the module (recursively)
+  // imports. The warnings depend on the types declared in them.
+  dependencies: Record<string, string>
+  subworkflows: Subworkflow[]
+  warnings: WorkflowWarning[]
+}
+
+interface OutputRecord {
+  configHash: string
+  // Content hashes of the source files that the output was built from
+  dependencies: Record<string, string>
+  output: string
+  warnings: WorkflowWarning[]
+  sourceMap: SourceMap
+}
+
+// JSON can't represent undefined in arrays (for example, an omitted argument
+// in a function invocation). It is stored as this placeholder.
+const UNDEFINED_PLACEHOLDER = '__ts2workflows_undefined__'
+
+export function openBuildCache(
+  directory: string,
+  tsconfigPath: string,
+  version: string,
+): BuildCache {
+  const configFiles = tsconfigChain(tsconfigPath).map(
+    (fileName) => `${fileName}\n${fs.readFileSync(fileName, 'utf-8')}`,
+  )
+
+  return {
+    directory,
+    configHash: hash([version, ...configFiles].join('\n')),
+  }
+}
+
+// The absolute paths of the TSConfig and the files it extends, recursively
+function tsconfigChain(tsconfigPath: string): string[] {
+  const configPath = path.resolve(tsconfigPath)
+  const sourceFile = ts.readJsonConfigFile(configPath, (fileName) =>
+    ts.sys.readFile(fileName),
+  )
+  // Parsing resolves the extends chain into sourceFile.extendedSourceFiles
+  ts.parseJsonSourceFileConfigFileContent(
+    sourceFile,
+    ts.sys,
+    path.dirname(configPath),
+    undefined,
+    configPath,
+  )
+
+  return [configPath, ...(sourceFile.extendedSourceFiles ?? [])]
+}
+
+/**
+ * Delete the cache directory and everything in it.
+ */
+export function cleanBuildCache(directory: string): void {
+  fs.rmSync(directory, { recursive: true, force: true })
+}
+
+export function readCachedModule(
+  cache: BuildCache,
+  fileName: string,
+  sourceText: string,
+): CachedModule | undefined {
+  const record = readRecord<ModuleRecord>(cache, 'modules', fileName)
+
+  if (
+    record?.configHash !== cache.configHash ||
+    record.sourceHash !== hash(sourceText) ||
+    !dependenciesUnchanged(record.dependencies)
+  ) {
+    return undefined
+  }
+
+  return {
+    workflow: new WorkflowApp(
+      record.subworkflows.map(
+        (wf) =>
+          new Subworkflow(
+            wf.name,
+            wf.steps,
+            wf.params,
+            wf.comments,
+            wf.sourceFile,
+          ),
+      ),
+    ),
+    warnings: record.warnings,
+  }
+}
+
+export function writeCachedModule(
+  cache: BuildCache,
+  program: ts.Program,
+  fileName: string,
+  sourceText: string,
+  module: CachedModule,
+): void {
+  const dependencies = Object.fromEntries(
+    importedSourceFiles(program, fileName)
+      .filter(([name]) => name !== path.resolve(fileName))
+      .map(([name, sourceFile]) => [name, hash(sourceFile.text)]),
+  )
+  const record: ModuleRecord = {
+    configHash: cache.configHash,
+    sourceHash: hash(sourceText),
+    dependencies,
+    subworkflows: module.workflow.subworkflows,
+    warnings: module.warnings,
+  }
+
+  writeRecord(cache, 'modules', fileName, record)
+}
+
+/**
+ * Returns the cached output of an input file if none of the source files it
+ * was built from has changed.
+ */
+export function readCachedOutput(
+  cache: BuildCache,
+  inputFile: string,
+  options: OutputOptions,
+): CachedOutput | undefined {
+  const record = readRecord<OutputRecord>(
+    cache,
+    'outputs',
+    outputKey(inputFile, options),
+  )
+
+  if (record?.configHash !== cache.configHash) {
+    return undefined
+  }
+
+  return dependenciesUnchanged(record.dependencies)
+    ? {
+        output: record.output,
+        warnings: record.warnings,
+        sourceMap: record.sourceMap,
+      }
+    : undefined
+}
+
+export function writeCachedOutput(
+  cache: BuildCache,
+  program: ts.Program,
+  inputFile: string,
+  options: OutputOptions,
+  output: CachedOutput,
+): void {
+  // The linked output depends on the YAML files of the subworkflows, too
+  const yamlFiles = options.linkSubworkflows
+    ? linkedYAMLFiles(program, inputFile)
+    : []
+  const dependencies = Object.fromEntries([
+    ...importedSourceFiles(program, inputFile).map(
+      ([fileName, sourceFile]): [string, string] => [
+        fileName,
+        hash(sourceFile.text),
+      ],
+    ),
+    ...yamlFiles.flatMap((fileName): [string, string][] => {
+      const fileHash = hashFile(fileName)
+      return fileHash === undefined ? [] : [[fileName, fileHash]]
+    }),
+  ])
+  const record: OutputRecord = {
+    configHash: cache.configHash,
+    dependencies,
+    output: output.output,
+    warnings: output.warnings,
+    sourceMap: output.sourceMap,
+  }
+
+  writeRecord(cache, 'outputs', outputKey(inputFile, options), record)
+}
+
+// True if none of the files has changed since its content hash was recorded
+function dependenciesUnchanged(dependencies: Record<string, string>): boolean {
+  return Object.entries(dependencies).every(
+    ([fileName, sourceHash]) => hashFile(fileName) === sourceHash,
+  )
+}
+
+/**
+ * Returns the source file of inputFile and the source files it (recursively)
+ * imports, keyed by their absolute paths.
+ */
+export function importedSourceFiles(
+  program: ts.Program,
+  inputFile: string,
+): [string, ts.SourceFile][] {
+  const options = program.getCompilerOptions()
+  const found = new Map<string, ts.SourceFile>()
+
+  function visit(fileName: string) {
+    const sourceFile = program.getSourceFile(fileName)
+    // Module resolution needs an absolute path of the importing file. The
+    // input files can be given relative to the working directory.
+    const absolutePath = path.resolve(fileName)
+    if (sourceFile === undefined || found.has(absolutePath)) {
+      return
+    }
+
+    found.set(absolutePath, sourceFile)
+
+    ts.preProcessFile(sourceFile.text).importedFiles.forEach((imported) => {
+      const resolved = ts.resolveModuleName(
+        imported.fileName,
+        absolutePath,
+        options,
+        ts.sys,
+      ).resolvedModule
+
+      if (resolved) {
+        visit(resolved.resolvedFileName)
+      }
+    })
+  }
+
+  visit(inputFile)
+
+  return [...found.entries()]
+}
+
+function outputKey(inputFile: string, options: OutputOptions): string {
+  const link = options.linkSubworkflows ? ':link' : ''
+  const comments = options.preserveComments ? ':comments' : ''
+  const debug = options.debugComments ? ':debug' : ''
+  const stepNames =
+    options.stepNames !== 'sequential' ? `:${options.stepNames}` : ''
+
+  return `${path.resolve(inputFile)}:${options.format}${link}${comments}${debug}${stepNames}`
+}
+
+function readRecord<T>(
+  cache: BuildCache,
+  kind: string,
+  key: string,
+): T | undefined {
+  try {
+    const json = fs.readFileSync(recordPath(cache, kind, key), 'utf-8')
+    return restoreUndefined(JSON.parse(json)) as T
+  } catch {
+    // A missing or corrupted record is a cache miss
+    return undefined
+  }
+}
+
+function writeRecord(
+  cache: BuildCache,
+  kind: string,
+  key: string,
+  record: object,
+): void {
+  const recordFile = recordPath(cache, kind, key)
+  fs.mkdirSync(path.dirname(recordFile), { recursive: true })
+  fs.writeFileSync(
+    recordFile,
+    JSON.stringify(record, (_, value: unknown) =>
+      value === undefined ? UNDEFINED_PLACEHOLDER : value,
+    ),
+  )
+}
+
+function recordPath(cache: BuildCache, kind: string, key: string): string {
+  return path.join(cache.directory, kind, `${hash(key)}.json`)
+}
+
+// Replace the placeholders written by writeRecord() with undefined
+function restoreUndefined(value: unknown): unknown {
+  if (value === UNDEFINED_PLACEHOLDER) {
+    return undefined
+  } else if (Array.isArray(value)) {
+    return value.map(restoreUndefined)
+  } else if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, restoreUndefined(v)]),
+    )
+  } else {
+    return value
+  }
+}
+
+function hashFile(fileName: string): string | undefined {
+  // Read the file the same way as the Typescript compiler does
+  const text = ts.sys.readFile(fileName)
+  return text === undefined ? undefined : hash(text)
+}
+
+function hash(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex')
+}
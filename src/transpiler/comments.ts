@@ -0,0 +1,304 @@
+import { AST_TOKEN_TYPES, TSESTree } from '@typescript-eslint/typescript-estree'
+import * as YAML from 'yaml'
+import { nestedSteps, WorkflowStep } from '../ast/steps.js'
+import { Subworkflow, WorkflowApp } from '../ast/workflows.js'
+
+/**
+ * Returns the lines of the comments preceding a node or undefined if there are
+ * no comments.
+ */
+export type LeadingComments = (node: TSESTree.Node) => string[] | undefined
+
+type Position = TSESTree.Position
+
+// "@step fetch_customer" sets the name of the step generated from the
+// following statement
+const STEP_TAG = /^@step\b\s*(.*?)\s*$/
+
+// Comments that are directives for tools, such as
+// "// ts2workflows-disable-next-line" or "// @ts-expect-error", are not
+// included in the leading comments
+const DIRECTIVE_PREFIXES = [
+  'ts2workflows-',
+  'eslint-',
+  '@ts-',
+  'prettier-ignore',
+]
+
+/**
+ * Create a function that finds the leading comments of nodes in a parsed
+ * source file.
+ *
+ * The leading comments of a node are the comments on the lines immediately
+ * above the node. A comment is considered to be a leading comment only if it
+ * is the first thing on its line, and there are no empty lines between the
+ * comment and the node. Thus, file header comments separated by an empty line
+ * and comments at the end of a line of code are not included.
+ */
+export function createLeadingComments(
+  comments: TSESTree.Comment[],
+  sourceCode: string,
+): LeadingComments {
+  const lines = sourceCode.split('\n')
+  const textBetween = (start: Position, end: Position) =>
+    lines
+      .slice(start.line - 1, end.line)
+      .map((line, i, selected) =>
+        line.slice(
+          i === 0 ? start.column : 0,
+          i === selected.length - 1 ? end.column : undefined,
+        ),
+      )
+      .join('\n')
+  const isAttached = (comment: TSESTree.Comment, next: Position) =>
+    comment.loc.end.line >= next.line - 1 &&
+    textBetween(comment.loc.end, next).trim() === '' &&
+    textBetween(
+      { line: comment.loc.start.line, column: 0 },
+      comment.loc.start,
+    ).trim() === ''
+
+  return (node) => {
+    const attached: TSESTree.Comment[] = []
+    let next = node.loc.start
+    for (
+      let i = comments.findLastIndex((c) => isBefore(c.loc.end, next));
+      i >= 0 && isAttached(comments[i], next);
+      i--
+    ) {
+      attached.unshift(comments[i])
+      next = comments[i].loc.start
+    }
+
+    const lines = attached
+      .filter((comment) => !isDirective(comment))
+      .flatMap(commentLines)
+    return lines.length > 0 ? lines : undefined
+  }
+}
+
+/**
+ * Separate the "@step name" tags from the leading comment lines of a
+ * statement. A tag can be on its own line in a JSDoc block or in a line
+ * comment. Returns the tagged step names and the remaining comment lines.
+ */
+export function extractStepTags(lines: string[] | undefined): {
+  stepNames: string[]
+  comments: string[] | undefined
+} {
+  const stepNames: string[] = []
+  const comments = (lines ?? []).filter((line) => {
+    const match = STEP_TAG.exec(line)
+    if (match) {
+      stepNames.push(match[1])
+    }
+    return !match
+  })
+
+  return {
+    stepNames,
+    comments: comments.length > 0 ? comments : undefined,
+  }
+}
+
+function isDirective(comment: TSESTree.Comment): boolean {
+  const text = comment.value.trim()
+  return DIRECTIVE_PREFIXES.some((prefix) => text.startsWith(prefix))
+}
+
+function isBefore(a: Position, b: Position): boolean {
+  return a.line < b.line || (a.line === b.line && a.column <= b.column)
+}
+
+// The text lines of a comment without the comment markers
+function commentLines(comment: TSESTree.Comment): string[] {
+  if (comment.type === AST_TOKEN_TYPES.Line) {
+    return [comment.value.replace(/^ /, '').trimEnd()]
+  }
+
+  const lines = comment.value
+    .split('\n')
+    .map((line) => line.replace(/^\s*\*?\s?/, '').trimEnd())
+  const first = lines.findIndex((line) => line !== '')
+  const last = lines.findLastIndex((line) => line !== '')
+
+  return lines.slice(first, last + 1)
+}
+
+/**
+ * Add the comments of the subworkflows and the steps in workflow to the
+ * corresponding nodes in a YAML document rendered from the workflow.
+ */
+export function addYAMLComments(doc: YAML.Document, workflow: WorkflowApp) {
+  forEachSubworkflowNode(doc, workflow, (subworkflow, pair) => {
+    if (YAML.isScalar(pair.key) && subworkflow.comments) {
+      pair.key.commentBefore = yamlComment(subworkflow.comments)
+    }
+
+    forEachStepNode(subworkflow.steps, stepsNode(pair), (step, stepNode) => {
+      if (step.comments) {
+        stepNode.commentBefore = yamlComment(step.comments)
+      }
+    })
+  })
+}
+
+/**
+ * Add debugging comments to a YAML document rendered from workflow.
+ *
+ * Each step gets a trailing comment with the source code location of the
+ * statement that the step was generated from, for example
+ * "# src/orders.ts:42". Temporary variables get a trailing comment with the
+ * source code expression that they hold.
+ */
+export function addDebugComments(doc: YAML.Document, workflow: WorkflowApp) {
+  forEachSubworkflowNode(doc, workflow, (subworkflow, pair) => {
+    const file = subworkflow.sourceFile ?? '<unknown>'
+
+    forEachStepNode(subworkflow.steps, stepsNode(pair), (step, stepNode) => {
+      const [stepPair] = stepNode.items
+      if (step.loc && YAML.isScalar(stepPair.key)) {
+        stepPair.key.comment = ` ${file}:${step.loc.start.line}`
+      }
+
+      const tempVariables = step.tempVariables ?? {}
+      assignedVariableNodes(step, stepPair.value).forEach(([name, pair]) => {
+        if (name in tempVariables) {
+          setTrailingComment(pair, ` ${tempVariables[name]}`)
+        }
+      })
+    })
+  })
+}
+
+function forEachSubworkflowNode(
+  doc: YAML.Document,
+  workflow: WorkflowApp,
+  fn: (subworkflow: Subworkflow, node: YAML.Pair) => void,
+): void {
+  if (!YAML.isMap(doc.contents)) {
+    return
+  }
+
+  const rootPairs = doc.contents.items
+  workflow.subworkflows.forEach((subworkflow) => {
+    const pair = rootPairs.find((p) => scalarValue(p.key) === subworkflow.name)
+    if (pair) {
+      fn(subworkflow, pair)
+    }
+  })
+}
+
+function stepsNode(subworkflowNode: YAML.Pair): unknown {
+  return YAML.isMap(subworkflowNode.value)
+    ? subworkflowNode.value.get('steps', true)
+    : undefined
+}
+
+/**
+ * Call fn on each step (including the nested steps) and the YAML node
+ * rendered from the step. node is the YAML sequence rendered from steps.
+ */
+function forEachStepNode(
+  steps: WorkflowStep[],
+  node: unknown,
+  fn: (step: WorkflowStep, stepNode: YAML.YAMLMap) => void,
+): void {
+  if (!YAML.isSeq(node)) {
+    return
+  }
+
+  steps.forEach((step, i) => {
+    const stepNode = node.items[i]
+    // Check that the node is the step. This should always be true unless
+    // the rendering of the steps has changed.
+    if (
+      !YAML.isMap(stepNode) ||
+      scalarValue(stepNode.items.at(0)?.key) !== step.label
+    ) {
+      return
+    }
+
+    fn(step, stepNode)
+
+    const nestedStepNodes = stepSequences(stepNode.items[0].value)
+    nestedSteps(step)
+      .filter((nested) => nested.length > 0)
+      .forEach((nested, j) => forEachStepNode(nested, nestedStepNodes[j], fn))
+  })
+}
+
+// Returns the variables assigned in the body of a step and the YAML pairs
+// that assign them: the result of a call step and the assignments of an
+// assign step
+function assignedVariableNodes(
+  step: WorkflowStep,
+  body: unknown,
+): [string, YAML.Pair][] {
+  if (!YAML.isMap(body)) {
+    return []
+  }
+
+  switch (step.tag) {
+    case 'call': {
+      const result = body.items.find((p) => scalarValue(p.key) === 'result')
+      return result && step.result !== undefined ? [[step.result, result]] : []
+    }
+
+    case 'assign': {
+      const assignments = body.get('assign', true)
+      return YAML.isSeq(assignments)
+        ? assignments.items.flatMap((item) =>
+            YAML.isMap(item)
+              ? item.items.map((pair): [string, YAML.Pair] => [
+                  String(scalarValue(pair.key)),
+                  pair,
+                ])
+              : [],
+          )
+        : []
+    }
+
+    default:
+      return []
+  }
+}
+
+// Set a comment on the line of the key of pair. A comment on a scalar value
+// is written on the same line as the key. A comment on the key of a
+// collection value is written on the key line, too.
+function setTrailingComment(pair: YAML.Pair, comment: string): void {
+  if (YAML.isScalar(pair.value)) {
+    pair.value.comment = comment
+  } else if (YAML.isScalar(pair.key)) {
+    pair.key.comment = comment
+  }
+}
+
+// Returns the non-empty "steps" sequences nested inside node in the document
+// order. The sequences nested inside the returned sequences are not included.
+function stepSequences(node: unknown): YAML.YAMLSeq[] {
+  if (YAML.isMap(node)) {
+    return node.items.flatMap((pair) =>
+      scalarValue(pair.key) === 'steps' && YAML.isSeq(pair.value)
+        ? pair.value.items.length > 0
+          ? [pair.value]
+          : []
+        : stepSequences(pair.value),
+    )
+  } else if (YAML.isSeq(node)) {
+    return node.items.flatMap(stepSequences)
+  } else {
+    return []
+  }
+}
+
+function scalarValue(node: unknown): unknown {
+  return YAML.isScalar(node) ? node.value : undefined
+}
+
+// The YAML library prefixes each comment line with "#". An empty line would
+// be rendered as an empty line and a line with a single space as "#".
+function yamlComment(lines: string[]): string {
+  return lines.map((line) => ` ${line}`).join('\n')
+}
@@ -1,9 +1,11 @@
 import fs from 'node:fs'
 import * as path from 'node:path'
+import * as R from 'ramda'
 import {
   AST_NODE_TYPES,
   parseAndGenerateServices,
-  ParseAndGenerateServicesResult,
+  ParserServices,
+  simpleTraverse,
   TSESTree,
   TSESTreeOptions,
 } from '@typescript-eslint/typescript-estree'
@@ -12,8 +14,11 @@ import * as YAML from 'yaml'
 import {
   InternalTranspilingError,
   IOError,
+  recoverSyntaxError,
   syntaxErrorWithText,
+  throwSyntaxErrors,
   WorkflowSyntaxError,
+  WorkflowWarning,
 } from '../errors.js'
 import {
   Subworkflow,
@@ -24,55 +29,237 @@ import {
 import { parseStatement } from './parsestatement.js'
 import { transformAST } from './transformations.js'
 import { findCalledFunctionDeclarations } from './linker.js'
+import { readYAMLSubworkflow, yamlSubworkflowFile } from './yamlsubworkflows.js'
 import { isPrimitive, nullEx } from '../ast/expressions.js'
 import { convertExpression } from './parseexpressions.js'
-import { generateStepNames } from './stepnames.js'
+import { applyStepNaming, generateStepNames, StepNaming } from './stepnames.js'
+import { findWarnings } from './warnings.js'
+import {
+  BuildCache,
+  importedSourceFiles,
+  readCachedModule,
+  writeCachedModule,
+} from './cache.js'
+import { createSourceMap, SourceMap } from './sourcemap.js'
+import {
+  addDebugComments,
+  addYAMLComments,
+  createLeadingComments,
+  LeadingComments,
+} from './comments.js'
+
+export type OutputFormat = 'yaml' | 'json'
+
+export interface TranspileOptions {
+  // Output format. The default is YAML.
+  format?: OutputFormat
+  // Include the source code comments as YAML comments in the output. Ignored
+  // on the JSON output format.
+  preserveComments?: boolean
+  // Add a comment with the source code location to each step and a comment
+  // with the source code expression to each temporary variable. Ignored on
+  // the JSON output format.
+  debugComments?: boolean
+  // How the step names are generated. The default is sequential.
+  stepNames?: StepNaming
+  // Called for each warning found in the transpiled source code
+  onWarning?: (warning: WorkflowWarning) => void
+  // Called with the source map that maps the generated steps to the source
+  // code locations
+  onSourceMap?: (sourceMap: SourceMap) => void
+  // On-disk cache for the parsed modules. Used only when transpiling files
+  // in a Typescript program.
+  cache?: BuildCache
+}
 
-const workflowCache = new Map<string, WorkflowApp>()
+interface ParsedSourceFile {
+  sourceText: string
+  // Source texts of the (recursively) imported files by their absolute paths.
+  // The type-aware warnings depend on them.
+  importedTexts: Map<string, string>
+  workflow: WorkflowApp
+  warnings: WorkflowWarning[]
+}
+
+// Parsed workflows by source file name. An entry is valid only as long as the
+// source text and the texts of the imported files stay the same. This allows
+// reusing the parsed workflows between compilations of a changing program,
+// for example in the watch mode.
+const workflowCache = new Map<string, ParsedSourceFile>()
 
 export function transpile(
   filename: string,
   sourceCode: string,
   tsconfigPath: string | undefined,
   linkSubworkflows: boolean,
+  options: TranspileOptions = {},
 ): string {
-  const { ast, services } = parseMainFile(filename, sourceCode, tsconfigPath)
-  const inputWorkflow = esProgramToWorkflowAppEnrichErrors(
+  if (tsconfigPath) {
+    const program = createProgram([filename], tsconfigPath)
+    return transpileProgramFile(program, filename, linkSubworkflows, options)
+  } else {
+    const parserOptions = eslintParserOptions(filename)
+    const { ast, services } = parseAndGenerateServices(
+      sourceCode,
+      parserOptions,
+    )
+    const workflow = esProgramToWorkflowAppEnrichErrors(
+      ast,
+      filename,
+      sourceCode,
+    )
+    findWarningsWithText(ast, services, filename, sourceCode).forEach((w) =>
+      options.onWarning?.(w),
+    )
+    return outputWorkflow(workflow, options)
+  }
+}
+
+export function transpileText(
+  sourceCode: string,
+  options: TranspileOptions = {},
+) {
+  const parserOptions = eslintParserOptions()
+  const { ast, services } = parseAndGenerateServices(sourceCode, parserOptions)
+  const workflow = esProgramToWorkflowAppEnrichErrors(
     ast,
-    filename,
+    '<stdin>',
     sourceCode,
   )
+  findWarningsWithText(ast, services, '<stdin>', sourceCode).forEach((w) =>
+    options.onWarning?.(w),
+  )
+  return outputWorkflow(workflow, options)
+}
 
-  if (
-    linkSubworkflows &&
-    tsconfigPath &&
-    services.program != null &&
-    filename
-  ) {
-    const canonicalInput = path.join(process.cwd(), filename)
-    workflowCache.set(canonicalInput, inputWorkflow)
+/**
+ * Transpile a source file that is part of an existing Typescript program.
+ *
+ * The parsed workflows are cached and reused on later calls as long as the
+ * source file contents do not change. Keeping the program alive between
+ * calls (as the watch mode does) avoids re-parsing unchanged files.
+ */
+export function transpileProgramFile(
+  program: ts.Program,
+  filename: string,
+  linkSubworkflows: boolean,
+  options: TranspileOptions = {},
+): string {
+  const sourceFile = program.getSourceFile(filename)
+
+  if (sourceFile === undefined) {
+    throw new IOError(`Source file ${filename} not found`, 'ENOENT')
+  }
 
-    const subworkflows = generateLinkedOutput(
-      canonicalInput,
-      tsconfigPath,
-      services.program,
+  if (linkSubworkflows) {
+    const { subworkflows, warnings } = generateLinkedOutput(
+      sourceFile,
+      program,
+      options.cache,
     )
-    const combinedWorkflow = new WorkflowApp(subworkflows)
-    return toYAMLString(combinedWorkflow)
+    const workflow = new WorkflowApp(subworkflows)
+    warnings.forEach((w) => options.onWarning?.(w))
+    return outputWorkflow(workflow, options)
   } else {
-    return toYAMLString(inputWorkflow)
+    const { workflow, warnings } = getCachedSourceFile(
+      program,
+      sourceFile,
+      options.cache,
+    )
+    warnings.forEach((w) => options.onWarning?.(w))
+    return outputWorkflow(workflow, options)
   }
 }
 
-export function transpileText(sourceCode: string) {
-  const parserOptions = eslintParserOptions()
-  const { ast } = parseAndGenerateServices(sourceCode, parserOptions)
-  const workflow = esProgramToWorkflowAppEnrichErrors(
-    ast,
-    '<stdin>',
-    sourceCode,
+// Rename the steps, report the source map and render the workflow in the
+// output format
+function outputWorkflow(
+  workflow: WorkflowApp,
+  options: TranspileOptions,
+): string {
+  const named = applyStepNaming(workflow, options.stepNames ?? 'sequential')
+  reportSourceMap(named, options)
+  return renderWorkflow(named, options)
+}
+
+function reportSourceMap(
+  workflow: WorkflowApp,
+  options: TranspileOptions,
+): void {
+  if (options.onSourceMap) {
+    options.onSourceMap(createSourceMap(workflow))
+  }
+}
+
+// The source file name relative to the current working directory
+function displayFileName(fileName: string): string {
+  return path.relative(process.cwd(), fileName)
+}
+
+/**
+ * Returns the names of the source files that define the functions that are
+ * (recursively) called from filename. These are the files that contribute
+ * subworkflows to the linked output of filename.
+ */
+export function linkedSourceFiles(
+  program: ts.Program,
+  filename: string,
+): string[] {
+  const sourceFile = program.getSourceFile(filename)
+
+  if (sourceFile === undefined) {
+    return []
+  }
+
+  const functions = findCalledFunctionDeclarations(
+    program.getTypeChecker(),
+    sourceFile,
+  )
+
+  return R.uniq(functions.map((f) => f.getSourceFile().fileName))
+}
+
+/**
+ * Create a Typescript program with the given root files and the compiler
+ * options read from a TSConfig file.
+ */
+export function createProgram(
+  rootNames: string[],
+  tsconfigPath: string,
+): ts.Program {
+  return ts.createProgram(rootNames, readCompilerOptions(tsconfigPath))
+}
+
+export function readCompilerOptions(tsconfigPath: string): ts.CompilerOptions {
+  const cwd = process.cwd()
+  const { options } = ts.parseJsonConfigFileContent(
+    readTSConfigJSON(tsconfigPath),
+    ts.sys,
+    cwd,
+  )
+
+  return options
+}
+
+/**
+ * Returns the source files that belong to the project according to the
+ * "files" and "include" settings in the TSConfig.
+ */
+export function readProjectFileNames(tsconfigPath: string): string[] {
+  const configDir = path.dirname(path.resolve(tsconfigPath))
+  const { fileNames } = ts.parseJsonConfigFileContent(
+    readTSConfigJSON(tsconfigPath),
+    ts.sys,
+    configDir,
+  )
+
+  return fileNames
+}
+
+function readTSConfigJSON(tsconfigPath: string): unknown {
+  return JSON.parse(
+    fs.readFileSync(path.resolve(process.cwd(), tsconfigPath), 'utf-8'),
   )
-  return toYAMLString(workflow)
 }
 
 function esProgramToWorkflowAppEnrichErrors(
@@ -81,7 +268,7 @@ function esProgramToWorkflowAppEnrichErrors(
   sourceCode: string,
 ): WorkflowApp {
   try {
-    return esProgramToWorkflowApp(program)
+    return esProgramToWorkflowApp(program, filename, sourceCode)
   } catch (error) {
     if (error instanceof WorkflowSyntaxError) {
       throw syntaxErrorWithText(error, filename, sourceCode)
@@ -91,79 +278,113 @@ function esProgramToWorkflowAppEnrichErrors(
   }
 }
 
-function esProgramToWorkflowApp(program: TSESTree.Program): WorkflowApp {
-  return generateStepNames(program.body.flatMap(parseTopLevelStatement))
-}
-
-function parseMainFile(
+/**
+ * Convert a parsed program to a WorkflowApp.
+ *
+ * The parsing continues after a syntax error so that all errors in the
+ * program can be reported. Throws a WorkflowSyntaxError (or
+ * MultipleWorkflowSyntaxErrors, if there are several errors) at the end.
+ */
+function esProgramToWorkflowApp(
+  program: TSESTree.Program,
   filename: string,
   sourceCode: string,
-  tsconfigPath: string | undefined,
-): ParseAndGenerateServicesResult<TSESTreeOptions> {
-  const parserOptions = eslintParserOptions(filename, tsconfigPath)
+): WorkflowApp {
+  // Set the parent pointers. Some expressions are checked against the
+  // expression that contains them.
+  simpleTraverse(program, { enter: () => undefined }, true)
 
-  if (tsconfigPath) {
-    const cwd = process.cwd()
-    const configJSON: unknown = JSON.parse(
-      fs.readFileSync(path.join(cwd, tsconfigPath), 'utf-8'),
-    )
-    const { options } = ts.parseJsonConfigFileContent(configJSON, ts.sys, cwd)
-    const program = ts.createProgram([filename], options)
-    const mainSourceFile = program.getSourceFile(filename)
+  const syntaxErrors: WorkflowSyntaxError[] = []
+  const leadingComments = createLeadingComments(
+    program.comments ?? [],
+    sourceCode,
+  )
+  const subworkflows = program.body.flatMap((node) =>
+    recoverSyntaxError(syntaxErrors, [], () =>
+      parseTopLevelStatement(node, syntaxErrors, leadingComments),
+    ),
+  )
 
-    if (mainSourceFile === undefined) {
-      throw new IOError(`Source file ${filename} not found`, 'ENOENT')
-    }
+  throwSyntaxErrors(syntaxErrors)
 
-    return parseAndGenerateServices(mainSourceFile, parserOptions)
-  } else {
-    return parseAndGenerateServices(sourceCode, parserOptions)
-  }
+  return generateStepNames(subworkflows, filename)
+}
+
+function findWarningsWithText(
+  program: TSESTree.Program,
+  services: ParserServices,
+  filename: string,
+  sourceCode: string,
+): WorkflowWarning[] {
+  const lines = sourceCode.split('\n')
+
+  return findWarnings(program, services).map((w) => ({
+    ...w,
+    filename,
+    errorLine: lines[w.location.start.line - 1] ?? '',
+  }))
 }
 
-function eslintParserOptions(
-  inputFile?: string,
-  tsconfigPath?: string,
-): TSESTreeOptions {
-  const opts: TSESTreeOptions = {
+function eslintParserOptions(inputFile?: string): TSESTreeOptions {
+  return {
     jsDocParsingMode: 'none' as const,
     loc: true,
     range: false,
+    comment: true,
     filePath: inputFile,
   }
-
-  if (tsconfigPath) {
-    opts.projectService = {
-      defaultProject: tsconfigPath,
-    }
-  }
-
-  return opts
 }
 
+/**
+ * Returns the subworkflows called from mainSourceFile and the warnings found
+ * in them.
+ *
+ * Ambient function declarations are not included, except those that have a
+ * @yaml tag. Their subworkflows are read from the YAML files.
+ */
 function generateLinkedOutput(
-  canonicalInputName: string,
-  tsconfigPath: string,
+  mainSourceFile: ts.SourceFile,
   program: ts.Program,
-): Subworkflow[] {
-  const mainSourceFile = program
-    .getSourceFiles()
-    .find((x) => x.fileName === canonicalInputName)
-
-  if (mainSourceFile === undefined) {
-    throw new InternalTranspilingError(
-      `Typescript SourceFile object not found for ${canonicalInputName}`,
-    )
-  }
-
+  cache: BuildCache | undefined,
+): { subworkflows: Subworkflow[]; warnings: WorkflowWarning[] } {
   const typeChecker = program.getTypeChecker()
-  const functions = findCalledFunctionDeclarations(typeChecker, mainSourceFile)
-  const subworkflows = functions
-    .filter((f) => !isAmbientFunctionDeclaration(f))
-    .map((decl) => tsFunctionToSubworkflow(tsconfigPath, decl))
-    .sort(subworkflowOrdering)
+  const calledFunctions = findCalledFunctionDeclarations(
+    typeChecker,
+    mainSourceFile,
+  )
+  const functions = calledFunctions.filter(
+    (f) => !isAmbientFunctionDeclaration(f),
+  )
+  const yamlFunctions = calledFunctions.filter(
+    (f) =>
+      isAmbientFunctionDeclaration(f) && yamlSubworkflowFile(f) !== undefined,
+  )
+  const subworkflows = [
+    ...functions.map((decl) => tsFunctionToSubworkflow(program, decl, cache)),
+    ...yamlFunctions.map(yamlFunctionToSubworkflow),
+  ].sort(subworkflowOrdering)
+  const warnings = functions.flatMap((decl) =>
+    warningsInsideDeclaration(program, decl, cache),
+  )
 
-  return subworkflows
+  return { subworkflows, warnings }
+}
+
+function warningsInsideDeclaration(
+  program: ts.Program,
+  decl: ts.FunctionDeclaration,
+  cache: BuildCache | undefined,
+): WorkflowWarning[] {
+  const sourceFile = decl.getSourceFile()
+  const { warnings } = getCachedSourceFile(program, sourceFile, cache)
+  const firstLine =
+    sourceFile.getLineAndCharacterOfPosition(decl.getStart()).line + 1
+  const lastLine = sourceFile.getLineAndCharacterOfPosition(decl.end).line + 1
+
+  return warnings.filter(
+    (w) =>
+      w.location.start.line >= firstLine && w.location.start.line <= lastLine,
+  )
 }
 
 // Compare function that puts a subworkflow called "main" first and orders the
@@ -185,42 +406,138 @@ function subworkflowOrdering(a: Subworkflow, b: Subworkflow) {
   }
 }
 
-function getCachedWorkflow(
-  filename: string,
-  tsconfigPath: string,
-): WorkflowApp {
-  const cached = workflowCache.get(filename)
-
-  if (cached) {
+/**
+ * Returns the parsed workflow and the warnings of a source file.
+ *
+ * The result is looked up first in the in-memory cache, then in the on-disk
+ * cache (if given) and only if both miss, the source file is parsed.
+ */
+function getCachedSourceFile(
+  program: ts.Program,
+  sourceFile: ts.SourceFile,
+  cache: BuildCache | undefined,
+): ParsedSourceFile {
+  const importedTexts = new Map(
+    importedSourceFiles(program, sourceFile.fileName).map(
+      ([fileName, f]): [string, string] => [fileName, f.text],
+    ),
+  )
+  const cached = workflowCache.get(sourceFile.fileName)
+  const cacheHit =
+    cached?.sourceText === sourceFile.text &&
+    R.equals(cached.importedTexts, importedTexts)
+  const cachedOnDisk =
+    !cacheHit && cache
+      ? readCachedModule(cache, sourceFile.fileName, sourceFile.text)
+      : undefined
+
+  if (cacheHit) {
     return cached
+  } else if (cachedOnDisk) {
+    const parsed = {
+      sourceText: sourceFile.text,
+      importedTexts,
+      ...cachedOnDisk,
+    }
+    workflowCache.set(sourceFile.fileName, parsed)
+
+    return parsed
   } else {
-    const parserOptions = eslintParserOptions(filename, tsconfigPath)
-    const code = fs.readFileSync(filename, 'utf8')
-    const { ast } = parseAndGenerateServices(code, parserOptions)
-    const workflow = esProgramToWorkflowAppEnrichErrors(ast, filename, code)
+    const parserOptions: TSESTreeOptions = {
+      ...eslintParserOptions(sourceFile.fileName),
+      programs: [program],
+    }
+    const { ast, services } = parseAndGenerateServices(
+      sourceFile,
+      parserOptions,
+    )
+    const displayName = displayFileName(sourceFile.fileName)
+    const workflow = esProgramToWorkflowAppEnrichErrors(
+      ast,
+      displayName,
+      sourceFile.text,
+    )
+    const parsed = {
+      sourceText: sourceFile.text,
+      importedTexts,
+      workflow,
+      warnings: findWarningsWithText(
+        ast,
+        services,
+        displayName,
+        sourceFile.text,
+      ),
+    }
 
-    workflowCache.set(filename, workflow)
+    workflowCache.set(sourceFile.fileName, parsed)
+    if (cache) {
+      writeCachedModule(
+        cache,
+        program,
+        sourceFile.fileName,
+        sourceFile.text,
+        parsed,
+      )
+    }
 
-    return workflow
+    return parsed
   }
 }
 
 function tsFunctionToSubworkflow(
-  tsconfigPath: string,
+  program: ts.Program,
   decl: ts.FunctionDeclaration,
+  cache: BuildCache | undefined,
 ): Subworkflow {
   if (!decl.name) {
     throw new InternalTranspilingError("Anonymous function can't be transpiled")
   }
 
-  const filename = decl.getSourceFile().fileName
+  const sourceFile = decl.getSourceFile()
   const wfname = decl.name.getText()
-  const workflow = getCachedWorkflow(filename, tsconfigPath)
+  const { workflow } = getCachedSourceFile(program, sourceFile, cache)
   const subworkflow = workflow.getSubworkflowByName(wfname)
 
   if (!subworkflow) {
     throw new InternalTranspilingError(
-      `Failed to find subworkflow ${wfname} in file ${filename}`,
+      `Failed to find subworkflow ${wfname} in file ${sourceFile.fileName}`,
+    )
+  }
+
+  return subworkflow
+}
+
+// Read the subworkflow of an ambient function declaration with a @yaml tag
+function yamlFunctionToSubworkflow(decl: ts.FunctionDeclaration): Subworkflow {
+  const yamlPath = yamlSubworkflowFile(decl)
+  if (!decl.name || yamlPath === undefined) {
+    throw new InternalTranspilingError(
+      'Expected a named function declaration with a @yaml tag',
+    )
+  }
+
+  const wfname = decl.name.getText()
+  const subworkflow = readYAMLSubworkflow(
+    wfname,
+    yamlPath,
+    displayFileName(yamlPath),
+  )
+
+  if (!subworkflow) {
+    const sourceFile = decl.getSourceFile()
+    const start = sourceFile.getLineAndCharacterOfPosition(decl.name.getStart())
+    const end = sourceFile.getLineAndCharacterOfPosition(decl.name.end)
+    throw syntaxErrorWithText(
+      new WorkflowSyntaxError(
+        `Subworkflow "${wfname}" not found in ${displayFileName(yamlPath)}`,
+        {
+          start: { line: start.line + 1, column: start.character },
+          end: { line: end.line + 1, column: end.character },
+        },
+        'TS2WF0005',
+      ),
+      displayFileName(sourceFile.fileName),
+      sourceFile.text,
     )
   }
 
@@ -264,10 +581,19 @@ function isAmbient(
 
 function parseTopLevelStatement(
   node: TSESTree.ProgramStatement,
+  syntaxErrors: WorkflowSyntaxError[],
+  leadingComments: LeadingComments,
 ): SubworkflowStatements[] {
   switch (node.type) {
     case AST_NODE_TYPES.FunctionDeclaration:
-      return [parseSubworkflows(node)]
+      return [
+        parseSubworkflows(
+          node,
+          syntaxErrors,
+          leadingComments,
+          leadingComments(node),
+        ),
+      ]
 
     case AST_NODE_TYPES.ImportDeclaration:
       if (
@@ -280,6 +606,7 @@ function parseTopLevelStatement(
         throw new WorkflowSyntaxError(
           'Only named imports are allowed',
           node.loc,
+          'TS2WF1001',
         )
       }
 
@@ -291,10 +618,16 @@ function parseTopLevelStatement(
         node.declaration?.type === AST_NODE_TYPES.FunctionDeclaration &&
         node.declaration.id?.type === AST_NODE_TYPES.Identifier
       ) {
+        // The comments (for example, JSDoc) precede the "export" keyword.
         // Why is "as" needed here?
-        return parseTopLevelStatement(
-          node.declaration as TSESTree.FunctionDeclarationWithName,
-        )
+        return [
+          parseSubworkflows(
+            node.declaration as TSESTree.FunctionDeclarationWithName,
+            syntaxErrors,
+            leadingComments,
+            leadingComments(node),
+          ),
+        ]
       } else {
         return []
       }
@@ -310,48 +643,77 @@ function parseTopLevelStatement(
       throw new WorkflowSyntaxError(
         `Only function definitions, imports and type aliases allowed at the top level, encountered ${node.type}`,
         node.loc,
+        'TS2WF1002',
       )
   }
 }
 
 function parseSubworkflows(
   node: TSESTree.FunctionDeclarationWithName,
+  syntaxErrors: WorkflowSyntaxError[],
+  leadingComments: LeadingComments,
+  comments: string[] | undefined,
 ): SubworkflowStatements {
-  const workflowParams = parseWorkflowParams(node.params)
-  const steps = transformAST(parseStatement(node.body, {}))
+  const errorCount = syntaxErrors.length
+  const workflowParams = parseWorkflowParams(node.params, syntaxErrors)
+  const statements = parseStatement(node.body, {
+    syntaxErrors,
+    leadingComments,
+    stepNames: new Map(),
+  })
+
+  if (syntaxErrors.length > errorCount) {
+    // This subworkflow has errors and won't be outputted. Don't bother
+    // transforming it.
+    return new SubworkflowStatements(node.id.name, statements, workflowParams)
+  }
+
+  const steps = transformAST(statements)
 
   if (steps.length === 0) {
     throw new WorkflowSyntaxError(
       'Empty subworkflow body is not allowed on GCP Workflows',
       node.body.loc,
+      'TS2WF1004',
     )
   }
 
-  return new SubworkflowStatements(node.id.name, steps, workflowParams)
+  return new SubworkflowStatements(
+    node.id.name,
+    steps,
+    workflowParams,
+    comments,
+  )
 }
 
 function parseWorkflowParams(
   nodeParams: TSESTree.Parameter[],
+  syntaxErrors: WorkflowSyntaxError[],
 ): WorkflowParameter[] {
-  return nodeParams.map((param) => {
-    switch (param.type) {
-      case AST_NODE_TYPES.Identifier:
-        if (param.optional) {
-          return { name: param.name, default: nullEx }
-        } else {
-          return { name: param.name }
-        }
-
-      case AST_NODE_TYPES.AssignmentPattern:
-        return parseSubworkflowDefaultArgument(param)
-
-      default:
-        throw new WorkflowSyntaxError(
-          'Function parameter must be an identifier or an assignment',
-          param.loc,
-        )
-    }
-  })
+  return nodeParams.flatMap((param) =>
+    recoverSyntaxError(syntaxErrors, [], () => [parseWorkflowParam(param)]),
+  )
+}
+
+function parseWorkflowParam(param: TSESTree.Parameter): WorkflowParameter {
+  switch (param.type) {
+    case AST_NODE_TYPES.Identifier:
+      if (param.optional) {
+        return { name: param.name, default: nullEx }
+      } else {
+        return { name: param.name }
+      }
+
+    case AST_NODE_TYPES.AssignmentPattern:
+      return parseSubworkflowDefaultArgument(param)
+
+    default:
+      throw new WorkflowSyntaxError(
+        'Function parameter must be an identifier or an assignment',
+        param.loc,
+        'TS2WF1005',
+      )
+  }
 }
 
 function parseSubworkflowDefaultArgument(param: TSESTree.AssignmentPattern) {
@@ -361,18 +723,21 @@ function parseSubworkflowDefaultArgument(param: TSESTree.AssignmentPattern) {
     throw new WorkflowSyntaxError(
       'The default value must be an identifier',
       param.left.loc,
+      'TS2WF1005',
     )
   }
   if (param.left.optional) {
     throw new WorkflowSyntaxError(
       "Parameter can't have default value and initializer",
       param.left.loc,
+      'TS2WF1005',
     )
   }
   if (!isPrimitive(defaultValue)) {
     throw new WorkflowSyntaxError(
       'The default value must be a literal number, string, boolean, null, or undefined',
       param.right.loc,
+      'TS2WF1006',
     )
   }
 
@@ -382,11 +747,46 @@ function parseSubworkflowDefaultArgument(param: TSESTree.AssignmentPattern) {
   }
 }
 
+function renderWorkflow(
+  workflow: WorkflowApp,
+  options: TranspileOptions,
+): string {
+  return options.format === 'json'
+    ? toJSONString(workflow)
+    : toYAMLString(workflow, options)
+}
+
 /**
  * Print the workflow as a YAML string.
+ *
+ * If options.preserveComments is true, the source code comments of the
+ * subworkflows and the steps are included as YAML comments. If
+ * options.debugComments is true, each step is annotated with its source code
+ * location.
  */
-export function toYAMLString(workflow: WorkflowApp): string {
-  return YAML.stringify(workflow.render(), {
+export function toYAMLString(
+  workflow: WorkflowApp,
+  options: Pick<TranspileOptions, 'preserveComments' | 'debugComments'> = {},
+): string {
+  const doc = new YAML.Document(workflow.render())
+  if (options.preserveComments) {
+    addYAMLComments(doc, workflow)
+  }
+  if (options.debugComments) {
+    addDebugComments(doc, workflow)
+  }
+
+  return doc.toString({
     lineWidth: 100,
   })
 }
+
+/**
+ * Print the workflow as a JSON string.
+ *
+ * The JSON has the same structure as the YAML output. Workflows accepts both
+ * formats as the workflow source.
+ */
+export function toJSONString(workflow: WorkflowApp): string {
+  return `${JSON.stringify(workflow.render(), undefined, 2)}\n`
+}
@@ -1,4 +1,8 @@
-import { TSESTree, AST_NODE_TYPES } from '@typescript-eslint/typescript-estree'
+import {
+  TSESTree,
+  AST_NODE_TYPES,
+  simpleTraverse,
+} from '@typescript-eslint/typescript-estree'
 import {
   BinaryExpression,
   BinaryOperator,
@@ -20,6 +24,7 @@ import {
   numberEx,
   stringEx,
   unaryEx,
+  updateEx,
   variableReferenceEx,
 } from '../ast/expressions.js'
 import { InternalTranspilingError, WorkflowSyntaxError } from '../errors.js'
@@ -34,9 +39,17 @@ export function convertExpression(instance: TSESTree.Expression): Expression {
 
     case AST_NODE_TYPES.Literal:
       if (instance.value instanceof RegExp) {
-        throw new WorkflowSyntaxError('RegExp is not supported', instance.loc)
+        throw new WorkflowSyntaxError(
+          'RegExp is not supported',
+          instance.loc,
+          'TS2WF1007',
+        )
       } else if (typeof instance.value === 'bigint') {
-        throw new WorkflowSyntaxError('BigInt is not supported', instance.loc)
+        throw new WorkflowSyntaxError(
+          'BigInt is not supported',
+          instance.loc,
+          'TS2WF1007',
+        )
       } else if (typeof instance.value === 'string') {
         return stringEx(instance.value)
       } else if (typeof instance.value === 'number') {
@@ -60,6 +73,14 @@ export function convertExpression(instance: TSESTree.Expression): Expression {
     case AST_NODE_TYPES.UnaryExpression:
       return convertUnaryExpression(instance)
 
+    case AST_NODE_TYPES.UpdateExpression:
+      throwIfUpdateIsReordered(instance)
+      return updateEx(
+        instance.operator,
+        instance.prefix,
+        convertAssignmentTarget(instance.argument),
+      )
+
     case AST_NODE_TYPES.BinaryExpression:
     case AST_NODE_TYPES.LogicalExpression:
       return convertBinaryExpression(instance)
@@ -89,6 +110,7 @@ export function convertExpression(instance: TSESTree.Expression): Expression {
       throw new WorkflowSyntaxError(
         `Not implemented expression type: ${instance.type}`,
         instance.loc,
+        'TS2WF1008',
       )
   }
 }
@@ -116,6 +138,7 @@ export function convertObjectExpression(
           throw new WorkflowSyntaxError(
             `Map keys must be identifiers or strings, encountered: ${key.type}`,
             key.loc,
+            'TS2WF1009',
           )
         }
 
@@ -123,7 +146,11 @@ export function convertObjectExpression(
           value.type === AST_NODE_TYPES.AssignmentPattern ||
           value.type === AST_NODE_TYPES.TSEmptyBodyFunctionExpression
         ) {
-          throw new WorkflowSyntaxError('Value not supported', value.loc)
+          throw new WorkflowSyntaxError(
+            'Value not supported',
+            value.loc,
+            'TS2WF1008',
+          )
         }
 
         return [keyPrimitive, convertExpression(value)]
@@ -188,6 +215,7 @@ function convertBinaryExpression(
       throw new WorkflowSyntaxError(
         `Unsupported binary operator: ${instance.operator}`,
         instance.loc,
+        'TS2WF1010',
       )
   }
 
@@ -215,6 +243,7 @@ function convertUnaryExpression(
     throw new WorkflowSyntaxError(
       'only prefix unary operators are supported',
       instance.loc,
+      'TS2WF1010',
     )
   }
 
@@ -248,6 +277,7 @@ function convertUnaryExpression(
       throw new WorkflowSyntaxError(
         `Unsupported unary operator: ${instance.operator}`,
         instance.loc,
+        'TS2WF1010',
       )
   }
 
@@ -333,10 +363,25 @@ function chainExpressionToFlatArray(
     case AST_NODE_TYPES.TSSatisfiesExpression:
       return chainExpressionToFlatArray(node.expression)
 
+    case AST_NODE_TYPES.CallExpression:
+      if (node.optional) {
+        throw new WorkflowSyntaxError(
+          'Optional call expressions are not supported',
+          node.loc,
+          'TS2WF1003',
+        )
+      }
+      throw new WorkflowSyntaxError(
+        'Function calls are not supported in optional chaining',
+        node.loc,
+        'TS2WF1030',
+      )
+
     default:
       throw new WorkflowSyntaxError(
         `Type ${node.type} is not supported in optional chaining`,
         node.loc,
+        'TS2WF1011',
       )
   }
 }
@@ -371,6 +416,7 @@ function optionalChainToMapGetArguments(
       throw new WorkflowSyntaxError(
         'Unexpected property in an optional chain',
         opt.property.loc,
+        'TS2WF1011',
       )
     }
   })
@@ -416,9 +462,12 @@ function convertCallExpression(
     throw new WorkflowSyntaxError(
       'Optional call expressions are not supported',
       node.loc,
+      'TS2WF1003',
     )
   }
 
+  throwIfListEntriesCall(node)
+
   const calleeExpression = convertExpression(node.callee)
   if (isQualifiedName(calleeExpression)) {
     const calleeName = expressionToString(calleeExpression)
@@ -431,19 +480,224 @@ function convertCallExpression(
         msg = `"${calleeName}" can't be called as part of an expression`
       }
 
-      throw new WorkflowSyntaxError(msg, node.callee.loc)
+      throw new WorkflowSyntaxError(msg, node.callee.loc, 'TS2WF1020')
     }
 
     const argumentExpressions = throwIfSpread(node.arguments).map(
       convertExpressionOrUndefined,
     )
 
+    if (isObjectIterationFunction(calleeName)) {
+      return convertObjectIterationCall(calleeName, argumentExpressions, node)
+    }
+
     return functionInvocationEx(calleeName, argumentExpressions)
   } else {
-    throw new WorkflowSyntaxError('Callee should be a qualified name', node.loc)
+    throw new WorkflowSyntaxError(
+      'Callee should be a qualified name',
+      node.loc,
+      'TS2WF1012',
+    )
   }
 }
 
+/**
+ * Throws if node is a call list.entries(). It is supported only as the
+ * iterable of a for...of loop, which is parsed without calling this. Only
+ * Object.entries() is converted elsewhere.
+ */
+export function throwIfListEntriesCall(node: TSESTree.CallExpression): void {
+  if (
+    node.arguments.length === 0 &&
+    node.callee.type === AST_NODE_TYPES.MemberExpression &&
+    !node.callee.computed &&
+    node.callee.property.type === AST_NODE_TYPES.Identifier &&
+    node.callee.property.name === 'entries' &&
+    !(
+      node.callee.object.type === AST_NODE_TYPES.Identifier &&
+      node.callee.object.name === 'Object'
+    )
+  ) {
+    throw new WorkflowSyntaxError(
+      'entries() is supported only as the iterable of a for...of loop: for (const [i, x] of list.entries())',
+      node.loc,
+      'TS2WF1012',
+    )
+  }
+}
+
+export function isObjectIterationFunction(calleeName: string): boolean {
+  return ['Object.keys', 'Object.values', 'Object.entries'].includes(calleeName)
+}
+
+/**
+ * Object.keys(m) is converted to keys(m). Object.values(m) and
+ * Object.entries(m) are kept as they are and later expanded into loops by
+ * transformAST(). The loops are executed before the statement, and therefore
+ * the calls can't be evaluated conditionally.
+ */
+function convertObjectIterationCall(
+  calleeName: string,
+  argumentExpressions: (Expression | undefined)[],
+  node: TSESTree.CallExpression,
+): FunctionInvocationExpression {
+  const [map] = argumentExpressions
+  if (argumentExpressions.length !== 1 || map === undefined) {
+    throw new WorkflowSyntaxError(
+      `${calleeName}() expects exactly one argument`,
+      node.loc,
+      'TS2WF1012',
+    )
+  }
+
+  if (calleeName === 'Object.keys') {
+    return functionInvocationEx('keys', [map])
+  } else {
+    throwIfConditionallyEvaluated(node, `${calleeName}()`)
+    throwIfInElseIfTest(node, `${calleeName}()`)
+    return functionInvocationEx(calleeName, [map])
+  }
+}
+
+/**
+ * Update expressions inside an expression are executed before the statement
+ * that contains them. Throws if that would change the result: if the update
+ * is evaluated only conditionally or if the updated variable is referenced
+ * elsewhere in the same expression (i + i++).
+ */
+function throwIfUpdateIsReordered(node: TSESTree.UpdateExpression): void {
+  throwIfConditionallyEvaluated(node, 'An update expression')
+  throwIfInElseIfTest(node, 'An update expression')
+
+  let updated: TSESTree.Node = node.argument
+  while (updated.type === AST_NODE_TYPES.MemberExpression) {
+    updated = updated.object
+  }
+  if (updated.type !== AST_NODE_TYPES.Identifier) {
+    return
+  }
+
+  const variableName = updated.name
+  let referenced = false
+  simpleTraverse(expressionRoot(node), {
+    enter: (n, parent) => {
+      if (
+        n !== updated &&
+        n.type === AST_NODE_TYPES.Identifier &&
+        n.name === variableName &&
+        !isPropertyName(n, parent)
+      ) {
+        referenced = true
+      }
+    },
+  })
+
+  if (referenced) {
+    throw new WorkflowSyntaxError(
+      `"${variableName}" can't be referenced in the same expression where it is updated`,
+      node.loc,
+      'TS2WF1029',
+    )
+  }
+}
+
+/**
+ * Throws if node is inside an operand that Javascript evaluates only
+ * conditionally: the right-hand side of &&, || or ?? or a branch of a
+ * conditional expression. Used for expressions that are executed as separate
+ * steps before the statement.
+ */
+function throwIfConditionallyEvaluated(
+  node: TSESTree.Node,
+  description: string,
+): void {
+  let current = node
+  while (current.parent && isPartOfExpression(current.parent)) {
+    const parent = current.parent
+    if (
+      (parent.type === AST_NODE_TYPES.LogicalExpression &&
+        parent.right === current) ||
+      (parent.type === AST_NODE_TYPES.ConditionalExpression &&
+        parent.test !== current)
+    ) {
+      throw new WorkflowSyntaxError(
+        `${description} can't be evaluated conditionally inside ${parent.type === AST_NODE_TYPES.LogicalExpression ? `the right-hand side of ${parent.operator}` : 'a conditional expression'}`,
+        node.loc,
+        'TS2WF1029',
+      )
+    }
+
+    current = parent
+  }
+}
+
+// The outermost node of the expression that contains node
+/**
+ * Throws if node is in the condition of an else if branch. The steps
+ * executed before the statement would run before the whole if statement, also
+ * when an earlier branch is taken.
+ */
+function throwIfInElseIfTest(node: TSESTree.Node, description: string): void {
+  const root = expressionRoot(node)
+  const ifStatement = root.parent
+
+  if (
+    ifStatement?.type === AST_NODE_TYPES.IfStatement &&
+    ifStatement.test === root &&
+    ifStatement.parent.type === AST_NODE_TYPES.IfStatement &&
+    ifStatement.parent.alternate === ifStatement
+  ) {
+    throw new WorkflowSyntaxError(
+      `${description} can't be evaluated in the condition of an else if branch`,
+      node.loc,
+      'TS2WF1029',
+    )
+  }
+}
+
+function expressionRoot(node: TSESTree.Node): TSESTree.Node {
+  let current = node
+  while (current.parent && isPartOfExpression(current.parent)) {
+    current = current.parent
+  }
+
+  return current
+}
+
+function isPartOfExpression(node: TSESTree.Node): boolean {
+  switch (node.type) {
+    case AST_NODE_TYPES.ArrowFunctionExpression:
+    case AST_NODE_TYPES.FunctionExpression:
+    case AST_NODE_TYPES.SequenceExpression:
+      return false
+
+    case AST_NODE_TYPES.Property:
+    case AST_NODE_TYPES.SpreadElement:
+    case AST_NODE_TYPES.TemplateLiteral:
+    case AST_NODE_TYPES.VariableDeclarator:
+      return true
+
+    default:
+      return node.type.endsWith('Expression')
+  }
+}
+
+// True if the identifier is a property name in a.name or { name: value }
+function isPropertyName(
+  node: TSESTree.Identifier,
+  parent: TSESTree.Node | undefined,
+): boolean {
+  return (
+    (parent?.type === AST_NODE_TYPES.MemberExpression &&
+      parent.property === node &&
+      !parent.computed) ||
+    (parent?.type === AST_NODE_TYPES.Property &&
+      parent.key === node &&
+      !parent.computed &&
+      !parent.shorthand)
+  )
+}
+
 function convertExpressionOrUndefined(
   instance: TSESTree.Expression,
 ): Expression | undefined {
@@ -525,6 +779,7 @@ export function throwIfSpread<
     throw new WorkflowSyntaxError(
       'The spread syntax is not supported',
       unsupported.loc,
+      'TS2WF1013',
     )
   }
 
@@ -539,7 +794,11 @@ export function throwIfPrivateIdentifier(
   prop: TSESTree.Expression | TSESTree.PrivateIdentifier,
 ): TSESTree.Expression {
   if (prop.type === AST_NODE_TYPES.PrivateIdentifier) {
-    throw new WorkflowSyntaxError('Private identifier not supported', prop.loc)
+    throw new WorkflowSyntaxError(
+      'Private identifier not supported',
+      prop.loc,
+      'TS2WF1014',
+    )
   }
 
   return prop
@@ -554,6 +813,7 @@ export function convertAssignmentTarget(
     throw new WorkflowSyntaxError(
       'An assignment taget must be an identifer or a member expression',
       node.loc,
+      'TS2WF1015',
     )
   }
 
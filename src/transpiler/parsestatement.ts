@@ -1,5 +1,9 @@
 import * as R from 'ramda'
-import { AST_NODE_TYPES, TSESTree } from '@typescript-eslint/typescript-estree'
+import {
+  AST_NODE_TYPES,
+  simpleTraverse,
+  TSESTree,
+} from '@typescript-eslint/typescript-estree'
 import {
   BinaryOperator,
   Expression,
@@ -42,8 +46,9 @@ import {
   BreakStatement,
   ContinueStatement,
   SwitchStatement,
+  withSource,
 } from '../ast/statements.js'
-import { WorkflowSyntaxError } from '../errors.js'
+import { recoverSyntaxError, WorkflowSyntaxError } from '../errors.js'
 import {
   convertExpression,
   convertMemberExpression,
@@ -52,34 +57,128 @@ import {
   throwIfSpread,
   isIntrinsicStatement,
   convertAssignmentTarget,
+  isObjectIterationFunction,
+  throwIfListEntriesCall,
 } from './parseexpressions.js'
 import { blockingFunctions } from './generated/functionMetadata.js'
+import { extractSideEffectsFromMemberExpression } from './transformations.js'
+import { extractStepTags, LeadingComments } from './comments.js'
 
 export interface ParsingContext {
   // parallelNestingLevel is the current nesting level of parallel statements.
   // Used for naming temporary variables inside parallel branches.
   readonly parallelNestingLevel?: number
+  // loopNestingLevel is the number of enclosing for...of loops. Used for
+  // naming the temporary loop variables of destructuring loops.
+  readonly loopNestingLevel?: number
+  // syntaxErrors collects the errors found so far. If this is defined, the
+  // parsing continues on the next statement after an error. Otherwise, the
+  // first error is thrown.
+  readonly syntaxErrors?: WorkflowSyntaxError[]
+  // leadingComments returns the comments preceding a node. If this is not
+  // defined, the comments are not included in the IR.
+  readonly leadingComments?: LeadingComments
+  // stepNames collects the step names given by labels and @step tags in the
+  // current subworkflow and their source code locations. Used for detecting
+  // duplicate step names. If this is not defined, the names are not checked.
+  readonly stepNames?: Map<string, TSESTree.SourceLocation>
 }
 
+/**
+ * Convert a Typescript statement to IR statements.
+ *
+ * The returned statements carry the source code location of the node (or of
+ * a nested node they were parsed from). The comments preceding the node are
+ * attached to the first returned statement.
+ */
 export function parseStatement(
   node: TSESTree.Statement,
   ctx: ParsingContext,
+): WorkflowStatement[] {
+  const { stepNames, comments } = extractStepTags(ctx.leadingComments?.(node))
+  const stepName = validateStepTags(node, stepNames, ctx)
+  const statements = withSource(convertStatement(node, ctx), {
+    loc: node.loc,
+    comments,
+  })
+
+  // A statement tagged with "@step name" is treated like a labelled statement
+  return stepName !== undefined
+    ? withSource([new LabelledStatement(stepName, statements)], {
+        loc: node.loc,
+      })
+    : statements
+}
+
+// Returns the step name given by a @step tag or undefined if the statement
+// doesn't have a @step tag
+function validateStepTags(
+  node: TSESTree.Statement,
+  stepNames: string[],
+  ctx: ParsingContext,
+): string | undefined {
+  if (stepNames.length === 0) {
+    return undefined
+  } else if (stepNames.length > 1) {
+    throw new WorkflowSyntaxError(
+      'A statement can have only one @step tag',
+      node.loc,
+      'TS2WF1027',
+    )
+  } else if (node.type === AST_NODE_TYPES.LabeledStatement) {
+    throw new WorkflowSyntaxError(
+      'A labelled statement can not have a @step tag. Use either the label or the @step tag',
+      node.loc,
+      'TS2WF1027',
+    )
+  }
+
+  const [stepName] = stepNames
+  if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(stepName)) {
+    throw new WorkflowSyntaxError(
+      `Invalid step name "${stepName}" in a @step tag. A step name must consist of letters, digits and underscores`,
+      node.loc,
+      'TS2WF1027',
+    )
+  }
+
+  registerStepName(stepName, node.loc, ctx)
+
+  return stepName
+}
+
+// Record a user-given step name. Throws if the name is already used in the
+// current subworkflow.
+function registerStepName(
+  stepName: string,
+  loc: TSESTree.SourceLocation,
+  ctx: ParsingContext,
+): void {
+  const previous = ctx.stepNames?.get(stepName)
+  if (previous) {
+    throw new WorkflowSyntaxError(
+      `Duplicate step name "${stepName}". The name is already used on line ${previous.start.line}`,
+      loc,
+      'TS2WF1028',
+    )
+  }
+
+  ctx.stepNames?.set(stepName, loc)
+}
+
+function convertStatement(
+  node: TSESTree.Statement,
+  ctx: ParsingContext,
 ): WorkflowStatement[] {
   switch (node.type) {
     case AST_NODE_TYPES.BlockStatement:
-      return node.body.flatMap((node) => parseStatement(node, ctx))
+      return parseStatementList(node.body, ctx)
 
     case AST_NODE_TYPES.VariableDeclaration:
       return convertVariableDeclarations(node, ctx)
 
     case AST_NODE_TYPES.ExpressionStatement:
-      if (node.expression.type === AST_NODE_TYPES.AssignmentExpression) {
-        return assignmentExpressionToStatement(node.expression, ctx)
-      } else if (node.expression.type === AST_NODE_TYPES.CallExpression) {
-        return callExpressionToStatement(node.expression, undefined, ctx)
-      } else {
-        return [generalExpressionToAssignment(node.expression, ctx)]
-      }
+      return expressionToStatements(node.expression, ctx)
 
     case AST_NODE_TYPES.ReturnStatement:
       return [createReturnStatement(node)]
@@ -94,16 +193,10 @@ export function parseStatement(
       return createSwitchStatement(node, ctx)
 
     case AST_NODE_TYPES.ForStatement:
-      throw new WorkflowSyntaxError(
-        'for is not a supported construct. Use for...of.',
-        node.loc,
-      )
+      return createForStatement(node, ctx)
 
     case AST_NODE_TYPES.ForInStatement:
-      throw new WorkflowSyntaxError(
-        'for...in is not a supported construct. Use for...of.',
-        node.loc,
-      )
+      return [createForInStatement(node, ctx)]
 
     case AST_NODE_TYPES.ForOfStatement:
       return [createForOfStatement(node, ctx)]
@@ -124,7 +217,7 @@ export function parseStatement(
       return createTryStatement(node, ctx)
 
     case AST_NODE_TYPES.LabeledStatement:
-      return [createLabeledStatement(node, ctx)]
+      return createLabeledStatement(node, ctx)
 
     case AST_NODE_TYPES.EmptyStatement:
       return []
@@ -133,6 +226,7 @@ export function parseStatement(
       throw new WorkflowSyntaxError(
         'Functions must be defined at the top level of a source file',
         node.loc,
+        'TS2WF1017',
       )
 
     case AST_NODE_TYPES.DebuggerStatement:
@@ -143,10 +237,47 @@ export function parseStatement(
       return []
 
     default:
-      throw new WorkflowSyntaxError(`${node.type} is not supported`, node.loc)
+      throw new WorkflowSyntaxError(
+        `${node.type} is not supported`,
+        node.loc,
+        'TS2WF1018',
+      )
   }
 }
 
+/**
+ * Convert an expression evaluated for its side effects to IR statements.
+ */
+function expressionToStatements(
+  node: TSESTree.Expression,
+  ctx: ParsingContext,
+): WorkflowStatement[] {
+  if (node.type === AST_NODE_TYPES.AssignmentExpression) {
+    return assignmentExpressionToStatement(node, ctx)
+  } else if (node.type === AST_NODE_TYPES.CallExpression) {
+    return callExpressionToStatement(node, undefined, ctx)
+  } else if (node.type === AST_NODE_TYPES.UpdateExpression) {
+    return updateExpressionToStatements(node, ctx)
+  } else {
+    return [generalExpressionToAssignment(node, ctx)]
+  }
+}
+
+/**
+ * Parse a list of statements.
+ *
+ * A statement that has a syntax error is skipped if ctx.syntaxErrors is
+ * defined. The error is recorded and the parsing continues.
+ */
+function parseStatementList(
+  nodes: TSESTree.Statement[],
+  ctx: ParsingContext,
+): WorkflowStatement[] {
+  return nodes.flatMap((node) =>
+    recoverSyntaxError(ctx.syntaxErrors, [], () => parseStatement(node, ctx)),
+  )
+}
+
 function convertVariableDeclarations(
   node: TSESTree.LetOrConstOrVarDeclaration | TSESTree.UsingDeclaration,
   ctx: ParsingContext,
@@ -155,6 +286,7 @@ function convertVariableDeclarations(
     throw new WorkflowSyntaxError(
       'Only const and let variable declarations are supported',
       node.loc,
+      'TS2WF1019',
     )
   }
 
@@ -184,6 +316,7 @@ function convertInitializer(
       throw new WorkflowSyntaxError(
         `"${calleeName}" can't be called as part of an expression`,
         initializer.callee.loc,
+        'TS2WF1020',
       )
     }
 
@@ -306,6 +439,7 @@ function arrayElementsDestructuringStatements(
           throw new WorkflowSyntaxError(
             'Default value can be used only with an identifier',
             pat.left.loc,
+            'TS2WF1021',
           )
         }
 
@@ -352,6 +486,7 @@ function extractDefaultAssignmentsFromDestructuringPattern(
         throw new WorkflowSyntaxError(
           'Default value can be used only with an identifier',
           pat.left.loc,
+          'TS2WF1021',
         )
       }
 
@@ -372,7 +507,11 @@ function extractDefaultAssignmentsFromDestructuringPattern(
       return pat.properties.flatMap((p) => {
         if (p.type === AST_NODE_TYPES.RestElement) {
           if (p.argument.type !== AST_NODE_TYPES.Identifier) {
-            throw new WorkflowSyntaxError('Identifier expected', p.argument.loc)
+            throw new WorkflowSyntaxError(
+              'Identifier expected',
+              p.argument.loc,
+              'TS2WF1021',
+            )
           }
 
           return [{ name: variableReferenceEx(p.argument.name), value: nullEx }]
@@ -388,13 +527,18 @@ function extractDefaultAssignmentsFromDestructuringPattern(
           throw new WorkflowSyntaxError(
             'Destructuring pattern expected',
             p.value.loc,
+            'TS2WF1021',
           )
         }
       })
 
     case AST_NODE_TYPES.RestElement:
       if (pat.argument.type !== AST_NODE_TYPES.Identifier) {
-        throw new WorkflowSyntaxError('Identifier expected', pat.argument.loc)
+        throw new WorkflowSyntaxError(
+          'Identifier expected',
+          pat.argument.loc,
+          'TS2WF1021',
+        )
       }
 
       return [
@@ -415,6 +559,7 @@ function throwIfInvalidRestElement(
     throw new WorkflowSyntaxError(
       'A rest element must be last in a destructuring pattern',
       patterns[i]!.loc,
+      'TS2WF1021',
     )
   }
 }
@@ -429,7 +574,11 @@ function arrayRestDestructuringStatements(
   throwIfInvalidRestElement(patterns)
 
   if (rest.argument.type !== AST_NODE_TYPES.Identifier) {
-    throw new WorkflowSyntaxError('Identifier expected', rest.argument.loc)
+    throw new WorkflowSyntaxError(
+      'Identifier expected',
+      rest.argument.loc,
+      'TS2WF1021',
+    )
   }
 
   const restName = variableReferenceEx(rest.argument.name)
@@ -511,7 +660,11 @@ function objectDestructuringStatements(
     }
 
     if (prop.key.type !== AST_NODE_TYPES.Identifier) {
-      throw new WorkflowSyntaxError('Identifier expected', prop.key.loc)
+      throw new WorkflowSyntaxError(
+        'Identifier expected',
+        prop.key.loc,
+        'TS2WF1021',
+      )
     }
 
     const keyExpression = memberEx(
@@ -556,6 +709,7 @@ function objectDestructuringStatements(
       throw new WorkflowSyntaxError(
         `${prop.value.type} is not allowed in object destructuring`,
         prop.value.loc,
+        'TS2WF1021',
       )
     }
   })
@@ -570,6 +724,7 @@ function objectAssignmentPatternStatements(
     throw new WorkflowSyntaxError(
       'Default value can be used only with an identifier',
       pat.left.loc,
+      'TS2WF1021',
     )
   }
 
@@ -604,7 +759,11 @@ function objectDestructuringRestStatements(
   throwIfInvalidRestElement(properties)
 
   if (rest.argument.type !== AST_NODE_TYPES.Identifier) {
-    throw new WorkflowSyntaxError('Identifier expected', rest.argument.loc)
+    throw new WorkflowSyntaxError(
+      'Identifier expected',
+      rest.argument.loc,
+      'TS2WF1021',
+    )
   }
 
   const nonRestProperties = properties.filter(
@@ -614,7 +773,7 @@ function objectDestructuringRestStatements(
     .map((p) => p.key)
     .map((k) => {
       if (k.type !== AST_NODE_TYPES.Identifier) {
-        throw new WorkflowSyntaxError('Identifier expected', k.loc)
+        throw new WorkflowSyntaxError('Identifier expected', k.loc, 'TS2WF1021')
       }
 
       return k.name
@@ -673,6 +832,7 @@ function assignmentExpressionToStatement(
       throw new WorkflowSyntaxError(
         `Operator ${node.operator} is not supported in assignment expressions`,
         node.loc,
+        'TS2WF1010',
       )
   }
 
@@ -761,6 +921,27 @@ function compoundAssignmentStatements(
   return statements
 }
 
+// x++, ++x, x-- or --x as a statement
+function updateExpressionToStatements(
+  node: TSESTree.UpdateExpression,
+  ctx: ParsingContext,
+): WorkflowStatement[] {
+  const { expression: targetExpression, statements } =
+    convertCompoundAssignmentLeftHandSide(node.argument, ctx)
+  const operator = node.operator === '++' ? '+' : '-'
+
+  statements.push(
+    new AssignStatement([
+      {
+        name: targetExpression,
+        value: binaryEx(targetExpression, operator, numberEx(1)),
+      },
+    ]),
+  )
+
+  return statements
+}
+
 function convertCompoundAssignmentLeftHandSide(
   left: TSESTree.Expression,
   ctx: ParsingContext,
@@ -769,10 +950,10 @@ function convertCompoundAssignmentLeftHandSide(
   statements: WorkflowStatement[]
 } {
   const leftEx = convertAssignmentTarget(left)
+  let tempIndex = 0
   const { transformed, assignments } = extractSideEffectsFromMemberExpression(
     leftEx,
-    tempName(ctx),
-    0,
+    () => `${tempName(ctx)}${tempIndex++}`,
   )
 
   return {
@@ -782,61 +963,6 @@ function convertCompoundAssignmentLeftHandSide(
   }
 }
 
-/**
- * Extract side-effecting computed properties into temporary variable assignments.
- *
- * This is used on the left-hand side of a compound assignment expression, which
- * should only be evaluted once.
- */
-function extractSideEffectsFromMemberExpression(
-  ex: MemberExpression | VariableReferenceExpression,
-  tempPrefix: string,
-  tempIndex: number,
-): {
-  transformed: MemberExpression | VariableReferenceExpression
-  assignments: VariableAssignment[]
-} {
-  if (ex.tag === 'member' && ex.computed && !isPrimitive(ex.property)) {
-    // property potentially has side effects. Move to a temp variable for safety.
-    let transformedObject: Expression
-    let objectAssignments: VariableAssignment[]
-
-    if (ex.object.tag === 'member') {
-      const object2 = extractSideEffectsFromMemberExpression(
-        ex.object,
-        tempPrefix,
-        tempIndex + 1,
-      )
-      transformedObject = object2.transformed
-      objectAssignments = object2.assignments
-    } else {
-      transformedObject = ex.object
-      objectAssignments = []
-    }
-
-    const tmp = variableReferenceEx(`${tempPrefix}${tempIndex}`)
-    const transformed = memberEx(transformedObject, tmp, true)
-    const assignments = objectAssignments
-    assignments.push({
-      name: tmp,
-      value: ex.property,
-    })
-
-    return { transformed, assignments }
-  } else if (ex.tag === 'member' && ex.object.tag === 'member') {
-    const { transformed: object2, assignments } =
-      extractSideEffectsFromMemberExpression(ex.object, tempPrefix, tempIndex)
-    const transformed = memberEx(object2, ex.property, ex.computed)
-
-    return { transformed, assignments }
-  } else {
-    return {
-      transformed: ex,
-      assignments: [],
-    }
-  }
-}
-
 /**
  * Special case for handling call_step() RHS in assignment expressions.
  */
@@ -852,6 +978,7 @@ function convertAssignmentExpressionIntrinsicRHS(
     throw new WorkflowSyntaxError(
       `"${calleeName}" can't be called as part of an expression`,
       callEx.callee.loc,
+      'TS2WF1020',
     )
   }
 
@@ -868,6 +995,8 @@ function callExpressionToStatement(
   resultVariable: string | undefined,
   ctx: ParsingContext,
 ): WorkflowStatement[] {
+  throwIfListEntriesCall(node)
+
   const calleeExpression = convertExpression(node.callee)
   if (isQualifiedName(calleeExpression)) {
     const calleeName = expressionToString(calleeExpression)
@@ -890,6 +1019,10 @@ function callExpressionToStatement(
           resultVariable,
         ),
       ]
+    } else if (isObjectIterationFunction(calleeName)) {
+      const name = variableReferenceEx(resultVariable ?? tempName(ctx))
+
+      return [new AssignStatement([{ name, value: convertExpression(node) }])]
     } else {
       const resultVariable2 = resultVariable ?? tempName(ctx)
 
@@ -901,6 +1034,7 @@ function callExpressionToStatement(
     throw new WorkflowSyntaxError(
       'Expeced a subworkflow or a standard library function name',
       node.callee.loc,
+      'TS2WF1012',
     )
   }
 }
@@ -930,6 +1064,7 @@ function createCallStatement(
     throw new WorkflowSyntaxError(
       'The first argument must be a Function',
       node.loc,
+      'TS2WF1022',
     )
   }
 
@@ -947,6 +1082,7 @@ function createCallStatement(
       throw new WorkflowSyntaxError(
         'Function name must be a qualified name',
         argNode.loc,
+        'TS2WF1022',
       )
     }
 
@@ -955,6 +1091,7 @@ function createCallStatement(
     throw new WorkflowSyntaxError(
       'Expected an identifier or a member expression',
       argNode.loc,
+      'TS2WF1022',
     )
   }
 
@@ -964,6 +1101,7 @@ function createCallStatement(
       throw new WorkflowSyntaxError(
         'The second argument must be a map literal',
         argumentsNode[1].loc,
+        'TS2WF1022',
       )
     }
 
@@ -1032,12 +1170,17 @@ function createParallelStatement(
       )
 
     case undefined:
-      throw new WorkflowSyntaxError('At least one argument required', loc)
+      throw new WorkflowSyntaxError(
+        'At least one argument required',
+        loc,
+        'TS2WF1023',
+      )
 
     default:
       throw new WorkflowSyntaxError(
         'The first parameter must be an array of functions or an arrow function',
         args[0].loc,
+        'TS2WF1023',
       )
   }
 }
@@ -1056,6 +1199,7 @@ function parseParallelBranches(
           throw new WorkflowSyntaxError(
             'The body must be a block statement',
             arg.body.loc,
+            'TS2WF1023',
           )
         }
 
@@ -1063,6 +1207,7 @@ function parseParallelBranches(
           throw new WorkflowSyntaxError(
             'Parallel functions must not take arguments',
             arg.params[0].loc,
+            'TS2WF1023',
           )
         }
 
@@ -1072,6 +1217,7 @@ function parseParallelBranches(
         throw new WorkflowSyntaxError(
           'Argument should be a function of type () => void',
           arg ? arg.loc : node.loc,
+          'TS2WF1023',
         )
     }
   })
@@ -1094,6 +1240,7 @@ function parseParallelIteration(
     throw new WorkflowSyntaxError(
       'The parallel function body must be a single for...of statement',
       node.body.loc,
+      'TS2WF1023',
     )
   }
 
@@ -1111,6 +1258,7 @@ function parseParallelOptions(
     throw new WorkflowSyntaxError(
       'The second parameter must be an object',
       node.loc,
+      'TS2WF1023',
     )
   }
 
@@ -1121,6 +1269,7 @@ function parseParallelOptions(
     throw new WorkflowSyntaxError(
       '"shared" must be an array of strings',
       node.loc,
+      'TS2WF1023',
     )
   }
 
@@ -1129,6 +1278,7 @@ function parseParallelOptions(
       throw new WorkflowSyntaxError(
         '"shared" must be an array of strings',
         node.loc,
+        'TS2WF1023',
       )
     }
 
@@ -1143,6 +1293,7 @@ function parseParallelOptions(
     throw new WorkflowSyntaxError(
       '"concurrency_limit" must be a number',
       node.loc,
+      'TS2WF1023',
     )
   }
 
@@ -1151,6 +1302,7 @@ function parseParallelOptions(
     throw new WorkflowSyntaxError(
       '"exception_policy" must be a string',
       node.loc,
+      'TS2WF1023',
     )
   }
 
@@ -1231,7 +1383,7 @@ function createSwitchStatement(
       condition = trueEx
     }
 
-    const body = switchCase.consequent.flatMap((x) => parseStatement(x, ctx))
+    const body = parseStatementList(switchCase.consequent, ctx)
 
     return { condition, body }
   })
@@ -1246,36 +1398,546 @@ function createForOfStatement(
   const bodyCtx = Object.assign({}, ctx, {
     continueTarget: undefined,
     breakTarget: undefined,
+    loopNestingLevel: (ctx.loopNestingLevel ?? 0) + 1,
   })
-  const statements = parseStatement(node.body, bodyCtx)
+  const body = parseStatement(node.body, bodyCtx)
+  const head = forLoopHead(node.left)
+  const loop =
+    mapIterationLoop(head, node.right, ctx) ??
+    listIterationLoop(head, node.right, ctx)
+
+  return new ForStatement(
+    [...loop.prologue, ...body],
+    loop.loopVariableName,
+    loop.listExpression,
+    loop.indexVariableName,
+  )
+}
 
-  let loopVariableName: string
-  if (node.left.type === AST_NODE_TYPES.Identifier) {
-    loopVariableName = node.left.name
-  } else if (
-    node.left.type === AST_NODE_TYPES.VariableDeclaration &&
-    node.left.declarations.length >= 1
-  ) {
-    const declaration = node.left.declarations[0]
-    if (declaration.id.type !== AST_NODE_TYPES.Identifier) {
+interface ForOfLoop {
+  loopVariableName: VariableName
+  indexVariableName?: VariableName
+  listExpression: Expression
+  // Statements executed at the top of the loop body. These assign the
+  // variables in the loop head.
+  prologue: WorkflowStatement[]
+}
+
+/**
+ * A loop over the elements of a list: for (const item of list) or
+ * for (const [i, item] of list.entries())
+ */
+function listIterationLoop(
+  head: TSESTree.Identifier | TSESTree.ArrayPattern | TSESTree.ObjectPattern,
+  right: TSESTree.Expression,
+  ctx: ParsingContext,
+): ForOfLoop {
+  const entriesOf = arrayEntriesIterable(right)
+
+  let valuePattern: TSESTree.DestructuringPattern | null = head
+  let indexVariableName: VariableName | undefined = undefined
+  let iterable = right
+  if (entriesOf) {
+    // for (const [i, item] of arr.entries()) is a loop with an index variable
+    if (head.type !== AST_NODE_TYPES.ArrayPattern) {
       throw new WorkflowSyntaxError(
-        `Identifier expected, got ${declaration.id.type}`,
-        declaration.id.loc,
+        'The loop variable of a loop over entries() must be an [index, item] pattern',
+        head.loc,
+        'TS2WF1024',
       )
     }
 
-    loopVariableName = declaration.id.name
+    const [indexPattern, itemPattern] = keyValuePatterns(head)
+    indexVariableName = indexPattern?.name
+    valuePattern = itemPattern
+    iterable = entriesOf
+  }
+
+  const listExpression = convertExpression(iterable)
+  if (isPrimitive(listExpression) || listExpression.tag === 'map') {
+    throw new WorkflowSyntaxError(
+      'Must be a list expression',
+      iterable.loc,
+      'TS2WF1024',
+    )
+  }
+
+  if (valuePattern?.type === AST_NODE_TYPES.Identifier) {
+    return {
+      loopVariableName: valuePattern.name,
+      indexVariableName,
+      listExpression,
+      prologue: [],
+    }
   } else {
-    throw new WorkflowSyntaxError('Unsupported initializer', node.left.loc)
+    // Destructuring patterns are assigned from a temporary loop variable
+    const loopVariableName = tempLoopVariableName(ctx)
+
+    return {
+      loopVariableName,
+      indexVariableName,
+      listExpression,
+      prologue: loopHeadAssignments(
+        valuePattern,
+        variableReferenceEx(loopVariableName),
+        ctx,
+      ),
+    }
   }
+}
 
-  const listExpression = convertExpression(node.right)
+/**
+ * A loop over the keys of a map: for (const [key, value] of Object.entries(m))
+ * or for (const value of Object.values(m)). The values are read from the map
+ * in the loop body so that the entries are not collected into a list.
+ *
+ * Returns undefined if right is not a call to Object.entries() or
+ * Object.values() on a map variable.
+ */
+function mapIterationLoop(
+  head: TSESTree.Identifier | TSESTree.ArrayPattern | TSESTree.ObjectPattern,
+  right: TSESTree.Expression,
+  ctx: ParsingContext,
+): ForOfLoop | undefined {
+  const call = objectStaticCall(right)
+  if (
+    (call?.methodName !== 'entries' && call?.methodName !== 'values') ||
+    call.args.length !== 1 ||
+    call.args[0].type === AST_NODE_TYPES.SpreadElement
+  ) {
+    return undefined
+  }
 
-  if (isPrimitive(listExpression) || listExpression.tag === 'map') {
-    throw new WorkflowSyntaxError('Must be a list expression', node.right.loc)
+  const map = convertExpression(call.args[0])
+  if (!isQualifiedName(map)) {
+    return undefined
   }
 
-  return new ForStatement(statements, loopVariableName, listExpression)
+  let keyPattern: TSESTree.Identifier | null = null
+  let valuePattern: TSESTree.DestructuringPattern | null = head
+  if (call.methodName === 'entries') {
+    if (head.type !== AST_NODE_TYPES.ArrayPattern) {
+      return undefined
+    }
+
+    ;[keyPattern, valuePattern] = keyValuePatterns(head)
+  }
+
+  const loopVariableName = keyPattern?.name ?? tempLoopVariableName(ctx)
+  const value = memberEx(map, variableReferenceEx(loopVariableName), true)
+
+  return {
+    loopVariableName,
+    listExpression: functionInvocationEx('keys', [map]),
+    prologue: loopHeadAssignments(valuePattern, value, ctx),
+  }
+}
+
+// Returns arr in arr.entries(), otherwise undefined
+function arrayEntriesIterable(
+  node: TSESTree.Expression,
+): TSESTree.Expression | undefined {
+  if (
+    node.type !== AST_NODE_TYPES.CallExpression ||
+    node.arguments.length !== 0 ||
+    node.callee.type !== AST_NODE_TYPES.MemberExpression ||
+    node.callee.computed ||
+    node.callee.property.type !== AST_NODE_TYPES.Identifier ||
+    node.callee.property.name !== 'entries' ||
+    objectStaticCall(node) !== undefined
+  ) {
+    return undefined
+  }
+
+  return node.callee.object
+}
+
+// Returns the method name and the arguments of a call Object.method(...args),
+// otherwise undefined
+function objectStaticCall(
+  node: TSESTree.Expression,
+): { methodName: string; args: TSESTree.CallExpressionArgument[] } | undefined {
+  if (
+    node.type !== AST_NODE_TYPES.CallExpression ||
+    node.callee.type !== AST_NODE_TYPES.MemberExpression ||
+    node.callee.computed ||
+    node.callee.object.type !== AST_NODE_TYPES.Identifier ||
+    node.callee.object.name !== 'Object' ||
+    node.callee.property.type !== AST_NODE_TYPES.Identifier
+  ) {
+    return undefined
+  }
+
+  return { methodName: node.callee.property.name, args: node.arguments }
+}
+
+// Split the pattern [key, value] in the head of a loop over entries
+function keyValuePatterns(
+  pattern: TSESTree.ArrayPattern,
+): [TSESTree.Identifier | null, TSESTree.DestructuringPattern | null] {
+  const [keyPattern = null, valuePattern = null, ...rest] = pattern.elements
+  if (
+    rest.length > 0 ||
+    (keyPattern !== null && keyPattern.type !== AST_NODE_TYPES.Identifier)
+  ) {
+    throw new WorkflowSyntaxError(
+      'Expected [key, value] pattern in a loop over entries',
+      pattern.loc,
+      'TS2WF1024',
+    )
+  }
+
+  return [keyPattern, valuePattern]
+}
+
+// Assign value to the variables in the pattern of a loop head
+function loopHeadAssignments(
+  pattern: TSESTree.DestructuringPattern | null,
+  value: Expression,
+  ctx: ParsingContext,
+): WorkflowStatement[] {
+  if (pattern === null) {
+    return []
+  } else if (pattern.type === AST_NODE_TYPES.Identifier) {
+    return [
+      new AssignStatement([{ name: variableReferenceEx(pattern.name), value }]),
+    ]
+  } else if (pattern.type === AST_NODE_TYPES.ObjectPattern) {
+    return objectDestructuringStatements(pattern.properties, value, ctx)
+  } else if (pattern.type === AST_NODE_TYPES.ArrayPattern) {
+    return arrayDestructuringStatements(pattern.elements, value, ctx)
+  } else {
+    throw new WorkflowSyntaxError(
+      'Unsupported loop variable',
+      pattern.loc,
+      'TS2WF1024',
+    )
+  }
+}
+
+// Nested loops need distinct temporary loop variables
+function tempLoopVariableName(ctx: ParsingContext): VariableName {
+  return `${tempName(ctx)}_item${ctx.loopNestingLevel ?? 0}`
+}
+
+/**
+ * Convert a for...in loop to a for loop over the keys of a map.
+ */
+function createForInStatement(
+  node: TSESTree.ForInStatement,
+  ctx: ParsingContext,
+): ForStatement {
+  const statements = parseStatement(node.body, ctx)
+  const loopVariableName = forLoopVariableName(node.left)
+  const mapExpression = convertExpression(node.right)
+
+  if (isPrimitive(mapExpression) || mapExpression.tag === 'list') {
+    throw new WorkflowSyntaxError(
+      'Must be a map expression',
+      node.right.loc,
+      'TS2WF1024',
+    )
+  }
+
+  return new ForStatement(
+    statements,
+    loopVariableName,
+    functionInvocationEx('keys', [mapExpression]),
+  )
+}
+
+// The loop variable or the destructuring pattern in for...of or for...in
+function forLoopHead(
+  left: TSESTree.ForInStatement['left'] | TSESTree.ForOfStatement['left'],
+): TSESTree.Identifier | TSESTree.ArrayPattern | TSESTree.ObjectPattern {
+  if (
+    left.type === AST_NODE_TYPES.Identifier ||
+    left.type === AST_NODE_TYPES.ArrayPattern ||
+    left.type === AST_NODE_TYPES.ObjectPattern
+  ) {
+    return left
+  } else if (
+    left.type === AST_NODE_TYPES.VariableDeclaration &&
+    left.declarations.length >= 1
+  ) {
+    return left.declarations[0].id
+  } else {
+    throw new WorkflowSyntaxError(
+      'Unsupported initializer',
+      left.loc,
+      'TS2WF1024',
+    )
+  }
+}
+
+// The name of the loop variable in for...in
+function forLoopVariableName(
+  left: TSESTree.ForInStatement['left'],
+): VariableName {
+  const head = forLoopHead(left)
+  if (head.type !== AST_NODE_TYPES.Identifier) {
+    throw new WorkflowSyntaxError(
+      `Identifier expected, got ${head.type}`,
+      head.loc,
+      'TS2WF1024',
+    )
+  }
+
+  return head.name
+}
+
+/**
+ * Convert a for(;;) loop.
+ *
+ * A counting loop, such as for (let i = a; i < b; i++), is converted to a
+ * range loop. Other loops are converted to a while loop preceded by the
+ * initializer.
+ */
+function createForStatement(
+  node: TSESTree.ForStatement,
+  ctx: ParsingContext,
+): WorkflowStatement[] {
+  const range = rangeLoopBounds(node)
+  if (range) {
+    return [
+      new ForRangeStatement(
+        parseStatement(node.body, ctx),
+        range.loopVariableName,
+        range.rangeStart,
+        range.rangeEnd,
+      ),
+    ]
+  }
+
+  let init: WorkflowStatement[] = []
+  if (node.init?.type === AST_NODE_TYPES.VariableDeclaration) {
+    init = convertVariableDeclarations(node.init, ctx)
+  } else if (node.init) {
+    init = forClauseToStatements(node.init, ctx)
+  }
+
+  const condition = node.test ? convertExpression(node.test) : trueEx
+  const body = parseStatement(node.body, ctx)
+  const update = node.update
+    ? forClauseToStatements(node.update, ctx)
+    : undefined
+
+  return [...init, new WhileStatement(condition, body, update)]
+}
+
+/**
+ * Returns the range of a for(;;) loop that counts up by one or undefined if
+ * the loop can't be converted to a range loop.
+ *
+ * The initializer must declare the loop variable with let, the condition must
+ * compare the loop variable to a bound (i < b or i <= b) and the update must
+ * increment the loop variable by one. An exclusive bound (i < b) is converted to
+ * the inclusive range end b - 1, which is correct only for integers. Therefore,
+ * the start and the bound of an exclusive loop must be integers. The range end
+ * is evaluated only once by Workflows. Therefore, the body must not assign the loop variable or any
+ * variable in the bound, and the bound must not call functions other than
+ * len().
+ */
+function rangeLoopBounds(node: TSESTree.ForStatement):
+  | {
+      loopVariableName: VariableName
+      rangeStart: number | Expression
+      rangeEnd: number | Expression
+    }
+  | undefined {
+  if (
+    node.init?.type !== AST_NODE_TYPES.VariableDeclaration ||
+    node.init.kind !== 'let' ||
+    node.init.declarations.length !== 1 ||
+    node.init.declarations[0].id.type !== AST_NODE_TYPES.Identifier ||
+    node.init.declarations[0].init === null ||
+    node.test?.type !== AST_NODE_TYPES.BinaryExpression ||
+    !node.update
+  ) {
+    return undefined
+  }
+
+  const loopVariableName = node.init.declarations[0].id.name
+  const isLoopVariable = (ex: TSESTree.Node) =>
+    ex.type === AST_NODE_TYPES.Identifier && ex.name === loopVariableName
+
+  let bound: TSESTree.Node
+  let inclusive: boolean
+  const { left, operator, right } = node.test
+  if (isLoopVariable(left) && (operator === '<' || operator === '<=')) {
+    bound = right
+    inclusive = operator === '<='
+  } else if (isLoopVariable(right) && (operator === '>' || operator === '>=')) {
+    bound = left
+    inclusive = operator === '>='
+  } else {
+    return undefined
+  }
+
+  const start = node.init.declarations[0].init
+  const boundVariables = referencedIdentifiers(bound)
+  if (
+    (!inclusive && !(isIntegerBound(start) && isIntegerBound(bound))) ||
+    !isIncrementByOne(node.update, loopVariableName) ||
+    !isRangeBound(bound) ||
+    boundVariables.has(loopVariableName) ||
+    assignedIdentifiers(node.body).some(
+      (name) => name === loopVariableName || boundVariables.has(name),
+    )
+  ) {
+    return undefined
+  }
+
+  const rangeStart = convertExpression(start)
+  const boundEx = convertExpression(bound as TSESTree.Expression)
+  let rangeEnd: number | Expression
+  if (inclusive) {
+    rangeEnd = boundEx
+  } else if (boundEx.tag === 'number') {
+    rangeEnd = boundEx.value - 1
+  } else {
+    rangeEnd = binaryEx(boundEx, '-', numberEx(1))
+  }
+
+  return {
+    loopVariableName,
+    rangeStart: rangeStart.tag === 'number' ? rangeStart.value : rangeStart,
+    rangeEnd,
+  }
+}
+
+// i++, ++i, i += 1 or i = i + 1
+function isIncrementByOne(
+  node: TSESTree.Expression,
+  loopVariableName: VariableName,
+): boolean {
+  const isLoopVariable = (ex: TSESTree.Node) =>
+    ex.type === AST_NODE_TYPES.Identifier && ex.name === loopVariableName
+  const isOne = (ex: TSESTree.Node) =>
+    ex.type === AST_NODE_TYPES.Literal && ex.value === 1
+
+  if (node.type === AST_NODE_TYPES.UpdateExpression) {
+    return node.operator === '++' && isLoopVariable(node.argument)
+  } else if (
+    node.type === AST_NODE_TYPES.AssignmentExpression &&
+    isLoopVariable(node.left)
+  ) {
+    return (
+      (node.operator === '+=' && isOne(node.right)) ||
+      (node.operator === '=' &&
+        node.right.type === AST_NODE_TYPES.BinaryExpression &&
+        node.right.operator === '+' &&
+        ((isLoopVariable(node.right.left) && isOne(node.right.right)) ||
+          (isOne(node.right.left) && isLoopVariable(node.right.right))))
+    )
+  } else {
+    return false
+  }
+}
+
+// An integer literal, a len() call or a sum, difference or product of them
+function isIntegerBound(node: TSESTree.Node): boolean {
+  switch (node.type) {
+    case AST_NODE_TYPES.Literal:
+      return typeof node.value === 'number' && Number.isInteger(node.value)
+
+    case AST_NODE_TYPES.UnaryExpression:
+      return node.operator === '-' && isIntegerBound(node.argument)
+
+    case AST_NODE_TYPES.BinaryExpression:
+      return (
+        (node.operator === '+' ||
+          node.operator === '-' ||
+          node.operator === '*') &&
+        isIntegerBound(node.left) &&
+        isIntegerBound(node.right)
+      )
+
+    case AST_NODE_TYPES.CallExpression:
+      return (
+        node.callee.type === AST_NODE_TYPES.Identifier &&
+        node.callee.name === 'len'
+      )
+
+    default:
+      return false
+  }
+}
+
+// A range bound can be evaluated once before the loop without changing the
+// meaning: it consists of literals, variables, operators and len() calls.
+function isRangeBound(node: TSESTree.Node): boolean {
+  switch (node.type) {
+    case AST_NODE_TYPES.Literal:
+    case AST_NODE_TYPES.Identifier:
+      return true
+
+    case AST_NODE_TYPES.MemberExpression:
+      return (
+        isRangeBound(node.object) &&
+        (!node.computed || isRangeBound(node.property))
+      )
+
+    case AST_NODE_TYPES.UnaryExpression:
+      return isRangeBound(node.argument)
+
+    case AST_NODE_TYPES.BinaryExpression:
+      return isRangeBound(node.left) && isRangeBound(node.right)
+
+    case AST_NODE_TYPES.CallExpression:
+      return (
+        node.callee.type === AST_NODE_TYPES.Identifier &&
+        node.callee.name === 'len' &&
+        node.arguments.every(isRangeBound)
+      )
+
+    default:
+      return false
+  }
+}
+
+function referencedIdentifiers(node: TSESTree.Node): Set<VariableName> {
+  const names = new Set<VariableName>()
+  simpleTraverse(node, {
+    enter: (n) => {
+      if (n.type === AST_NODE_TYPES.Identifier) {
+        names.add(n.name)
+      }
+    },
+  })
+
+  return names
+}
+
+// The variables (and object variables of member expressions) that are
+// assigned or updated somewhere in node
+function assignedIdentifiers(node: TSESTree.Node): VariableName[] {
+  const names: VariableName[] = []
+  simpleTraverse(node, {
+    enter: (n) => {
+      if (n.type === AST_NODE_TYPES.AssignmentExpression) {
+        names.push(...referencedIdentifiers(n.left))
+      } else if (n.type === AST_NODE_TYPES.UpdateExpression) {
+        names.push(...referencedIdentifiers(n.argument))
+      }
+    },
+  })
+
+  return names
+}
+
+/**
+ * Convert the initializer or update expression of a for(;;) loop.
+ */
+function forClauseToStatements(
+  node: TSESTree.Expression,
+  ctx: ParsingContext,
+): WorkflowStatement[] {
+  if (node.type === AST_NODE_TYPES.SequenceExpression) {
+    return node.expressions.flatMap((ex) => forClauseToStatements(ex, ctx))
+  } else {
+    return expressionToStatements(node, ctx)
+  }
 }
 
 function createWhileStatement(
@@ -1351,6 +2013,7 @@ function extractRetryPolicy(
         throw new WorkflowSyntaxError(
           'Required argument missing',
           statement.expression.loc,
+          'TS2WF1025',
         )
       }
 
@@ -1364,7 +2027,7 @@ function extractRetryPolicy(
       } else if (arg0.tag === 'map') {
         return retryPolicyFromParams(arg0.value, argsLoc)
       } else {
-        throw new WorkflowSyntaxError('Unexpected type', argsLoc)
+        throw new WorkflowSyntaxError('Unexpected type', argsLoc, 'TS2WF1025')
       }
     }
   }
@@ -1380,11 +2043,13 @@ function retryPolicyFromParams(
     throw new WorkflowSyntaxError(
       'Required parameter "backoff" missing',
       argsLoc,
+      'TS2WF1025',
     )
   } else if (params.backoff.tag !== 'map') {
     throw new WorkflowSyntaxError(
       'Expected "backoff" to be an object literal',
       argsLoc,
+      'TS2WF1025',
     )
   }
 
@@ -1413,6 +2078,7 @@ function predicateFromRetryParams(
     throw new WorkflowSyntaxError(
       '"predicate" must be a function name',
       argsLoc,
+      'TS2WF1025',
     )
   }
 }
@@ -1428,6 +2094,7 @@ function extractErrorVariableName(
     throw new WorkflowSyntaxError(
       'The error variable must be an identifier',
       param.loc,
+      'TS2WF1026',
     )
   }
 
@@ -1437,8 +2104,21 @@ function extractErrorVariableName(
 function createLabeledStatement(
   node: TSESTree.LabeledStatement,
   ctx: ParsingContext,
-): LabelledStatement {
-  return new LabelledStatement(node.label.name, parseStatement(node.body, ctx))
+): WorkflowStatement[] {
+  registerStepName(node.label.name, node.label.loc, ctx)
+
+  const statements = parseStatement(node.body, ctx)
+  const last = statements.at(-1)
+  if (node.body.type === AST_NODE_TYPES.ForStatement && last?.tag === 'while') {
+    // The label of a for loop that was converted to a while loop marks the
+    // loop, not the initializer
+    return [
+      ...statements.slice(0, -1),
+      new LabelledStatement(node.label.name, [last]),
+    ]
+  }
+
+  return [new LabelledStatement(node.label.name, statements)]
 }
 
 function tempName(ctx: ParsingContext): VariableName {
@@ -0,0 +1,63 @@
+import { flattenSteps } from '../ast/steps.js'
+import { WorkflowApp } from '../ast/workflows.js'
+
+export interface StepSourceLocation {
+  file: string
+  // 1-based line and column
+  line: number
+  column: number
+}
+
+/**
+ * Maps the steps of a generated workflow to the source code locations they
+ * were generated from.
+ *
+ * The keys of steps are step paths of the form "subworkflow.step", for
+ * example "main.call_http_get_3". Steps nested inside other steps (loops,
+ * switch branches, etc.) are included.
+ */
+export interface SourceMap {
+  version: 1
+  steps: Record<string, StepSourceLocation>
+}
+
+export function createSourceMap(workflow: WorkflowApp): SourceMap {
+  const steps = workflow.subworkflows.flatMap((subworkflow) =>
+    flattenSteps(subworkflow.steps).flatMap(
+      (step): [string, StepSourceLocation][] =>
+        step.loc
+          ? [
+              [
+                stepPath(subworkflow.name, step.label),
+                {
+                  file: subworkflow.sourceFile ?? '<unknown>',
+                  line: step.loc.start.line,
+                  column: step.loc.start.column + 1,
+                },
+              ],
+            ]
+          : [],
+    ),
+  )
+
+  return {
+    version: 1,
+    steps: Object.fromEntries(steps),
+  }
+}
+
+/**
+ * Returns the source code location of a step in a workflow or undefined if
+ * the step is not found in the source map.
+ */
+export function lookupStep(
+  sourceMap: SourceMap,
+  subworkflowName: string,
+  stepName: string,
+): StepSourceLocation | undefined {
+  return sourceMap.steps[stepPath(subworkflowName, stepName)]
+}
+
+function stepPath(subworkflowName: string, stepName: string): string {
+  return `${subworkflowName}.${stepName}`
+}
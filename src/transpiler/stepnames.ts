@@ -1,5 +1,47 @@
-import { toStepSubworkflow } from '../ast/steps.js'
-import { SubworkflowStatements, WorkflowApp } from '../ast/workflows.js'
+import { BinaryOperator, Expression } from '../ast/expressions.js'
+import {
+  flattenSteps,
+  nestedSteps,
+  renameSteps,
+  StepName,
+  toStepSubworkflow,
+  WorkflowStep,
+} from '../ast/steps.js'
+import {
+  Subworkflow,
+  SubworkflowStatements,
+  WorkflowApp,
+} from '../ast/workflows.js'
+
+/**
+ * How step names are generated.
+ *
+ * sequential: the step type and a running number, for example "assign3"
+ * stable: derived from the content of the step, for example "assign_name"
+ * descriptive: like stable, but also describes iterated lists and names
+ * conditions with "if", for example "if_order_is_paid"
+ */
+export type StepNaming = 'sequential' | 'stable' | 'descriptive'
+
+// Step names that can't be used because they have a special meaning as jump
+// targets
+const RESERVED_STEP_NAMES = ['end', 'break', 'continue']
+
+// Maximum length of a generated step name including the collision suffix.
+// Long names are truncated.
+const MAX_STEP_NAME_LENGTH = 64
+
+const COMPARISON_OPERATOR_NAMES: Partial<Record<BinaryOperator, string>> = {
+  '==': 'eq',
+  '!=': 'ne',
+  '>': 'gt',
+  '>=': 'ge',
+  '<': 'lt',
+  '<=': 'le',
+  in: 'in',
+  and: 'and',
+  or: 'or',
+}
 
 function createStepNameGenerator() {
   const counters = new Map<string, number>()
@@ -14,11 +56,285 @@ function createStepNameGenerator() {
 
 export function generateStepNames(
   subworkflows: SubworkflowStatements[],
+  sourceFile?: string,
 ): WorkflowApp {
   const transformed = subworkflows.map((subworkflow) => {
     const generateLabel = createStepNameGenerator()
-    return toStepSubworkflow(subworkflow, generateLabel)
+    return toStepSubworkflow(subworkflow, generateLabel, sourceFile)
   })
 
   return new WorkflowApp(transformed)
 }
+
+/**
+ * Rename the generated steps of a workflow according to naming.
+ *
+ * The sequential names are generated when the workflow is parsed, and they are
+ * returned unchanged. The other namings derive a step name from the assigned
+ * variable, the called function, the loop variable, a simple condition, the
+ * returned value or the jump target, for example "switch_x_gt_0" or
+ * "return_result". A step that has no describable content is named by the
+ * step type. The descriptive naming also describes iterated lists and names
+ * conditions with "if", for example "if_order_is_paid".
+ *
+ * Steps nested inside a labelled statement are prefixed by the label. Because
+ * the names don't depend on the position of the step, adding or removing a
+ * statement doesn't change the names of the unrelated steps. If several steps
+ * get the same name, the later ones are suffixed by a running number:
+ * "assign_x", "assign_x_2", etc. The labels of labelled statements are not
+ * changed.
+ */
+export function applyStepNaming(
+  workflow: WorkflowApp,
+  naming: StepNaming,
+): WorkflowApp {
+  switch (naming) {
+    case 'sequential':
+      return workflow
+
+    case 'stable':
+      return renameStepsByContent(workflow, stableBaseName)
+
+    case 'descriptive':
+      return renameStepsByContent(workflow, descriptiveBaseName)
+  }
+}
+
+// Returns the base name of a step. targetName maps a jump target label to the
+// new name of the target step.
+type BaseName = (
+  step: WorkflowStep,
+  targetName: (label: StepName) => StepName,
+) => StepName
+
+function renameStepsByContent(
+  workflow: WorkflowApp,
+  baseName: BaseName,
+): WorkflowApp {
+  return new WorkflowApp(
+    workflow.subworkflows.map((subworkflow) =>
+      renameSubworkflowSteps(subworkflow, baseName),
+    ),
+  )
+}
+
+function renameSubworkflowSteps(
+  subworkflow: Subworkflow,
+  baseName: BaseName,
+): Subworkflow {
+  const reserved = new Set([
+    ...RESERVED_STEP_NAMES,
+    ...flattenSteps(subworkflow.steps)
+      .filter((step) => step.userLabel)
+      .map((step) => step.label),
+  ])
+  const counters = new Map<StepName, number>()
+  const labels = new Map<StepName, StepName>()
+
+  const uniqueName = (base: StepName): StepName => {
+    let i = counters.get(base) ?? 1
+    let name = withSuffix(base, i)
+    while (reserved.has(name)) {
+      i++
+      name = withSuffix(base, i)
+    }
+    counters.set(base, i + 1)
+    reserved.add(name)
+
+    return name
+  }
+
+  const targetName = (label: StepName) => labels.get(label) ?? label
+  const jumps: { step: WorkflowStep; prefix: string }[] = []
+  const nameSteps = (steps: WorkflowStep[], prefix: string) => {
+    steps.forEach((step) => {
+      if (step.tag === 'next' && !step.userLabel) {
+        jumps.push({ step, prefix })
+      } else if (!step.userLabel) {
+        labels.set(step.label, uniqueName(prefix + baseName(step, targetName)))
+      }
+
+      const nestedPrefix = step.userLabel ? `${step.label}_` : prefix
+      nestedSteps(step).forEach((nested) => nameSteps(nested, nestedPrefix))
+    })
+  }
+  nameSteps(subworkflow.steps, '')
+
+  // A jump step is named after its target, which can be a later step.
+  // Therefore, the jump steps are named after all other steps.
+  jumps.forEach(({ step, prefix }) => {
+    labels.set(step.label, uniqueName(prefix + baseName(step, targetName)))
+  })
+
+  return new Subworkflow(
+    subworkflow.name,
+    renameSteps(subworkflow.steps, labels),
+    subworkflow.params,
+    subworkflow.comments,
+    subworkflow.sourceFile,
+    subworkflow.definition,
+  )
+}
+
+function withSuffix(base: StepName, i: number): StepName {
+  const suffix = i === 1 ? '' : `_${i}`
+  const maxLength = MAX_STEP_NAME_LENGTH - suffix.length
+  const truncated =
+    base.length > maxLength ? base.slice(0, maxLength).replace(/_+$/, '') : base
+
+  return truncated + suffix
+}
+
+function stableBaseName(
+  step: WorkflowStep,
+  targetName: (label: StepName) => StepName,
+): StepName {
+  switch (step.tag) {
+    case 'assign': {
+      const variable = step.assignments
+        .map(({ name }) => rootVariableName(name))
+        .find((name) => !isInternalVariable(name))
+      return variable ? `assign_${slug(variable)}` : 'assign'
+    }
+
+    case 'call':
+      return `call_${slug(step.call)}`
+
+    case 'for':
+      return `for_${slug(step.loopVariableName)}`
+
+    case 'parallel-for':
+      return `parallel_for_${slug(step.forStep.loopVariableName)}`
+
+    case 'switch':
+      return describedName('switch', step.branches.at(0)?.condition)
+
+    case 'return':
+      return describedName('return', step.value)
+
+    case 'raise':
+      return describedName('raise', step.value)
+
+    case 'next':
+      return `next_${targetName(step.next)}`
+
+    case 'jump-target':
+      return 'jump_target'
+
+    default:
+      return step.tag
+  }
+}
+
+function descriptiveBaseName(
+  step: WorkflowStep,
+  targetName: (label: StepName) => StepName,
+): StepName {
+  switch (step.tag) {
+    case 'assign': {
+      const description = step.assignments
+        .map(({ name }) => describeExpression(name))
+        .find((description) => description !== undefined)
+      return description ? `assign_${description}` : 'assign'
+    }
+
+    case 'for': {
+      const list = step.listExpression
+        ? describeExpression(step.listExpression)
+        : undefined
+      return `for_${list ?? slug(step.loopVariableName)}`
+    }
+
+    case 'parallel-for':
+      return `parallel_${descriptiveBaseName(step.forStep, targetName)}`
+
+    case 'switch':
+      return describedName('if', step.branches.at(0)?.condition)
+
+    default:
+      return stableBaseName(step, targetName)
+  }
+}
+
+// The prefix followed by the description of ex, or only the prefix if ex is
+// not simple enough to be described
+function describedName(prefix: string, ex: Expression | undefined): StepName {
+  const description = ex ? describeExpression(ex) : undefined
+  return description ? `${prefix}_${description}` : prefix
+}
+
+// Describe a simple expression, such as "order.is_paid" or "x > 0", as a
+// step name fragment ("order_is_paid", "x_gt_0"). Returns undefined if the
+// expression is not simple or refers to a temporary variable.
+function describeExpression(ex: Expression): string | undefined {
+  const description = describeExpressionWords(ex)
+  return description ? compactSlug(description) || undefined : undefined
+}
+
+function describeExpressionWords(ex: Expression): string | undefined {
+  switch (ex.tag) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return String(ex.value)
+
+    case 'null':
+      return 'null'
+
+    case 'variableReference':
+      return isInternalVariable(ex.variableName) ? undefined : ex.variableName
+
+    case 'member': {
+      const object = describeExpressionWords(ex.object)
+      const property = describeExpressionWords(ex.property)
+      return object && property ? `${object}_${property}` : undefined
+    }
+
+    case 'unary': {
+      const value = describeExpressionWords(ex.value)
+      return ex.operator === 'not' && value ? `not_${value}` : undefined
+    }
+
+    case 'binary': {
+      const operator = COMPARISON_OPERATOR_NAMES[ex.binaryOperator]
+      const left = describeExpressionWords(ex.left)
+      const right = describeExpressionWords(ex.right)
+      return operator && left && right
+        ? `${left}_${operator}_${right}`
+        : undefined
+    }
+
+    default:
+      return undefined
+  }
+}
+
+// Returns the variable name in a variable reference or the name of the object
+// variable in a member expression such as "a.b[0]"
+function rootVariableName(ex: Expression): string | undefined {
+  switch (ex.tag) {
+    case 'variableReference':
+      return ex.variableName
+
+    case 'member':
+      return rootVariableName(ex.object)
+
+    default:
+      return undefined
+  }
+}
+
+// The names of the temporary variables generated by the transpiler start with
+// two underscores
+function isInternalVariable(name: string | undefined): boolean {
+  return name === undefined || name.startsWith('__')
+}
+
+function slug(name: string): string {
+  return name.replaceAll(/[^a-zA-Z0-9_]/g, '_')
+}
+
+// Like slug but without repeated, leading or trailing underscores
+function compactSlug(name: string): string {
+  return slug(name).replaceAll(/_+/g, '_').replace(/^_/, '').replace(/_$/, '')
+}
@@ -4,8 +4,11 @@ import {
   binaryEx,
   BinaryExpression,
   Expression,
+  expressionToString,
   functionInvocationEx,
   FunctionInvocationExpression,
+  isPrimitive,
+  isQualifiedName,
   listEx,
   ListExpression,
   mapEx,
@@ -13,14 +16,20 @@ import {
   memberEx,
   MemberExpression,
   nullEx,
+  numberEx,
   stringEx,
+  trueEx,
   unaryEx,
   UnaryExpression,
+  updateEx,
+  VariableName,
   variableReferenceEx,
+  VariableReferenceExpression,
 } from '../ast/expressions.js'
 import {
   applyNested,
   AssignStatement,
+  BreakStatement,
   DoWhileStatement,
   ForRangeStatement,
   ForStatement,
@@ -33,6 +42,7 @@ import {
   VariableAssignment,
   WhileStatement,
   WorkflowStatement,
+  withSource,
 } from '../ast/statements.js'
 import { blockingFunctions } from './generated/functionMetadata.js'
 
@@ -44,6 +54,8 @@ export function transformAST(
 ): WorkflowStatement[] {
   const tempGen = createTempVariableGenerator()
   const transform = R.pipe(
+    R.chain(updateExpressionsAsAssigns(tempGen)),
+    R.chain(objectValuesAndEntriesAsLoops(tempGen)),
     R.chain(mapLiteralsAsAssigns(tempGen)),
     R.chain(intrinsicFunctionImplementation),
     R.chain(blockingCallsAsFunctionCalls(tempGen)),
@@ -57,41 +69,40 @@ export function transformAST(
  * Merge consecutive assign statements into one assign statement
  *
  * An assign is allowed to contain up to 50 assignments.
+ *
+ * A labelled assign (a source code label or a @step tag) is never merged into
+ * the preceding assign because the label names the step that starts with the
+ * labelled statement. The unlabelled assigns that follow it are merged into
+ * the labelled step.
  */
 function mergeAssigns(statements: WorkflowStatement[]): WorkflowStatement[] {
   return statements.reduce(
     (acc: WorkflowStatement[], current: WorkflowStatement) => {
       const prev = acc.length > 0 ? acc[acc.length - 1] : null
 
-      let prevAssignments = undefined
+      let prevAssigns: AssignStatement[] | undefined = undefined
       let label = undefined
       if (prev?.tag === 'assign') {
-        prevAssignments = prev.assignments
+        prevAssigns = [prev]
       } else if (
         prev?.tag === 'label' &&
+        prev.statements.length > 0 &&
         prev.statements.every((x) => x.tag === 'assign')
       ) {
-        prevAssignments = prev.statements.flatMap((x) => x.assignments)
+        prevAssigns = prev.statements
         label = prev.label
       }
 
-      let currentAssignments = undefined
-      if (current.tag === 'assign') {
-        currentAssignments = current.assignments
-      } else if (
-        current.tag === 'label' &&
-        current.statements.every((x) => x.tag === 'assign')
-      ) {
-        currentAssignments = current.statements.flatMap((x) => x.assignments)
-        label ??= current.label
-      }
-
-      if (prevAssignments && currentAssignments) {
+      if (prevAssigns && current.tag === 'assign') {
         let merged: AssignStatement | LabelledStatement = new AssignStatement(
-          prevAssignments.concat(currentAssignments),
+          prevAssigns.flatMap((x) => x.assignments).concat(current.assignments),
         )
+        merged.loc = prev?.loc
+        merged.comments = mergeComments(prev?.comments, current.comments)
+        merged.tempVariables = mergeTempVariables(...prevAssigns, current)
         if (label) {
           merged = new LabelledStatement(label, [merged])
+          merged.loc = prev?.loc
         }
         acc.pop()
         acc.push(merged)
@@ -105,6 +116,25 @@ function mergeAssigns(statements: WorkflowStatement[]): WorkflowStatement[] {
   )
 }
 
+function mergeComments(
+  a: string[] | undefined,
+  b: string[] | undefined,
+): string[] | undefined {
+  return a || b ? [...(a ?? []), ...(b ?? [])] : undefined
+}
+
+// The assign statements in an assign or in a labelled statement
+function mergeTempVariables(
+  ...statements: AssignStatement[]
+): Record<VariableName, string> | undefined {
+  const merged = Object.assign(
+    {},
+    ...statements.map((s) => s.tempVariables ?? {}),
+  ) as Record<VariableName, string>
+
+  return Object.keys(merged).length > 0 ? merged : undefined
+}
+
 /**
  * Transform expressions in a statement by applying transform.
  *
@@ -116,6 +146,21 @@ function mergeAssigns(statements: WorkflowStatement[]): WorkflowStatement[] {
 const expandExpressionToStatements = R.curry(function (
   transform: (ex: Expression) => [WorkflowStatement[], Expression],
   statement: WorkflowStatement,
+): WorkflowStatement[] {
+  // The expanded statements might include a copy of the original statement.
+  // The comments are moved from the copy to the first expanded statement.
+  const expanded = expandStatement(transform, statement).map((s) =>
+    statement.comments && s.comments === statement.comments
+      ? { ...s, comments: undefined }
+      : s,
+  )
+
+  return withSource(expanded, statement)
+})
+
+function expandStatement(
+  transform: (ex: Expression) => [WorkflowStatement[], Expression],
+  statement: WorkflowStatement,
 ): WorkflowStatement[] {
   switch (statement.tag) {
     case 'assign':
@@ -154,7 +199,7 @@ const expandExpressionToStatements = R.curry(function (
     case 'try':
       return [statement]
   }
-})
+}
 
 function expandAssign(
   transform: (ex: Expression) => [WorkflowStatement[], Expression],
@@ -304,9 +349,80 @@ function expandWhile(
   statement: WhileStatement | DoWhileStatement,
 ): WorkflowStatement[] {
   const [res, newCond] = transform(statement.condition)
-  res.push({ ...statement, condition: newCond })
+  if (res.length === 0) {
+    return [{ ...statement, condition: newCond }]
+  }
 
-  return res
+  // The statements extracted from the condition must be executed before the
+  // condition is evaluated on every iteration
+  if (statement.tag === 'while') {
+    const exitIfFalse = new IfStatement([
+      { condition: unaryEx('not', newCond), body: [new BreakStatement()] },
+    ])
+
+    return [
+      new WhileStatement(
+        trueEx,
+        [...res, exitIfFalse, ...statement.body],
+        statement.update,
+      ),
+    ]
+  } else {
+    return [new DoWhileStatement(newCond, [...statement.body, ...res])]
+  }
+}
+
+/**
+ * Extract side-effecting computed properties into temporary variable assignments.
+ *
+ * This is used on the left-hand side of a compound assignment expression and
+ * on the target of an update expression, which should only be evaluted once.
+ */
+export function extractSideEffectsFromMemberExpression(
+  ex: MemberExpression | VariableReferenceExpression,
+  generateName: () => string,
+): {
+  transformed: MemberExpression | VariableReferenceExpression
+  assignments: VariableAssignment[]
+} {
+  if (ex.tag === 'member' && ex.computed && !isPrimitive(ex.property)) {
+    // property potentially has side effects. Move to a temp variable for safety.
+    const tmp = variableReferenceEx(generateName())
+    let transformedObject: Expression
+    let objectAssignments: VariableAssignment[]
+
+    if (ex.object.tag === 'member') {
+      const object2 = extractSideEffectsFromMemberExpression(
+        ex.object,
+        generateName,
+      )
+      transformedObject = object2.transformed
+      objectAssignments = object2.assignments
+    } else {
+      transformedObject = ex.object
+      objectAssignments = []
+    }
+
+    const transformed = memberEx(transformedObject, tmp, true)
+    const assignments = objectAssignments
+    assignments.push({
+      name: tmp,
+      value: ex.property,
+    })
+
+    return { transformed, assignments }
+  } else if (ex.tag === 'member' && ex.object.tag === 'member') {
+    const { transformed: object2, assignments } =
+      extractSideEffectsFromMemberExpression(ex.object, generateName)
+    const transformed = memberEx(object2, ex.property, ex.computed)
+
+    return { transformed, assignments }
+  } else {
+    return {
+      transformed: ex,
+      assignments: [],
+    }
+  }
 }
 
 function createTempVariableGenerator(): () => string {
@@ -332,13 +448,15 @@ function replaceBlockingCalls(
       const callArgs = R.fromPairs(nameAndValue)
       const tempCallResultVariable = generateName()
 
-      callStatements.push(
-        new FunctionInvocationStatement(
-          ex.functionName,
-          callArgs,
-          tempCallResultVariable,
-        ),
+      const call = new FunctionInvocationStatement(
+        ex.functionName,
+        callArgs,
+        tempCallResultVariable,
       )
+      call.tempVariables = {
+        [tempCallResultVariable]: expressionToString(ex),
+      }
+      callStatements.push(call)
 
       // replace function invocation with a reference to the temporary variable
       return variableReferenceEx(tempCallResultVariable)
@@ -440,9 +558,200 @@ function transformExpression(
 
     case 'unary':
       return transform(unaryEx(ex.operator, nestedTr(ex.value)))
+
+    case 'update': {
+      const argument = nestedTr(ex.argument)
+      if (argument.tag !== 'variableReference' && argument.tag !== 'member') {
+        throw new InternalTranspilingError(
+          'Unexpected target type when transforming an update expression',
+        )
+      }
+
+      return transform(updateEx(ex.operator, ex.prefix, argument))
+    }
   }
 }
 
+/**
+ * Replace update expressions with assignments.
+ *
+ * Workflows does not have the increment and decrement operators. The updated
+ * variable is assigned before the statement and the value of the update
+ * expression is stored in a temporary variable.
+ *
+ * For example, transforms this (in pseudo-YAML):
+ *
+ * ```yaml
+ * - assign1:
+ *     assign:
+ *       - y: ${x++}
+ * ```
+ *
+ * into this:
+ *
+ * ```yaml
+ * - assign1:
+ *     assign:
+ *       - __temp0: ${x}
+ *       - x: ${x + 1}
+ * - assign2:
+ *     assign:
+ *       - y: ${__temp0}
+ * ```
+ */
+function updateExpressionsAsAssigns(generateTempName: () => string) {
+  return (statement: WorkflowStatement): WorkflowStatement[] => {
+    return expandExpressionToStatements(
+      (ex) => replaceUpdateExpressions(generateTempName, ex),
+      statement,
+    )
+  }
+}
+
+function replaceUpdateExpressions(
+  generateName: () => string,
+  expression: Expression,
+): [AssignStatement[], Expression] {
+  const assignments: VariableAssignment[] = []
+  const tempVariables: Record<VariableName, string> = {}
+
+  function replaceUpdate(ex: Expression): Expression {
+    if (ex.tag !== 'update') {
+      return ex
+    }
+
+    const { transformed: target, assignments: targetAssignments } =
+      extractSideEffectsFromMemberExpression(ex.argument, generateName)
+    const update = {
+      name: target,
+      value: binaryEx(target, ex.operator === '++' ? '+' : '-', numberEx(1)),
+    }
+    const result = variableReferenceEx(generateName())
+    const saveResult = { name: result, value: target }
+
+    // The value of x++ is the value before the update, the value of ++x is
+    // the value after the update
+    assignments.push(
+      ...targetAssignments,
+      ...(ex.prefix ? [update, saveResult] : [saveResult, update]),
+    )
+    tempVariables[result.variableName] = expressionToString(ex)
+
+    return result
+  }
+
+  const transformed = transformExpression(replaceUpdate, expression)
+  if (assignments.length === 0) {
+    return [[], transformed]
+  }
+
+  const assign = new AssignStatement(assignments)
+  assign.tempVariables = tempVariables
+
+  return [[assign], transformed]
+}
+
+/**
+ * Replace Object.values(m) and Object.entries(m) with a temporary variable
+ * and build the list of values or [key, value] pairs in a loop over the keys
+ * before the statement.
+ *
+ * For example, transforms this:
+ *
+ * ```yaml
+ * - assign1:
+ *     assign:
+ *       - x: ${len(Object.values(m))}
+ * ```
+ *
+ * into this:
+ *
+ * ```yaml
+ * - assign1:
+ *     assign:
+ *       - __temp0: []
+ * - for1:
+ *     for:
+ *       value: __temp0_key
+ *       in: ${keys(m)}
+ *       steps:
+ *         - assign2:
+ *             assign:
+ *               - __temp0: ${list.concat(__temp0, m[__temp0_key])}
+ * - assign3:
+ *     assign:
+ *       - x: ${len(__temp0)}
+ * ```
+ */
+function objectValuesAndEntriesAsLoops(generateTempName: () => string) {
+  return (statement: WorkflowStatement): WorkflowStatement[] => {
+    return expandExpressionToStatements(
+      (ex) => replaceObjectValuesAndEntries(generateTempName, ex),
+      statement,
+    )
+  }
+}
+
+function replaceObjectValuesAndEntries(
+  generateName: () => string,
+  expression: Expression,
+): [WorkflowStatement[], Expression] {
+  const statements: WorkflowStatement[] = []
+
+  function replaceCall(ex: Expression): Expression {
+    if (
+      ex.tag !== 'functionInvocation' ||
+      (ex.functionName !== 'Object.values' &&
+        ex.functionName !== 'Object.entries')
+    ) {
+      return ex
+    }
+
+    const result = variableReferenceEx(generateName())
+    const assignments: VariableAssignment[] = []
+    const tempVariables = { [result.variableName]: expressionToString(ex) }
+
+    // Evaluate a complex map expression only once
+    let map = ex.arguments[0] ?? nullEx
+    if (!isQualifiedName(map)) {
+      const mapVariable = variableReferenceEx(`${result.variableName}_map`)
+      assignments.push({ name: mapVariable, value: map })
+      tempVariables[mapVariable.variableName] = expressionToString(map)
+      map = mapVariable
+    }
+
+    assignments.push({ name: result, value: listEx([]) })
+    const init = new AssignStatement(assignments)
+    init.tempVariables = tempVariables
+
+    const key = variableReferenceEx(`${result.variableName}_key`)
+    const value = memberEx(map, key, true)
+    const element =
+      ex.functionName === 'Object.values' ? value : listEx([key, value])
+    const append = new AssignStatement([
+      {
+        name: result,
+        value: functionInvocationEx('list.concat', [result, element]),
+      },
+    ])
+
+    statements.push(
+      init,
+      new ForStatement(
+        [append],
+        key.variableName,
+        functionInvocationEx('keys', [map]),
+      ),
+    )
+
+    return result
+  }
+
+  const transformed = transformExpression(replaceCall, expression)
+
+  return [statements, transformed]
+}
+
 /**
  * Search for map literals in expressions and replace them with assign + variable.
  *
@@ -485,11 +794,25 @@ function transformNestedMaps(
     0,
   )
   const assignments =
-    tempVariables.length > 0 ? [new AssignStatement(tempVariables)] : []
+    tempVariables.length > 0 ? [tempVariableAssign(tempVariables)] : []
 
   return [assignments, transformedExpression]
 }
 
+function tempVariableAssign(
+  tempVariables: VariableAssignment[],
+): AssignStatement {
+  const assign = new AssignStatement(tempVariables)
+  assign.tempVariables = Object.fromEntries(
+    tempVariables.map(({ name, value }) => [
+      expressionToString(name),
+      expressionToString(value),
+    ]),
+  )
+
+  return assign
+}
+
 function extractNestedMaps(
   ex: Expression,
   generateName: () => string,
@@ -520,6 +843,9 @@ function extractNestedMaps(
 
     case 'unary':
       return extractNestedMapUnary(ex, generateName, nestingLevel)
+
+    case 'update':
+      return { transformedExpression: ex, tempVariables: [] }
   }
 }
 
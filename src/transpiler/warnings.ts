@@ -0,0 +1,325 @@
+import {
+  AST_NODE_TYPES,
+  ParserServices,
+  ParserServicesWithTypeInformation,
+  TSESTree,
+} from '@typescript-eslint/typescript-estree'
+import ts from 'typescript'
+import { ErrorCode } from '../errorcodes.js'
+import { SourceCodeLocation } from '../errors.js'
+
+// A warning before the source file name and the source line have been attached
+export interface UnlocatedWarning {
+  message: string
+  location: SourceCodeLocation
+  code: ErrorCode
+}
+
+const DISABLE_NEXT_LINE = 'ts2workflows-disable-next-line'
+
+/**
+ * Find constructs that transpile but behave differently on Workflows than on
+ * Typescript.
+ *
+ * Warnings on a line that follows a "// ts2workflows-disable-next-line" comment
+ * are suppressed. The comment can list the suppressed warning codes. A comment
+ * without codes suppresses all warnings on the next line.
+ *
+ * If the program has been parsed with type information, the types are used to
+ * detect non-boolean conditions. Otherwise, only syntactically evident cases
+ * are detected.
+ *
+ * The program must have been parsed with the comment option.
+ */
+export function findWarnings(
+  program: TSESTree.Program,
+  services?: ParserServices,
+): UnlocatedWarning[] {
+  const warnings: UnlocatedWarning[] = []
+  const typedServices = services?.program ? services : undefined
+
+  visitNodes(program, undefined, (node, parent) => {
+    warnings.push(...checkNode(node, parent, typedServices))
+  })
+
+  const suppressed = suppressionComments(program.comments ?? [])
+
+  return warnings.filter((w) => !isSuppressed(w, suppressed))
+}
+
+function checkNode(
+  node: TSESTree.Node,
+  parent: TSESTree.Node | undefined,
+  services: ParserServicesWithTypeInformation | undefined,
+): UnlocatedWarning[] {
+  switch (node.type) {
+    case AST_NODE_TYPES.ConditionalExpression:
+      return [
+        ...checkTruthiness(node.test, services),
+        ...[node.consequent, node.alternate]
+          .filter(containsFunctionCall)
+          .map((branch) => ({
+            message:
+              'Workflows evaluates both branches of a conditional expression. The function call in this branch is executed even when the branch is not selected.',
+            location: branch.loc,
+            code: 'TS2WF2001' as const,
+          })),
+      ]
+
+    case AST_NODE_TYPES.LogicalExpression:
+      if (node.operator === '??') {
+        return containsFunctionCall(node.right)
+          ? [
+              {
+                message:
+                  'Workflows always evaluates the right-hand side of ??. The function call is executed even when the left-hand side is not null.',
+                location: node.right.loc,
+                code: 'TS2WF2002',
+              },
+            ]
+          : []
+      } else {
+        return [
+          ...checkTruthiness(node.left, services),
+          ...checkTruthiness(node.right, services),
+        ]
+      }
+
+    case AST_NODE_TYPES.BinaryExpression:
+      if (
+        node.operator === 'in' &&
+        unwrapTypeExpressions(node.right).type ===
+          AST_NODE_TYPES.ArrayExpression
+      ) {
+        return [
+          {
+            message:
+              'The in operator checks if a value is included in a list on Workflows. On Typescript, it checks if the list has a property.',
+            location: node.loc,
+            code: 'TS2WF2003',
+          },
+        ]
+      } else {
+        return []
+      }
+
+    case AST_NODE_TYPES.UnaryExpression:
+      return node.operator === '!'
+        ? checkTruthiness(node.argument, services)
+        : []
+
+    case AST_NODE_TYPES.IfStatement:
+    case AST_NODE_TYPES.WhileStatement:
+    case AST_NODE_TYPES.DoWhileStatement:
+      return checkTruthiness(node.test, services)
+
+    case AST_NODE_TYPES.VariableDeclaration:
+      return checkUninitializedVariables(node, parent)
+
+    default:
+      return []
+  }
+}
+
+function checkTruthiness(
+  test: TSESTree.Expression,
+  services: ParserServicesWithTypeInformation | undefined,
+): UnlocatedWarning[] {
+  if (isNonBoolean(unwrapTypeExpressions(test))) {
+    return [
+      {
+        message:
+          'A non-boolean value is used as a condition. Workflows throws a TypeError at runtime. Use an explicit comparison instead, for example x != null.',
+        location: test.loc,
+        code: 'TS2WF2004',
+      },
+    ]
+  } else if (services) {
+    return checkTruthinessByType(test, services)
+  } else {
+    return []
+  }
+}
+
+function checkTruthinessByType(
+  test: TSESTree.Expression,
+  services: ParserServicesWithTypeInformation,
+): UnlocatedWarning[] {
+  const type = services.getTypeAtLocation(test)
+
+  if (!isKnownNonBooleanType(type)) {
+    return []
+  }
+
+  const typeChecker = services.program.getTypeChecker()
+  const typeName = typeChecker.typeToString(type)
+  const sourceText = services.esTreeNodeToTSNodeMap.get(test).getText()
+
+  return [
+    {
+      message: `A non-boolean value of type ${typeName} is used as a condition. Workflows throws a TypeError at runtime. Use an explicit comparison instead: ${explicitComparison(sourceText, type)}`,
+      location: test.loc,
+      code: 'TS2WF2004',
+    },
+  ]
+}
+
+// Returns true if the type is not boolean (or a union of booleans). Returns
+// false for any, unknown and type parameters because their actual type is not
+// known.
+function isKnownNonBooleanType(type: ts.Type): boolean {
+  const unknownFlags =
+    ts.TypeFlags.Any |
+    ts.TypeFlags.Unknown |
+    ts.TypeFlags.Never |
+    ts.TypeFlags.TypeParameter
+
+  if (type.flags & unknownFlags) {
+    return false
+  } else if (type.isUnion()) {
+    return (
+      type.types.some(isKnownNonBooleanType) &&
+      type.types.every((t) => !(t.flags & unknownFlags))
+    )
+  } else {
+    return !(type.flags & ts.TypeFlags.BooleanLike)
+  }
+}
+
+// Suggest an explicit comparison that replaces a truthiness check of a value
+// of the given type
+function explicitComparison(sourceText: string, type: ts.Type): string {
+  const types = type.isUnion() ? type.types : [type]
+  const nullable = types.some(
+    (t) => t.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined),
+  )
+  const nonNullTypes = types.filter(
+    (t) => !(t.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined)),
+  )
+  const operand = /^[\w.]+$/.test(sourceText) ? sourceText : `(${sourceText})`
+
+  if (nullable || nonNullTypes.length !== 1) {
+    return `${operand} != null`
+  } else if (nonNullTypes[0].flags & ts.TypeFlags.StringLike) {
+    return `len(${sourceText}) > 0`
+  } else if (nonNullTypes[0].flags & ts.TypeFlags.NumberLike) {
+    return `${operand} != 0`
+  } else {
+    return `${operand} != null`
+  }
+}
+
+// Returns true if node is syntactically known to evaluate to a non-boolean
+// value
+function isNonBoolean(node: TSESTree.Node): boolean {
+  switch (node.type) {
+    case AST_NODE_TYPES.Literal:
+      return typeof node.value !== 'boolean'
+
+    case AST_NODE_TYPES.TemplateLiteral:
+    case AST_NODE_TYPES.ArrayExpression:
+    case AST_NODE_TYPES.ObjectExpression:
+      return true
+
+    case AST_NODE_TYPES.Identifier:
+      return node.name === 'undefined'
+
+    case AST_NODE_TYPES.BinaryExpression:
+      return ['+', '-', '*', '/', '%', '**'].includes(node.operator)
+
+    default:
+      return false
+  }
+}
+
+function checkUninitializedVariables(
+  node: TSESTree.VariableDeclaration,
+  parent: TSESTree.Node | undefined,
+): UnlocatedWarning[] {
+  // The loop variable in "for (let x of xs)" has no initializer
+  if (
+    parent?.type === AST_NODE_TYPES.ForOfStatement ||
+    parent?.type === AST_NODE_TYPES.ForInStatement ||
+    node.declare
+  ) {
+    return []
+  }
+
+  return node.declarations
+    .filter((decl) => decl.init === null)
+    .map((decl) => ({
+      message:
+        'A variable without an initializer is set to null on Workflows. Typescript considers it undefined.',
+      location: decl.loc,
+      code: 'TS2WF2005',
+    }))
+}
+
+function containsFunctionCall(node: TSESTree.Node): boolean {
+  let found = false
+  visitNodes(node, undefined, (n) => {
+    found ||= n.type === AST_NODE_TYPES.CallExpression
+  })
+
+  return found
+}
+
+function unwrapTypeExpressions(node: TSESTree.Node): TSESTree.Node {
+  switch (node.type) {
+    case AST_NODE_TYPES.TSAsExpression:
+    case AST_NODE_TYPES.TSNonNullExpression:
+    case AST_NODE_TYPES.TSSatisfiesExpression:
+      return unwrapTypeExpressions(node.expression)
+
+    default:
+      return node
+  }
+}
+
+// Call visitor on node and all nodes below it
+function visitNodes(
+  node: TSESTree.Node,
+  parent: TSESTree.Node | undefined,
+  visitor: (node: TSESTree.Node, parent: TSESTree.Node | undefined) => void,
+): void {
+  visitor(node, parent)
+
+  Object.entries(node).forEach(([key, value]) => {
+    if (key === 'parent') {
+      return
+    }
+
+    const children: unknown[] = Array.isArray(value) ? value : [value]
+    children.filter(isNode).forEach((child) => visitNodes(child, node, visitor))
+  })
+}
+
+function isNode(x: unknown): x is TSESTree.Node {
+  return typeof x === 'object' && x !== null && 'type' in x && 'loc' in x
+}
+
+// Returns the suppressed warning codes by line number. An empty set means
+// that all warnings are suppressed on that line.
+function suppressionComments(
+  comments: TSESTree.Comment[],
+): Map<number, Set<string>> {
+  const suppressed = new Map<number, Set<string>>()
+
+  comments.forEach((comment) => {
+    const words = comment.value.trim().split(/[\s,]+/)
+    if (words[0] === DISABLE_NEXT_LINE) {
+      suppressed.set(comment.loc.end.line + 1, new Set(words.slice(1)))
+    }
+  })
+
+  return suppressed
+}
+
+function isSuppressed(
+  warning: UnlocatedWarning,
+  suppressed: Map<number, Set<string>>,
+): boolean {
+  const codes = suppressed.get(warning.location.start.line)
+
+  return codes !== undefined && (codes.size === 0 || codes.has(warning.code))
+}
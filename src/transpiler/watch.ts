@@ -0,0 +1,107 @@
+import ts from 'typescript'
+import { readCompilerOptions } from './index.js'
+
+/**
+ * Start a Typescript watch program on rootNames and the files they import.
+ *
+ * onProgram is called with the current program and the names of the source
+ * files that have changed since the previous call. The first call happens
+ * after the initial compilation (and includes all source files) and the later
+ * calls whenever a watched file changes on the disk.
+ *
+ * Typescript watches only the source files. additionalFiles returns the other
+ * files (such as the YAML files of linked subworkflows) that the outputs of
+ * the program depend on. A change in one of them calls onProgram with the
+ * current program and the name of the changed file.
+ */
+export function watchProgram(
+  rootNames: string[],
+  tsconfigPath: string,
+  onProgram: (program: ts.Program, changedFiles: Set<string>) => void,
+  additionalFiles: (program: ts.Program) => string[] = () => [],
+): ts.WatchOfFilesAndCompilerOptions<ts.SemanticDiagnosticsBuilderProgram> {
+  let previousSourceFiles = new Map<string, ts.SourceFile>()
+  let currentProgram: ts.Program | undefined
+  const additionalWatchers = new Map<string, ts.FileWatcher>()
+  const host = ts.createWatchCompilerHost(
+    rootNames,
+    readCompilerOptions(tsconfigPath),
+    ts.sys,
+    ts.createSemanticDiagnosticsBuilderProgram,
+    reportDiagnostic,
+    () => {
+      // Ignore the status messages. The caller reports the progress.
+    },
+  )
+
+  // Replaces the default implementation that would emit Javascript files and
+  // print type checking errors
+  host.afterProgramCreate = (builderProgram) => {
+    const program = builderProgram.getProgram()
+    const sourceFiles = new Map(
+      program.getSourceFiles().map((f) => [f.fileName, f]),
+    )
+    const changedFiles = changedSourceFiles(previousSourceFiles, sourceFiles)
+
+    previousSourceFiles = sourceFiles
+    currentProgram = program
+
+    onProgram(program, changedFiles)
+    updateAdditionalWatchers(additionalFiles(program))
+  }
+
+  function updateAdditionalWatchers(fileNames: string[]): void {
+    const wanted = new Set(fileNames)
+
+    additionalWatchers.forEach((watcher, fileName) => {
+      if (!wanted.has(fileName)) {
+        watcher.close()
+        additionalWatchers.delete(fileName)
+      }
+    })
+
+    wanted.forEach((fileName) => {
+      if (!additionalWatchers.has(fileName)) {
+        const watcher = host.watchFile(fileName, () => {
+          if (currentProgram !== undefined) {
+            onProgram(currentProgram, new Set([fileName]))
+          }
+        })
+        additionalWatchers.set(fileName, watcher)
+      }
+    })
+  }
+
+  return ts.createWatchProgram(host)
+}
+
+function changedSourceFiles(
+  previous: Map<string, ts.SourceFile>,
+  current: Map<string, ts.SourceFile>,
+): Set<string> {
+  const changed = new Set<string>()
+
+  current.forEach((sourceFile, fileName) => {
+    if (previous.get(fileName)?.text !== sourceFile.text) {
+      changed.add(fileName)
+    }
+  })
+
+  previous.forEach((_, fileName) => {
+    if (!current.has(fileName)) {
+      changed.add(fileName)
+    }
+  })
+
+  return changed
+}
+
+function reportDiagnostic(diagnostic: ts.Diagnostic): void {
+  console.error(
+    ts.formatDiagnostic(diagnostic, {
+      getCanonicalFileName: (fileName) => fileName,
+      getCurrentDirectory: () => ts.sys.getCurrentDirectory(),
+      getNewLine: () => ts.sys.newLine,
+    }),
+  )
+}
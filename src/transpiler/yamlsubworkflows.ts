@@ -0,0 +1,113 @@
+import fs from 'node:fs'
+import * as path from 'node:path'
+import ts from 'typescript'
+import * as YAML from 'yaml'
+import { Subworkflow } from '../ast/workflows.js'
+import { WorkflowSyntaxError, syntaxErrorWithText } from '../errors.js'
+import { findCalledFunctionDeclarations } from './linker.js'
+
+/**
+ * Returns the path of the YAML file given by a @yaml tag on a function
+ * declaration or undefined if the declaration doesn't have the tag.
+ *
+ *   /** @yaml ./legacy/audit.yaml *\/
+ *   declare function legacy_audit(x: string): void
+ *
+ * The path in the tag is relative to the directory of the source file.
+ */
+export function yamlSubworkflowFile(
+  decl: ts.FunctionDeclaration,
+): string | undefined {
+  const tag = ts.getJSDocTags(decl).find((t) => t.tagName.text === 'yaml')
+  const tagPath = tag ? ts.getTextOfJSDocComment(tag.comment)?.trim() : ''
+
+  if (!tagPath) {
+    return undefined
+  }
+
+  return path.resolve(path.dirname(decl.getSourceFile().fileName), tagPath)
+}
+
+/**
+ * Returns the YAML files of the subworkflows that are (recursively) called
+ * from filename. The linked output of filename includes subworkflows from
+ * these files.
+ */
+export function linkedYAMLFiles(
+  program: ts.Program,
+  filename: string,
+): string[] {
+  const sourceFile = program.getSourceFile(filename)
+
+  if (sourceFile === undefined) {
+    return []
+  }
+
+  const functions = findCalledFunctionDeclarations(
+    program.getTypeChecker(),
+    sourceFile,
+  )
+
+  return [
+    ...new Set(functions.flatMap((decl) => yamlSubworkflowFile(decl) ?? [])),
+  ]
+}
+
+/**
+ * Read the subworkflow called name from a workflow definition file. The
+ * subworkflow is output verbatim. Returns undefined if the file doesn't
+ * define the subworkflow.
+ *
+ * Throws a WorkflowSyntaxError if the file is not a valid YAML or JSON file,
+ * or if the top level of the file is not a map of subworkflows.
+ */
+export function readYAMLSubworkflow(
+  name: string,
+  yamlPath: string,
+  displayName: string,
+): Subworkflow | undefined {
+  const yamlText = fs.readFileSync(yamlPath, 'utf8')
+  const lineCounter = new YAML.LineCounter()
+  const doc = YAML.parseDocument(yamlText, { lineCounter })
+  const fail: (message: string, offset: number) => never = (
+    message,
+    offset,
+  ) => {
+    const pos = lineCounter.linePos(offset)
+    const location = {
+      start: { line: pos.line, column: pos.col - 1 },
+      end: { line: pos.line, column: pos.col - 1 },
+    }
+    throw syntaxErrorWithText(
+      new WorkflowSyntaxError(message, location, 'TS2WF0003'),
+      displayName,
+      yamlText,
+    )
+  }
+
+  if (doc.errors.length > 0) {
+    fail(doc.errors[0].message, doc.errors[0].pos[0])
+  }
+  if (!YAML.isMap(doc.contents)) {
+    fail('Expected a map of subworkflows', doc.contents?.range?.[0] ?? 0)
+  }
+
+  const body = doc.contents.get(name, true)
+  if (body === undefined) {
+    return undefined
+  } else if (!YAML.isMap(body) || !body.has('steps')) {
+    fail(
+      `Expected the subworkflow "${name}" to be a map with steps`,
+      YAML.isNode(body) ? (body.range?.[0] ?? 0) : 0,
+    )
+  }
+
+  return new Subworkflow(
+    name,
+    [],
+    undefined,
+    undefined,
+    displayName,
+    body.toJS(doc) as Record<string, unknown>,
+  )
+}
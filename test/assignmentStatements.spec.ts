@@ -1,5 +1,6 @@
 import { expect } from 'chai'
 import { transpileText } from '../src/transpiler/index.js'
+import { WorkflowSyntaxError } from '../src/errors.js'
 import { assertTranspiled } from './testutils.js'
 
 describe('Assignment statement', () => {
@@ -1050,3 +1051,286 @@ describe('Assignment statement', () => {
     assertTranspiled(code, expected)
   })
 })
+
+describe('Update expressions', () => {
+  it('transpiles increment and decrement statements', () => {
+    const code = `
+    function main() {
+      let x = 1
+      x++
+      ++x
+      x--
+      --x
+    }`
+
+    const expected = `
+    main:
+      steps:
+        - assign1:
+            assign:
+              - x: 1
+              - x: \${x + 1}
+              - x: \${x + 1}
+              - x: \${x - 1}
+              - x: \${x - 1}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles an increment of a member expression', () => {
+    const code = `
+    function main(counters) {
+      counters.total++
+      counters.values[getIndex()]--
+    }`
+
+    const expected = `
+    main:
+      params:
+        - counters
+      steps:
+        - assign1:
+            assign:
+              - counters.total: \${counters.total + 1}
+              - __temp0: \${getIndex()}
+              - counters.values[__temp0]: \${counters.values[__temp0] - 1}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('uses the value before the update in a postfix expression', () => {
+    const code = `
+    function main() {
+      let x = 1
+      const y = x++ * 10
+      return y
+    }`
+
+    const expected = `
+    main:
+      steps:
+        - assign1:
+            assign:
+              - x: 1
+              - __temp0: \${x}
+              - x: \${x + 1}
+              - y: \${__temp0 * 10}
+        - return1:
+            return: \${y}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('uses the value after the update in a prefix expression', () => {
+    const code = `
+    function main(x) {
+      sys.log(--x.count)
+    }`
+
+    const expected = `
+    main:
+      params:
+        - x
+      steps:
+        - assign1:
+            assign:
+              - x.count: \${x.count - 1}
+              - __temp0: \${x.count}
+        - call_sys_log_1:
+            call: sys.log
+            args:
+              data: \${__temp0}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('evaluates a computed index of the update target only once', () => {
+    const code = `
+    function main(values) {
+      return values[getIndex()]++
+    }`
+
+    const expected = `
+    main:
+      params:
+        - values
+      steps:
+        - assign1:
+            assign:
+              - __temp0: \${getIndex()}
+              - __temp1: \${values[__temp0]}
+              - values[__temp0]: \${values[__temp0] + 1}
+        - return1:
+            return: \${__temp1}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('updates the variable on every iteration in a while condition', () => {
+    const code = `
+    function main() {
+      let n = 3
+      while (n-- > 0) {
+        sys.log(n)
+      }
+    }`
+
+    const expected = `
+    main:
+      steps:
+        - assign1:
+            assign:
+              - n: 3
+        - switch1:
+            switch:
+              - condition: true
+                steps:
+                  - assign2:
+                      assign:
+                        - __temp0: \${n}
+                        - n: \${n - 1}
+                  - switch2:
+                      switch:
+                        - condition: \${not (__temp0 > 0)}
+                          next: end
+                  - call_sys_log_1:
+                      call: sys.log
+                      args:
+                        data: \${n}
+                  - next2:
+                      next: switch1
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('accepts an update in the condition of a conditional expression', () => {
+    const code = `
+    function main(i) {
+      return i++ > 0 ? "positive" : "other"
+    }`
+
+    const expected = `
+    main:
+      params:
+        - i
+      steps:
+        - assign1:
+            assign:
+              - __temp0: \${i}
+              - i: \${i + 1}
+        - return1:
+            return: \${if(__temp0 > 0, "positive", "other")}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('throws if the updated variable is referenced elsewhere in the expression', () => {
+    const codes = [
+      'const a = i + i++',
+      'const a = [i++, i]',
+      'values[i] = i++',
+      'const a = f(i.x, ++i.y)',
+    ]
+
+    codes.forEach((statement) => {
+      const code = `
+      function main(i, values) {
+        ${statement}
+      }`
+
+      expect(() => transpileText(code), statement)
+        .to.throw(WorkflowSyntaxError)
+        .with.property('code', 'TS2WF1029')
+    })
+  })
+
+  it('throws if an update expression is evaluated only conditionally', () => {
+    const codes = [
+      'const a = x > 0 && i++ > 0',
+      'const a = x || f(i++)',
+      'const a = x ?? --i',
+      'const a = x ? i++ : 0',
+      'const a = x ? 0 : [i--]',
+    ]
+
+    codes.forEach((statement) => {
+      const code = `
+      function main(x, i) {
+        ${statement}
+      }`
+
+      expect(() => transpileText(code), statement)
+        .to.throw(WorkflowSyntaxError)
+        .with.property('code', 'TS2WF1029')
+    })
+  })
+
+  it('throws if an update expression is in the condition of an else if branch', () => {
+    const code = `
+    function main(a, j) {
+      if (a) {
+        sys.log("a")
+      } else if (j++ > 0) {
+        sys.log("j")
+      }
+    }`
+
+    expect(() => transpileText(code))
+      .to.throw(WorkflowSyntaxError)
+      .with.property('code', 'TS2WF1029')
+  })
+
+  it('accepts an update expression in the condition of the first if branch', () => {
+    const code = `
+    function main(j) {
+      if (j++ > 0) {
+        sys.log("j")
+      } else {
+        sys.log("other")
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - j
+      steps:
+        - assign1:
+            assign:
+              - __temp0: \${j}
+              - j: \${j + 1}
+        - switch1:
+            switch:
+              - condition: \${__temp0 > 0}
+                steps:
+                  - call_sys_log_1:
+                      call: sys.log
+                      args:
+                        data: j
+              - condition: true
+                steps:
+                  - call_sys_log_2:
+                      call: sys.log
+                      args:
+                        data: other
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('throws if the target of an update expression is not assignable', () => {
+    const code = `
+    function main() {
+      (2 * x)++
+    }`
+
+    expect(() => transpileText(code)).to.throw()
+  })
+})
@@ -0,0 +1,294 @@
+import { expect } from 'chai'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  createProgram,
+  toYAMLString,
+  transpileProgramFile,
+} from '../src/transpiler/index.js'
+import {
+  BuildCache,
+  cleanBuildCache,
+  openBuildCache,
+  readCachedModule,
+  OutputOptions,
+  readCachedOutput,
+  writeCachedModule,
+  writeCachedOutput,
+} from '../src/transpiler/cache.js'
+import { WorkflowApp } from '../src/ast/workflows.js'
+
+describe('Build cache', () => {
+  let tempdir: string
+  let cacheDir: string
+  let configPath: string
+  let mainPath: string
+  let helperPath: string
+
+  beforeEach(() => {
+    tempdir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts2workflows-'))
+    cacheDir = path.join(tempdir, 'cache')
+    configPath = path.join(tempdir, 'tsconfig.json')
+    mainPath = path.join(tempdir, 'main.ts')
+    helperPath = path.join(tempdir, 'helper.ts')
+
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({ compilerOptions: { noLib: true, types: [] } }),
+    )
+    fs.writeFileSync(
+      mainPath,
+      `import { helper } from './helper'
+      function main(x) {
+        const a = helper(x)
+        return sys.log(a, undefined, "INFO")
+      }`,
+    )
+    fs.writeFileSync(
+      helperPath,
+      'export function helper(x) { return x ?? sys.now() }',
+    )
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempdir, { recursive: true, force: true })
+  })
+
+  function openCache(version = '1.0.0'): BuildCache {
+    return openBuildCache(cacheDir, configPath, version)
+  }
+
+  function parseModule(): WorkflowApp {
+    const program = createProgram([mainPath], configPath)
+    const cache = openCache()
+    transpileProgramFile(program, mainPath, true, { cache })
+
+    const sourceText = fs.readFileSync(mainPath, 'utf-8')
+    const cached = readCachedModule(cache, mainPath, sourceText)
+    expect(cached).to.not.equal(undefined)
+
+    return cached!.workflow
+  }
+
+  it('stores parsed modules', () => {
+    const cached = parseModule()
+    const program = createProgram([mainPath], configPath)
+    const expected = transpileProgramFile(program, mainPath, false)
+
+    expect(toYAMLString(cached)).to.equal(expected)
+  })
+
+  it('stores the warnings of a module', () => {
+    const program = createProgram([mainPath], configPath)
+    const cache = openCache()
+    transpileProgramFile(program, mainPath, true, { cache })
+
+    const sourceText = fs.readFileSync(helperPath, 'utf-8')
+    const cached = readCachedModule(cache, helperPath, sourceText)
+
+    expect(cached?.warnings.map((w) => w.code)).to.deep.equal(['TS2WF2002'])
+  })
+
+  it('misses if the module source has changed', () => {
+    const cache = openCache()
+    const program = createProgram([mainPath], configPath)
+    writeCachedModule(cache, program, mainPath, 'original', {
+      workflow: new WorkflowApp([]),
+      warnings: [],
+    })
+
+    expect(readCachedModule(cache, mainPath, 'original')).to.not.equal(
+      undefined,
+    )
+    expect(readCachedModule(cache, mainPath, 'changed')).to.equal(undefined)
+  })
+
+  it('misses if the version has changed', () => {
+    const program = createProgram([mainPath], configPath)
+    writeCachedModule(openCache('1.0.0'), program, mainPath, 'source', {
+      workflow: new WorkflowApp([]),
+      warnings: [],
+    })
+
+    expect(readCachedModule(openCache('1.0.1'), mainPath, 'source')).to.equal(
+      undefined,
+    )
+  })
+
+  it('misses if a TSConfig extended by the project TSConfig has changed', () => {
+    const basePath = path.join(tempdir, 'base.json')
+    const middlePath = path.join(tempdir, 'middle.json')
+    fs.writeFileSync(
+      basePath,
+      JSON.stringify({ compilerOptions: { strict: false } }),
+    )
+    fs.writeFileSync(middlePath, JSON.stringify({ extends: './base.json' }))
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        extends: './middle.json',
+        compilerOptions: { noLib: true, types: [] },
+      }),
+    )
+    const program = createProgram([mainPath], configPath)
+    writeCachedModule(openCache(), program, mainPath, 'source', {
+      workflow: new WorkflowApp([]),
+      warnings: [],
+    })
+
+    expect(readCachedModule(openCache(), mainPath, 'source')).to.not.equal(
+      undefined,
+    )
+
+    fs.writeFileSync(
+      basePath,
+      JSON.stringify({ compilerOptions: { strict: true } }),
+    )
+
+    expect(readCachedModule(openCache(), mainPath, 'source')).to.equal(
+      undefined,
+    )
+  })
+
+  it('misses if an imported module has changed', () => {
+    const cache = openCache()
+    const program = createProgram([mainPath], configPath)
+    writeCachedModule(cache, program, mainPath, 'source', {
+      workflow: new WorkflowApp([]),
+      warnings: [],
+    })
+
+    expect(readCachedModule(cache, mainPath, 'source')).to.not.equal(undefined)
+
+    fs.writeFileSync(
+      helperPath,
+      'export function helper(x: string) { return x }',
+    )
+
+    expect(readCachedModule(cache, mainPath, 'source')).to.equal(undefined)
+  })
+
+  it('invalidates the output when an imported file changes', () => {
+    const cache = openCache()
+    const program = createProgram([mainPath], configPath)
+    const outputOptions: OutputOptions = {
+      linkSubworkflows: true,
+      format: 'yaml',
+      preserveComments: false,
+      debugComments: false,
+      stepNames: 'sequential',
+    }
+    writeCachedOutput(cache, program, mainPath, outputOptions, {
+      output: 'cached output',
+      warnings: [],
+      sourceMap: {
+        version: 1,
+        steps: { 'main.return1': { file: 'main.ts', line: 3, column: 3 } },
+      },
+    })
+
+    const cached = readCachedOutput(cache, mainPath, outputOptions)
+    expect(cached?.output).to.equal('cached output')
+    expect(cached?.sourceMap.steps).to.deep.equal({
+      'main.return1': { file: 'main.ts', line: 3, column: 3 },
+    })
+    expect(
+      readCachedOutput(cache, mainPath, {
+        ...outputOptions,
+        linkSubworkflows: false,
+      }),
+    ).to.equal(undefined)
+    expect(
+      readCachedOutput(cache, mainPath, { ...outputOptions, format: 'json' }),
+    ).to.equal(undefined)
+    expect(
+      readCachedOutput(cache, mainPath, {
+        ...outputOptions,
+        preserveComments: true,
+      }),
+    ).to.equal(undefined)
+
+    fs.writeFileSync(helperPath, 'export function helper(x) { return x }')
+
+    expect(readCachedOutput(cache, mainPath, outputOptions)).to.equal(undefined)
+  })
+
+  it('invalidates the output of a relative input path when an imported file changes', () => {
+    const relativeMainPath = path.relative(process.cwd(), mainPath)
+    const cache = openCache()
+    const program = createProgram([relativeMainPath], configPath)
+    const outputOptions: OutputOptions = {
+      linkSubworkflows: false,
+      format: 'yaml',
+      preserveComments: false,
+      debugComments: false,
+      stepNames: 'sequential',
+    }
+    writeCachedOutput(cache, program, relativeMainPath, outputOptions, {
+      output: 'cached output',
+      warnings: [],
+      sourceMap: { version: 1, steps: {} },
+    })
+
+    expect(
+      readCachedOutput(cache, relativeMainPath, outputOptions)?.output,
+    ).to.equal('cached output')
+
+    fs.writeFileSync(helperPath, 'export function helper(x) { return x }')
+
+    expect(readCachedOutput(cache, relativeMainPath, outputOptions)).to.equal(
+      undefined,
+    )
+  })
+
+  it('invalidates the linked output when a YAML subworkflow changes', () => {
+    const yamlPath = path.join(tempdir, 'audit.yaml')
+    fs.writeFileSync(
+      mainPath,
+      `/** @yaml audit.yaml */
+      declare function audit(): void
+      function main() {
+        audit()
+      }`,
+    )
+    fs.writeFileSync(
+      yamlPath,
+      'audit:\n  steps:\n    - a:\n        return: 1\n',
+    )
+    const cache = openCache()
+    const program = createProgram([mainPath], configPath)
+    const outputOptions: OutputOptions = {
+      linkSubworkflows: true,
+      format: 'yaml',
+      preserveComments: false,
+      debugComments: false,
+      stepNames: 'sequential',
+    }
+    writeCachedOutput(cache, program, mainPath, outputOptions, {
+      output: 'cached output',
+      warnings: [],
+      sourceMap: { version: 1, steps: {} },
+    })
+
+    expect(readCachedOutput(cache, mainPath, outputOptions)?.output).to.equal(
+      'cached output',
+    )
+
+    fs.writeFileSync(
+      yamlPath,
+      'audit:\n  steps:\n    - a:\n        return: 2\n',
+    )
+
+    expect(readCachedOutput(cache, mainPath, outputOptions)).to.equal(undefined)
+  })
+
+  it('deletes the cache', () => {
+    parseModule()
+    expect(fs.existsSync(cacheDir)).to.equal(true)
+
+    cleanBuildCache(cacheDir)
+
+    expect(fs.existsSync(cacheDir)).to.equal(false)
+  })
+})
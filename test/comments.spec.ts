@@ -0,0 +1,292 @@
+import { expect } from 'chai'
+import { transpile, transpileText } from '../src/transpiler/index.js'
+
+describe('Preserving comments', () => {
+  it('outputs statement comments above steps', () => {
+    const code = `function main() {
+  // Line comment
+  const name = "Bean"
+  /* Block comment */
+  sys.log(name)
+  return name
+}`
+
+    const expected = `main:
+  steps:
+    # Line comment
+    - assign1:
+        assign:
+          - name: Bean
+    # Block comment
+    - call_sys_log_1:
+        call: sys.log
+        args:
+          data: \${name}
+    - return1:
+        return: \${name}
+`
+
+    expect(transpileText(code, { preserveComments: true })).to.equal(expected)
+  })
+
+  it('outputs JSDoc as a comment block on the subworkflow', () => {
+    const code = `/**
+ * Returns twice x.
+ *
+ * @param x - a number
+ */
+export function double(x: number) {
+  return 2 * x
+}
+
+// Not exported
+function main() {
+  return double(1)
+}`
+
+    const expected = `# Returns twice x.
+#
+# @param x - a number
+double:
+  params:
+    - x
+  steps:
+    - return1:
+        return: \${2 * x}
+# Not exported
+main:
+  steps:
+    - return1:
+        return: \${double(1)}
+`
+
+    expect(transpileText(code, { preserveComments: true })).to.equal(expected)
+  })
+
+  it('outputs comments of nested steps', () => {
+    const code = `function main(x: number) {
+  // Check x
+  if (x > 0) {
+    // Positive
+    sys.log("positive")
+  } else {
+    // Not positive
+    sys.log("not positive")
+  }
+  try {
+    // Try it
+    sys.log(x)
+  } catch (e) {
+    // Log the error
+    sys.log(e)
+  }
+}`
+
+    const expected = `main:
+  params:
+    - x
+  steps:
+    # Check x
+    - switch1:
+        switch:
+          - condition: \${x > 0}
+            steps:
+              # Positive
+              - call_sys_log_1:
+                  call: sys.log
+                  args:
+                    data: positive
+          - condition: true
+            steps:
+              # Not positive
+              - call_sys_log_2:
+                  call: sys.log
+                  args:
+                    data: not positive
+    - try1:
+        try:
+          steps:
+            # Try it
+            - call_sys_log_3:
+                call: sys.log
+                args:
+                  data: \${x}
+        except:
+          as: e
+          steps:
+            # Log the error
+            - call_sys_log_4:
+                call: sys.log
+                args:
+                  data: \${e}
+`
+
+    expect(transpileText(code, { preserveComments: true })).to.equal(expected)
+  })
+
+  it('attaches the comment to a call step extracted from an expression', () => {
+    const code = `function main() {
+  // Fetch the page
+  const length = http.get("https://visit.dreamland.test/").body.length
+  return length
+}`
+
+    const expected = `main:
+  steps:
+    # Fetch the page
+    - call_http_get_1:
+        call: http.get
+        args:
+          url: https://visit.dreamland.test/
+        result: __temp0
+    - assign1:
+        assign:
+          - length: \${__temp0.body.length}
+    - return1:
+        return: \${length}
+`
+
+    expect(transpileText(code, { preserveComments: true })).to.equal(expected)
+  })
+
+  it('ignores detached, trailing and directive comments', () => {
+    const code = `// File header
+
+function main() {
+  const a = 1 // Trailing comment
+
+  // Detached comment
+
+  // ts2workflows-disable-next-line
+  return a
+}`
+
+    const expected = `main:
+  steps:
+    - assign1:
+        assign:
+          - a: 1
+    - return1:
+        return: \${a}
+`
+
+    expect(transpileText(code, { preserveComments: true })).to.equal(expected)
+  })
+
+  it('merges the comments of merged assignments', () => {
+    const code = `function main() {
+  // First
+  const a = 1
+  // Second
+  const b = 2
+  return a + b
+}`
+
+    const observed = transpileText(code, { preserveComments: true })
+
+    expect(observed).to.include(`    # First
+    # Second
+    - assign1:
+`)
+  })
+
+  it('drops comments by default', () => {
+    const code = `// Main workflow
+function main() {
+  // Return a value
+  return 1
+}`
+
+    expect(transpileText(code)).to.equal(`main:
+  steps:
+    - return1:
+        return: 1
+`)
+  })
+
+  it("doesn't output comments in JSON", () => {
+    const code = `// Main workflow
+function main() {
+  return 1
+}`
+
+    const observed: unknown = JSON.parse(
+      transpileText(code, { format: 'json', preserveComments: true }),
+    )
+
+    expect(observed).to.deep.equal({
+      main: { steps: [{ return1: { return: 1 } }] },
+    })
+  })
+})
+
+describe('Debug comments', () => {
+  it('annotates steps with source code locations', () => {
+    const code = `function main(x: number) {
+  const name = "Bean"
+  if (x > 0) {
+    sys.log(name)
+  }
+  return name
+}`
+
+    const expected = `main:
+  params:
+    - x
+  steps:
+    - assign1: # <stdin>:2
+        assign:
+          - name: Bean
+    - switch1: # <stdin>:3
+        switch:
+          - condition: \${x > 0}
+            steps:
+              - call_sys_log_1: # <stdin>:4
+                  call: sys.log
+                  args:
+                    data: \${name}
+    - return1: # <stdin>:6
+        return: \${name}
+`
+
+    expect(transpileText(code, { debugComments: true })).to.equal(expected)
+  })
+
+  it('annotates temporary variables with their expressions', () => {
+    const code = `function main() {
+  const length = http.get("https://visit.dreamland.test/").body.length
+  return { result: { length: length } }.result
+}`
+
+    const expected = `main:
+  steps:
+    - call_http_get_1: # <stdin>:2
+        call: http.get
+        args:
+          url: https://visit.dreamland.test/
+        result: __temp1 # http.get("https://visit.dreamland.test/")
+    - assign1: # <stdin>:2
+        assign:
+          - length: \${__temp1.body.length}
+          - __temp0: # {"result": {"length": length}}
+              result:
+                length: \${length}
+    - return1: # <stdin>:3
+        return: \${__temp0.result}
+`
+
+    expect(transpileText(code, { debugComments: true })).to.equal(expected)
+  })
+
+  it('uses the file name of the source file', () => {
+    const code = `function main() {
+  return 1
+}`
+
+    const observed = transpile('workflows/main.ts', code, undefined, false, {
+      debugComments: true,
+    })
+
+    expect(observed).to.include('- return1: # workflows/main.ts:2')
+  })
+})
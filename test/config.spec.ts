@@ -0,0 +1,159 @@
+import { expect } from 'chai'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { findConfigFile, loadConfig } from '../src/config.js'
+import { ConfigError } from '../src/errors.js'
+
+describe('Config file', () => {
+  let tempdir: string
+
+  beforeEach(() => {
+    tempdir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts2workflows-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempdir, { recursive: true, force: true })
+  })
+
+  function writeConfig(fileName: string, content: unknown): string {
+    const configPath = path.join(tempdir, fileName)
+    fs.writeFileSync(
+      configPath,
+      typeof content === 'string' ? content : JSON.stringify(content),
+    )
+    return configPath
+  }
+
+  function relativeToCwd(p: string): string {
+    return path.relative(process.cwd(), path.join(tempdir, p))
+  }
+
+  it('finds a config file in a parent directory', () => {
+    const configPath = writeConfig('ts2workflows.config.json', {})
+    const subdir = path.join(tempdir, 'a', 'b')
+    fs.mkdirSync(subdir, { recursive: true })
+
+    expect(findConfigFile(subdir)).to.equal(configPath)
+  })
+
+  it('prefers the JSON config file', () => {
+    const configPath = writeConfig('ts2workflows.config.json', {})
+    writeConfig('ts2workflows.config.ts', 'export default {}')
+
+    expect(findConfigFile(tempdir)).to.equal(configPath)
+  })
+
+  it('loads a JSON config file', () => {
+    const configPath = writeConfig('ts2workflows.config.json', {
+      project: 'tsconfig.json',
+      outdir: 'workflows',
+      link: true,
+      generatedFileComment: false,
+      diagnosticsFormat: 'sarif',
+      warnings: { TS2WF2001: 'off', TS2WF2004: 'error' },
+      entries: [
+        { input: 'src/main.ts', output: 'out/main.yaml' },
+        { input: 'src/other.ts' },
+      ],
+    })
+
+    expect(loadConfig(configPath)).to.deep.equal({
+      project: relativeToCwd('tsconfig.json'),
+      outdir: relativeToCwd('workflows'),
+      link: true,
+      generatedFileComment: false,
+      diagnosticsFormat: 'sarif',
+      warnings: { TS2WF2001: 'off', TS2WF2004: 'error' },
+      entries: [
+        {
+          input: relativeToCwd('src/main.ts'),
+          output: relativeToCwd('out/main.yaml'),
+        },
+        { input: relativeToCwd('src/other.ts') },
+      ],
+    })
+  })
+
+  it('loads a Typescript config file', () => {
+    const configPath = writeConfig(
+      'ts2workflows.config.ts',
+      `import type { Config } from 'ts2workflows'
+
+      const config: Config = {
+        link: true,
+        entries: [{ input: 'main.ts' }],
+      }
+
+      export default config`,
+    )
+
+    expect(loadConfig(configPath)).to.deep.equal({
+      link: true,
+      entries: [{ input: relativeToCwd('main.ts') }],
+    })
+  })
+
+  it('throws if a Typescript config file has no default export', () => {
+    const configPath = writeConfig(
+      'ts2workflows.config.ts',
+      'export const config = {}',
+    )
+
+    expect(() => loadConfig(configPath)).to.throw(
+      ConfigError,
+      'must have a default export',
+    )
+  })
+
+  it('throws on invalid JSON', () => {
+    const configPath = writeConfig('ts2workflows.config.json', '{"link": true')
+
+    expect(() => loadConfig(configPath)).to.throw(
+      ConfigError,
+      'is not valid JSON',
+    )
+  })
+
+  it('throws on an unknown option', () => {
+    const configPath = writeConfig('ts2workflows.config.json', { outDir: 'a' })
+
+    expect(() => loadConfig(configPath)).to.throw(
+      ConfigError,
+      'Unknown option "outDir"',
+    )
+  })
+
+  it('throws on an option that is an Object prototype property', () => {
+    const configPath = writeConfig(
+      'ts2workflows.config.json',
+      '{"toString": true}',
+    )
+
+    expect(() => loadConfig(configPath)).to.throw(
+      ConfigError,
+      'Unknown option "toString"',
+    )
+  })
+
+  it('throws on an invalid option value', () => {
+    const invalidConfigs: [unknown, string][] = [
+      [[], 'The config must be an object'],
+      [{ link: 'yes' }, '"link" must be true or false'],
+      [{ project: 1 }, '"project" must be a string'],
+      [{ diagnosticsFormat: 'xml' }, '"diagnosticsFormat" must be one of'],
+      [{ warnings: { TS2WF1001: 'off' } }, '"TS2WF1001" in "warnings"'],
+      [{ warnings: { TS2WF2001: 'fatal' } }, '"warnings.TS2WF2001" must be'],
+      [{ entries: {} }, '"entries" must be an array'],
+      [{ entries: ['main.ts'] }, '"entries[0]" must be an object'],
+      [{ entries: [{ output: 'a.yaml' }] }, '"entries[0].input" is required'],
+      [{ entries: [{ input: 'a.ts', link: true }] }, 'Unknown option "link"'],
+    ]
+
+    invalidConfigs.forEach(([config, message]) => {
+      const configPath = writeConfig('ts2workflows.config.json', config)
+
+      expect(() => loadConfig(configPath)).to.throw(ConfigError, message)
+    })
+  })
+})
@@ -1,8 +1,20 @@
-/* eslint-disable @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call */
-
 import { expect } from 'chai'
-import { prettifySyntaxError } from '../src/diagnostics'
-import { WorkflowSyntaxError, WorkflowSyntaxErrorWithText } from '../src/errors'
+import * as path from 'node:path'
+import ts from 'typescript'
+import {
+  formatDiagnosticsJSON,
+  formatDiagnosticsSARIF,
+  prettifySyntaxError,
+  prettifyTypeError,
+  syntaxErrorToDiagnostics,
+  typeErrorToDiagnostic,
+} from '../src/diagnostics.js'
+import {
+  MultipleWorkflowSyntaxErrors,
+  WorkflowSyntaxError,
+  WorkflowSyntaxErrorWithText,
+} from '../src/errors.js'
+import { describeErrorCode } from '../src/errorcodes.js'
 
 describe('error diagnostics', () => {
   it('prints pretty errors', () => {
@@ -14,7 +26,9 @@ describe('error diagnostics', () => {
     const err = new WorkflowSyntaxError('Invalid identifier', location)
     const msg = prettifySyntaxError(err)
 
-    expect(msg).to.equal('File ???, line 34, column 7:\nInvalid identifier')
+    expect(msg).to.equal(
+      'File ???, line 34, column 7:\nTS2WF1000: Invalid identifier',
+    )
   })
 
   it('prints pretty errors with source code', () => {
@@ -35,7 +49,7 @@ describe('error diagnostics', () => {
       'File sample.ts, line 34, column 7:\n' +
         'const 123x = null;\n' +
         '      ^^^^\n\n' +
-        'Invalid identifier',
+        'TS2WF1000: Invalid identifier',
     )
   })
 
@@ -57,7 +71,7 @@ describe('error diagnostics', () => {
       'File sample.ts, line 34, column 7:\n' +
         'const 5 = \n' +
         '      ^^^^\n\n' +
-        'Syntax error',
+        'TS2WF1000: Syntax error',
     )
   })
 
@@ -75,7 +89,9 @@ describe('error diagnostics', () => {
     )
     const msg = prettifySyntaxError(err)
 
-    expect(msg).to.equal('File sample.ts, line 34, column 7:\nSyntax error')
+    expect(msg).to.equal(
+      'File sample.ts, line 34, column 7:\nTS2WF1000: Syntax error',
+    )
   })
 
   it('prints errors without line numbers', () => {
@@ -92,6 +108,272 @@ describe('error diagnostics', () => {
     )
     const msg = prettifySyntaxError(err)
 
-    expect(msg).to.equal('File sample.ts:\nInvalid identifier')
+    expect(msg).to.equal('File sample.ts:\nTS2WF1000: Invalid identifier')
+  })
+
+  it('prints the error code', () => {
+    const location = {
+      start: { line: 34, column: 6 },
+      end: { line: 34, column: 9 },
+    }
+
+    const err = new WorkflowSyntaxError(
+      'Optional call expressions are not supported',
+      location,
+      'TS2WF1003',
+    )
+    const msg = prettifySyntaxError(err)
+
+    expect(msg).to.equal(
+      'File ???, line 34, column 7:\n' +
+        'TS2WF1003: Optional call expressions are not supported',
+    )
+  })
+})
+describe('Error code catalogue', () => {
+  it('describes an error code', () => {
+    const description = describeErrorCode('TS2WF1003')
+
+    expect(description?.summary).to.equal(
+      'Optional call expressions are not supported',
+    )
+    expect(description?.suggestion).to.be.a('string')
+  })
+
+  it('returns undefined for an unknown error code', () => {
+    expect(describeErrorCode('TS2WF9999')).to.equal(undefined)
+  })
+
+  it('returns undefined for Object prototype properties', () => {
+    expect(describeErrorCode('toString')).to.equal(undefined)
+    expect(describeErrorCode('constructor')).to.equal(undefined)
+  })
+})
+
+describe('Machine-readable diagnostics', () => {
+  const location1 = {
+    start: { line: 34, column: 6 },
+    end: { line: 34, column: 10 },
+  }
+  const location2 = {
+    start: { line: 40, column: 2 },
+    end: { line: 41, column: 0 },
+  }
+
+  it('converts a syntax error to a diagnostic record', () => {
+    const err = new WorkflowSyntaxError('Invalid identifier', location1)
+
+    expect(syntaxErrorToDiagnostics(err, 'sample.ts')).to.deep.equal([
+      {
+        file: 'sample.ts',
+        range: location1,
+        message: 'Invalid identifier',
+        code: 'TS2WF1000',
+        severity: 'error',
+      },
+    ])
+  })
+
+  it('converts multiple syntax errors to diagnostic records', () => {
+    const err = new MultipleWorkflowSyntaxErrors([
+      new WorkflowSyntaxError('Invalid identifier', location1),
+      new WorkflowSyntaxError('Unsupported statement', location2),
+    ])
+    const diagnostics = syntaxErrorToDiagnostics(err, 'sample.ts')
+
+    expect(diagnostics.map((d) => d.message)).to.deep.equal([
+      'Invalid identifier',
+      'Unsupported statement',
+    ])
+    expect(diagnostics.map((d) => d.range)).to.deep.equal([
+      location1,
+      location2,
+    ])
+  })
+
+  it('reports an error in an imported module in the file of the module', () => {
+    const err = new MultipleWorkflowSyntaxErrors([
+      new WorkflowSyntaxErrorWithText(
+        'Invalid identifier',
+        location1,
+        'lib/helper.ts',
+        'const x = 1',
+      ),
+      new WorkflowSyntaxError('Unsupported statement', location2),
+    ])
+    const diagnostics = syntaxErrorToDiagnostics(err, 'sample.ts')
+
+    expect(diagnostics.map((d) => d.file)).to.deep.equal([
+      'lib/helper.ts',
+      'sample.ts',
+    ])
+  })
+
+  it('omits the range if the location is unknown', () => {
+    const location = {
+      start: { line: NaN, column: NaN },
+      end: { line: NaN, column: NaN },
+    }
+    const err = new WorkflowSyntaxError('Invalid identifier', location)
+    const diagnostics = syntaxErrorToDiagnostics(err, 'sample.ts')
+
+    expect(diagnostics[0].range).to.equal(undefined)
+  })
+
+  it('formats diagnostics as JSON', () => {
+    const err = new WorkflowSyntaxError('Invalid identifier', location1)
+    const formatted = formatDiagnosticsJSON(
+      syntaxErrorToDiagnostics(err, 'sample.ts'),
+    )
+
+    expect(JSON.parse(formatted)).to.deep.equal({
+      diagnostics: [
+        {
+          file: 'sample.ts',
+          range: location1,
+          message: 'Invalid identifier',
+          code: 'TS2WF1000',
+          severity: 'error',
+        },
+      ],
+    })
+  })
+
+  it('formats diagnostics as SARIF', () => {
+    const diagnostics = [
+      ...syntaxErrorToDiagnostics(
+        new WorkflowSyntaxError('Invalid identifier', location1),
+        'src/sample.ts',
+      ),
+      {
+        file: 'missing.ts',
+        message: 'Source file missing.ts not found',
+        code: 'TS2WF0002',
+        severity: 'error' as const,
+      },
+    ]
+    const sarif: unknown = JSON.parse(
+      formatDiagnosticsSARIF(diagnostics, '1.2.3'),
+    )
+
+    expect(sarif).to.deep.equal({
+      version: '2.1.0',
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'ts2workflows',
+              version: '1.2.3',
+              informationUri: 'https://github.com/aajanki/ts2workflows',
+              rules: [
+                {
+                  id: 'TS2WF0002',
+                  shortDescription: { text: 'IO error' },
+                  fullDescription: { text: "An input file couldn't be read." },
+                  help: { text: 'Check that the file exists and is readable.' },
+                },
+                {
+                  id: 'TS2WF1000',
+                  shortDescription: { text: 'Unsupported syntax' },
+                  fullDescription: {
+                    text: 'The input contains a construct that has no counterpart in GCP Workflows.',
+                  },
+                  help: {
+                    text: 'Rewrite the code using the features listed in the language reference.',
+                  },
+                },
+              ],
+            },
+          },
+          results: [
+            {
+              ruleId: 'TS2WF1000',
+              level: 'error',
+              message: { text: 'Invalid identifier' },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: { uri: 'src/sample.ts' },
+                    region: {
+                      startLine: 34,
+                      startColumn: 7,
+                      endLine: 34,
+                      endColumn: 11,
+                    },
+                  },
+                },
+              ],
+            },
+            {
+              ruleId: 'TS2WF0002',
+              level: 'error',
+              message: { text: 'Source file missing.ts not found' },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: { uri: 'missing.ts' },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    })
+  })
+})
+
+describe('Type checker diagnostics', () => {
+  const sourceFile = ts.createSourceFile(
+    path.join(process.cwd(), 'src', 'sample.ts'),
+    'function main(x: number) {\n  const s: string = x\n  return s\n}\n',
+    ts.ScriptTarget.ES2022,
+  )
+  const typeError: ts.Diagnostic = {
+    file: sourceFile,
+    start: 35,
+    length: 1,
+    messageText: "Type 'number' is not assignable to type 'string'.",
+    category: ts.DiagnosticCategory.Error,
+    code: 2322,
+  }
+
+  it('converts a type error to a diagnostic record', () => {
+    expect(typeErrorToDiagnostic(typeError)).to.deep.equal({
+      file: path.join('src', 'sample.ts'),
+      range: {
+        start: { line: 2, column: 8 },
+        end: { line: 2, column: 9 },
+      },
+      message: "Type 'number' is not assignable to type 'string'.",
+      code: 'TS2322',
+      severity: 'error',
+    })
+  })
+
+  it('prints pretty type errors', () => {
+    expect(prettifyTypeError(typeError)).to.equal(
+      `File ${path.join('src', 'sample.ts')}, line 2, column 9:\n` +
+        '  const s: string = x\n' +
+        '        ^^\n\n' +
+        "TS2322: Type 'number' is not assignable to type 'string'.",
+    )
+  })
+
+  it('prints type errors without a file', () => {
+    const globalError: ts.Diagnostic = {
+      file: undefined,
+      start: undefined,
+      length: undefined,
+      messageText: "Cannot find global type 'Array'.",
+      category: ts.DiagnosticCategory.Error,
+      code: 2318,
+    }
+
+    expect(prettifyTypeError(globalError)).to.equal(
+      "TS2318: Cannot find global type 'Array'.",
+    )
+    expect(typeErrorToDiagnostic(globalError).range).to.equal(undefined)
   })
 })
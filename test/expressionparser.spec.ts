@@ -0,0 +1,291 @@
+import { expect } from 'chai'
+import {
+  BinaryOperator,
+  binaryEx,
+  booleanEx,
+  Expression,
+  expressionToString,
+  functionInvocationEx,
+  listEx,
+  mapEx,
+  memberEx,
+  nullEx,
+  numberEx,
+  stringEx,
+  unaryEx,
+  variableReferenceEx,
+} from '../src/ast/expressions.js'
+import {
+  parseExpression,
+  parseLiteralValueOrLiteralExpression,
+} from '../src/ast/expressionparser.js'
+import { WorkflowSyntaxError } from '../src/errors.js'
+import * as ts2workflows from '../src/index.js'
+
+describe('Expression parser', () => {
+  it('parses literals', () => {
+    expect(parseExpression('null')).to.deep.equal(nullEx)
+    expect(parseExpression('true')).to.deep.equal(booleanEx(true))
+    expect(parseExpression('False')).to.deep.equal(booleanEx(false))
+    expect(parseExpression('42')).to.deep.equal(numberEx(42))
+    expect(parseExpression('3.25')).to.deep.equal(numberEx(3.25))
+    expect(parseExpression('1e+21')).to.deep.equal(numberEx(1e21))
+    expect(parseExpression('"Bean"')).to.deep.equal(stringEx('Bean'))
+    expect(parseExpression("'Bean'")).to.deep.equal(stringEx('Bean'))
+  })
+
+  it('parses escape sequences in strings', () => {
+    expect(parseExpression('"\\"Bean\\"\\n\\u00e4"')).to.deep.equal(
+      stringEx('"Bean"\nä'),
+    )
+  })
+
+  it('parses lists and maps', () => {
+    expect(parseExpression('[1, "a", []]')).to.deep.equal(
+      listEx([numberEx(1), stringEx('a'), listEx([])]),
+    )
+    expect(parseExpression('{"name": "Bean", age: 19}')).to.deep.equal(
+      mapEx({ name: stringEx('Bean'), age: numberEx(19) }),
+    )
+  })
+
+  it('parses member and index access', () => {
+    expect(parseExpression('customer.orders[0].id')).to.deep.equal(
+      memberEx(
+        memberEx(
+          memberEx(
+            variableReferenceEx('customer'),
+            variableReferenceEx('orders'),
+            false,
+          ),
+          numberEx(0),
+          true,
+        ),
+        variableReferenceEx('id'),
+        false,
+      ),
+    )
+  })
+
+  it('parses function calls', () => {
+    expect(parseExpression('sys.get_env("PROJECT")')).to.deep.equal(
+      functionInvocationEx('sys.get_env', [stringEx('PROJECT')]),
+    )
+    expect(parseExpression('uuid.generate()')).to.deep.equal(
+      functionInvocationEx('uuid.generate', []),
+    )
+    expect(parseExpression('len(x).y')).to.deep.equal(
+      memberEx(
+        functionInvocationEx('len', [variableReferenceEx('x')]),
+        variableReferenceEx('y'),
+        false,
+      ),
+    )
+  })
+
+  it('binds multiplicative operators tighter than additive operators', () => {
+    expect(parseExpression('a + b * c // d')).to.deep.equal(
+      binaryEx(
+        variableReferenceEx('a'),
+        '+',
+        binaryEx(
+          binaryEx(variableReferenceEx('b'), '*', variableReferenceEx('c')),
+          '//',
+          variableReferenceEx('d'),
+        ),
+      ),
+    )
+  })
+
+  it('binds comparisons tighter than logical operators', () => {
+    expect(parseExpression('x in y or a == 1 and b < 2')).to.deep.equal(
+      binaryEx(
+        binaryEx(variableReferenceEx('x'), 'in', variableReferenceEx('y')),
+        'or',
+        binaryEx(
+          binaryEx(variableReferenceEx('a'), '==', numberEx(1)),
+          'and',
+          binaryEx(variableReferenceEx('b'), '<', numberEx(2)),
+        ),
+      ),
+    )
+  })
+
+  it('binds unary operators tightest', () => {
+    expect(parseExpression('not a and -b % 2')).to.deep.equal(
+      binaryEx(
+        unaryEx('not', variableReferenceEx('a')),
+        'and',
+        binaryEx(unaryEx('-', variableReferenceEx('b')), '%', numberEx(2)),
+      ),
+    )
+  })
+
+  it('parses binary operators as left-associative', () => {
+    expect(parseExpression('a - b - c')).to.deep.equal(
+      binaryEx(
+        binaryEx(variableReferenceEx('a'), '-', variableReferenceEx('b')),
+        '-',
+        variableReferenceEx('c'),
+      ),
+    )
+    expect(parseExpression('a - (b - c)')).to.deep.equal(
+      binaryEx(
+        variableReferenceEx('a'),
+        '-',
+        binaryEx(variableReferenceEx('b'), '-', variableReferenceEx('c')),
+      ),
+    )
+  })
+
+  it('converts values in workflow definitions', () => {
+    expect(
+      parseLiteralValueOrLiteralExpression({
+        name: 'Bean',
+        tags: ['${x + 1}', null, true],
+      }),
+    ).to.deep.equal(
+      mapEx({
+        name: stringEx('Bean'),
+        tags: listEx([
+          binaryEx(variableReferenceEx('x'), '+', numberEx(1)),
+          nullEx,
+          booleanEx(true),
+        ]),
+      }),
+    )
+  })
+
+  it('throws on invalid expressions', () => {
+    const invalid = ['1 +', 'a.(b)', '"Bean', 'a[0](1)', 'x @ y', '(a', '"\\q"']
+
+    invalid.forEach((text) => {
+      expect(() => parseExpression(text), text)
+        .to.throw(WorkflowSyntaxError)
+        .with.property('code', 'TS2WF0004')
+    })
+  })
+
+  it('reports the location of the invalid token', () => {
+    expect(() => parseExpression('a + * b'))
+      .to.throw(WorkflowSyntaxError)
+      .with.property('location')
+      .that.deep.equals({
+        start: { line: 1, column: 4 },
+        end: { line: 1, column: 4 },
+      })
+  })
+
+  it('is exported from the ts2workflows module', () => {
+    const ex = ts2workflows.parseExpression('default(x, "-") + "/" + y')
+
+    expect(ts2workflows.expressionToString(ex)).to.equal(
+      'default(x, "-") + "/" + y',
+    )
+  })
+})
+
+describe('Expression round trip', () => {
+  it('parenthesizes right operands of non-associative operators', () => {
+    const ex = binaryEx(
+      variableReferenceEx('a'),
+      '-',
+      binaryEx(variableReferenceEx('b'), '-', variableReferenceEx('c')),
+    )
+
+    expect(expressionToString(ex)).to.equal('a - (b - c)')
+  })
+
+  it('parenthesizes binary expressions in member access', () => {
+    const ex = memberEx(
+      binaryEx(variableReferenceEx('a'), '+', variableReferenceEx('b')),
+      variableReferenceEx('c'),
+      false,
+    )
+
+    expect(expressionToString(ex)).to.equal('(a + b).c')
+  })
+
+  it('parses the output of expressionToString into the same expression', () => {
+    const random = seededRandom(20240611)
+
+    for (let i = 0; i < 500; i++) {
+      const ex = randomExpression(random, 4)
+      const text = expressionToString(ex)
+
+      expect(parseExpression(text), text).to.deep.equal(ex)
+    }
+  })
+})
+
+// A deterministic pseudo-random number generator (mulberry32)
+function seededRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const OPERATORS: BinaryOperator[] = [
+  '+',
+  '-',
+  '*',
+  '/',
+  '//',
+  '%',
+  '==',
+  '!=',
+  '>',
+  '>=',
+  '<',
+  '<=',
+  'in',
+  'and',
+  'or',
+]
+
+// Right-nested chains of an associative operator are printed without
+// parentheses and parsed back as left-nested. They are not generated.
+const ASSOCIATIVE: BinaryOperator[] = ['+', '*', 'and', 'or']
+
+function randomExpression(random: () => number, depth: number): Expression {
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)]
+  const leaf = () =>
+    pick<() => Expression>([
+      () => numberEx(Math.floor(random() * 100)),
+      () => stringEx(pick(['Bean', 'it\'s "Elfo"', '', 'a\\b\n'])),
+      () => booleanEx(random() < 0.5),
+      () => nullEx,
+      () => variableReferenceEx(pick(['x', 'y', 'customer_name'])),
+    ])()
+
+  if (depth === 0) {
+    return leaf()
+  }
+
+  const sub = () => randomExpression(random, depth - 1)
+  return pick<() => Expression>([
+    leaf,
+    () => {
+      const operator = pick(OPERATORS)
+      let right = sub()
+      while (
+        right.tag === 'binary' &&
+        right.binaryOperator === operator &&
+        ASSOCIATIVE.includes(operator)
+      ) {
+        right = sub()
+      }
+      return binaryEx(sub(), operator, right)
+    },
+    () => unaryEx(pick(['-', '+', 'not'] as const), sub()),
+    () => memberEx(sub(), variableReferenceEx(pick(['id', 'items'])), false),
+    () => memberEx(sub(), sub(), true),
+    () => functionInvocationEx(pick(['len', 'sys.get_env']), [sub(), sub()]),
+    () => listEx([sub(), sub()]),
+    () => mapEx({ key: sub(), 'other key': sub() }),
+  ])()
+}
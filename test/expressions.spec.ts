@@ -581,7 +581,9 @@ describe('Expressions and operators', () => {
       return data?.getPerson()?.name;
     }`
 
-    expect(() => transpileText(code)).to.throw(WorkflowSyntaxError)
+    expect(() => transpileText(code))
+      .to.throw(WorkflowSyntaxError)
+      .with.property('code', 'TS2WF1030')
   })
 
   it('optional call expression is not supported', () => {
@@ -589,7 +591,9 @@ describe('Expressions and operators', () => {
       return sys.now?.();
     }`
 
-    expect(() => transpileText(code)).to.throw(WorkflowSyntaxError)
+    expect(() => transpileText(code))
+      .to.throw(WorkflowSyntaxError)
+      .with.property('code', 'TS2WF1003')
   })
 
   it('transpiles typeof', () => {
@@ -1136,42 +1136,863 @@ describe('Loops', () => {
     expect(() => transpileText(code)).to.throw(WorkflowSyntaxError)
   })
 
-  it('does not support the old for', () => {
+  it('transpiles a counting for loop as a range loop', () => {
+    const code = `
+    function main(items) {
+      for (let i = 0; i < len(items); i++) {
+        sys.log(items[i])
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - items
+      steps:
+        - for1:
+            for:
+              value: i
+              range:
+                - 0
+                - \${len(items) - 1}
+              steps:
+                - call_sys_log_1:
+                    call: sys.log
+                    args:
+                      data: \${items[i]}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles a for loop with an inclusive bound as a range loop', () => {
     const code = `
     function main() {
-      for (let x=0; i++; i < 10) {}
+      let total = 0
+      for (let i = 1; 10 >= i; i += 1) {
+        if (i == 5) {
+          continue
+        }
+        total += i
+      }
+      return total
     }`
 
-    expect(() => transpileText(code)).to.throw(WorkflowSyntaxError)
+    const expected = `
+    main:
+      steps:
+        - assign1:
+            assign:
+              - total: 0
+        - for1:
+            for:
+              value: i
+              range:
+                - 1
+                - 10
+              steps:
+                - switch1:
+                    switch:
+                      - condition: \${i == 5}
+                        next: continue
+                - assign2:
+                    assign:
+                      - total: \${total + i}
+        - return1:
+            return: \${total}
+    `
+
+    assertTranspiled(code, expected)
   })
 
-  it('does not support for...in', () => {
+  it('subtracts one from a literal exclusive bound', () => {
     const code = `
     function main() {
-      for (const x in [1, 2, 3]) {
+      for (let i = 0; i < 3; i = i + 1) {
+        sys.log(i)
       }
     }`
 
-    expect(() => transpileText(code)).to.throw(WorkflowSyntaxError)
+    const expected = `
+    main:
+      steps:
+        - for1:
+            for:
+              value: i
+              range:
+                - 0
+                - 2
+              steps:
+                - call_sys_log_1:
+                    call: sys.log
+                    args:
+                      data: \${i}
+    `
+
+    assertTranspiled(code, expected)
   })
 
-  it('object pattern is not supported in for...of', () => {
+  it('transpiles a for loop with a non-integer exclusive bound as a while loop', () => {
     const code = `
     function main() {
-      for ({ val } of [{ val: 1 }, { val: 2}]) {
+      for (let i = 0; i < 2.5; i++) {
+        sys.log(i)
       }
     }`
 
-    expect(() => transpileText(code)).to.throw(WorkflowSyntaxError)
+    const expected = `
+    main:
+      steps:
+        - assign1:
+            assign:
+              - i: 0
+        - switch1:
+            switch:
+              - condition: \${i < 2.5}
+                steps:
+                  - call_sys_log_1:
+                      call: sys.log
+                      args:
+                        data: \${i}
+                  - assign2:
+                      assign:
+                        - i: \${i + 1}
+                      next: switch1
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles a for loop with a non-integer start and an exclusive bound as a while loop', () => {
+    const code = `
+    function main() {
+      for (let i = 0.5; i < 3; i++) {
+        sys.log(i)
+      }
+    }`
+
+    const expected = `
+    main:
+      steps:
+        - assign1:
+            assign:
+              - i: 0.5
+        - switch1:
+            switch:
+              - condition: \${i < 3}
+                steps:
+                  - call_sys_log_1:
+                      call: sys.log
+                      args:
+                        data: \${i}
+                  - assign2:
+                      assign:
+                        - i: \${i + 1}
+                      next: switch1
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles a for loop with a variable exclusive bound as a while loop', () => {
+    const code = `
+    function main(n) {
+      for (let i = 0; i < n; i++) {
+        sys.log(i)
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - n
+      steps:
+        - assign1:
+            assign:
+              - i: 0
+        - switch1:
+            switch:
+              - condition: \${i < n}
+                steps:
+                  - call_sys_log_1:
+                      call: sys.log
+                      args:
+                        data: \${i}
+                  - assign2:
+                      assign:
+                        - i: \${i + 1}
+                      next: switch1
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles a for loop with non-integer inclusive bounds as a range loop', () => {
+    const code = `
+    function main(n) {
+      for (let i = 0.5; i <= n; i++) {
+        sys.log(i)
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - n
+      steps:
+        - for1:
+            for:
+              value: i
+              range:
+                - 0.5
+                - \${n}
+              steps:
+                - call_sys_log_1:
+                    call: sys.log
+                    args:
+                      data: \${i}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles a for loop that counts down as a while loop', () => {
+    const code = `
+    function main() {
+      for (let i = 10; i > 0; i--) {
+        if (i == 5) {
+          continue
+        }
+        if (i == 2) {
+          break
+        }
+        sys.log(i)
+      }
+      return 0
+    }`
+
+    const expected = `
+    main:
+      steps:
+        - assign1:
+            assign:
+              - i: 10
+        - switch1:
+            switch:
+              - condition: \${i > 0}
+                steps:
+                  - switch2:
+                      switch:
+                        - condition: \${i == 5}
+                          next: assign2
+                  - switch3:
+                      switch:
+                        - condition: \${i == 2}
+                          next: return1
+                  - call_sys_log_1:
+                      call: sys.log
+                      args:
+                        data: \${i}
+                  - assign2:
+                      assign:
+                        - i: \${i - 1}
+                      next: switch1
+        - return1:
+            return: 0
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles a labeled continue and break in a for loop converted to a while loop', () => {
+    const code = `
+    function main() {
+      outer: for (let i = 0; i < 10; i += 2) {
+        for (const x of [1, 2]) {
+          if (x == i) {
+            continue outer
+          }
+          if (x > i) {
+            break outer
+          }
+        }
+      }
+      return 1
+    }`
+
+    const expected = `
+    main:
+      steps:
+        - assign1:
+            assign:
+              - i: 0
+        - outer:
+            switch:
+              - condition: \${i < 10}
+                steps:
+                  - for1:
+                      for:
+                        value: x
+                        in:
+                          - 1
+                          - 2
+                        steps:
+                          - switch1:
+                              switch:
+                                - condition: \${x == i}
+                                  next: assign2
+                          - switch2:
+                              switch:
+                                - condition: \${x > i}
+                                  next: return1
+                  - assign2:
+                      assign:
+                        - i: \${i + 2}
+                      next: outer
+        - return1:
+            return: 1
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles a labeled continue and break in a while loop', () => {
+    const code = `
+    function main(x) {
+      loop: while (x > 0) {
+        x = x - 1
+        if (x == 3) {
+          continue loop
+        }
+        if (x == 2) {
+          break loop
+        }
+      }
+      return x
+    }`
+
+    const expected = `
+    main:
+      params:
+        - x
+      steps:
+        - loop:
+            switch:
+              - condition: \${x > 0}
+                steps:
+                  - assign1:
+                      assign:
+                        - x: \${x - 1}
+                  - switch1:
+                      switch:
+                        - condition: \${x == 3}
+                          next: loop
+                  - switch2:
+                      switch:
+                        - condition: \${x == 2}
+                          next: return1
+                  - next3:
+                      next: loop
+        - return1:
+            return: \${x}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles a for loop that assigns the loop variable in the body as a while loop', () => {
+    const code = `
+    function main() {
+      for (let i = 0, j = 10; i < j; i++, j -= 2) {
+        i = i + 1
+      }
+    }`
+
+    const expected = `
+    main:
+      steps:
+        - assign1:
+            assign:
+              - i: 0
+              - j: 10
+        - switch1:
+            switch:
+              - condition: \${i < j}
+                steps:
+                  - assign2:
+                      assign:
+                        - i: \${i + 1}
+                  - assign3:
+                      assign:
+                        - i: \${i + 1}
+                        - j: \${j - 2}
+                      next: switch1
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles a for loop without a condition as an endless loop', () => {
+    const code = `
+    function main() {
+      let x = 0
+      for (;;) {
+        x = sys.now()
+        if (x > 1000) {
+          break
+        }
+      }
+      return x
+    }`
+
+    const expected = `
+    main:
+      steps:
+        - assign1:
+            assign:
+              - x: 0
+        - switch1:
+            switch:
+              - condition: true
+                steps:
+                  - assign2:
+                      assign:
+                        - x: \${sys.now()}
+                  - switch2:
+                      switch:
+                        - condition: \${x > 1000}
+                          next: return1
+                  - next2:
+                      next: switch1
+        - return1:
+            return: \${x}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles a for...in loop as a loop over the map keys', () => {
+    const code = `
+    function main(config) {
+      for (const key in config) {
+        sys.log(key)
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - config
+      steps:
+        - for1:
+            for:
+              value: key
+              in: \${keys(config)}
+              steps:
+                - call_sys_log_1:
+                    call: sys.log
+                    args:
+                      data: \${key}
+    `
+
+    assertTranspiled(code, expected)
   })
 
-  it('object pattern declaration is not supported in for...of', () => {
+  it('transpiles break and continue in a labeled for...in loop', () => {
+    const code = `
+    function main(config) {
+      let found = null
+      search: for (const key in config.settings) {
+        if (config.settings[key] == null) {
+          continue
+        }
+        if (key == "region") {
+          found = config.settings[key]
+          break
+        }
+      }
+      return found
+    }`
+
+    const expected = `
+    main:
+      params:
+        - config
+      steps:
+        - assign1:
+            assign:
+              - found: null
+        - search:
+            for:
+              value: key
+              in: \${keys(config.settings)}
+              steps:
+                - switch1:
+                    switch:
+                      - condition: \${config.settings[key] == null}
+                        next: continue
+                - switch2:
+                    switch:
+                      - condition: \${key == "region"}
+                        steps:
+                          - assign2:
+                              assign:
+                                - found: \${config.settings[key]}
+                              next: break
+        - return1:
+            return: \${found}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('fails to parse for...in a list', () => {
     const code = `
     function main() {
-      for (const { val } of [{ val: 1 }, { val: 2}]) {
+      for (const x in [1, 2, 3]) {
       }
     }`
 
     expect(() => transpileText(code)).to.throw(WorkflowSyntaxError)
   })
+
+  it('transpiles a for...of loop over entries() as a loop with an index', () => {
+    const code = `
+    function main(items) {
+      for (const [i, item] of items.entries()) {
+        sys.log(i)
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - items
+      steps:
+        - for1:
+            for:
+              value: item
+              index: i
+              in: \${items}
+              steps:
+                - call_sys_log_1:
+                    call: sys.log
+                    args:
+                      data: \${i}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles a for...of loop over Object.entries() as a loop over the keys', () => {
+    const code = `
+    function main(prices) {
+      for (const [name, price] of Object.entries(prices)) {
+        sys.log(name + "=" + string(price))
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - prices
+      steps:
+        - for1:
+            for:
+              value: name
+              in: \${keys(prices)}
+              steps:
+                - assign1:
+                    assign:
+                      - price: \${prices[name]}
+                - call_sys_log_1:
+                    call: sys.log
+                    args:
+                      data: \${name + "=" + string(price)}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('destructures values in a for...of loop over Object.entries()', () => {
+    const code = `
+    function main(users) {
+      for (const [id, { name }] of Object.entries(users)) {
+        sys.log(name)
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - users
+      steps:
+        - for1:
+            for:
+              value: id
+              in: \${keys(users)}
+              steps:
+                - assign1:
+                    assign:
+                      - name: \${map.get(users[id], "name")}
+                - call_sys_log_1:
+                    call: sys.log
+                    args:
+                      data: \${name}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles a for...of loop over Object.values() as a loop over the keys', () => {
+    const code = `
+    function main(prices) {
+      for (const price of Object.values(prices)) {
+        sys.log(price)
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - prices
+      steps:
+        - for1:
+            for:
+              value: __temp_item0
+              in: \${keys(prices)}
+              steps:
+                - assign1:
+                    assign:
+                      - price: \${prices[__temp_item0]}
+                - call_sys_log_1:
+                    call: sys.log
+                    args:
+                      data: \${price}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('transpiles a for...of loop over Object.keys()', () => {
+    const code = `
+    function main(prices) {
+      for (const name of Object.keys(prices)) {
+        sys.log(name)
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - prices
+      steps:
+        - for1:
+            for:
+              value: name
+              in: \${keys(prices)}
+              steps:
+                - call_sys_log_1:
+                    call: sys.log
+                    args:
+                      data: \${name}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('builds the list of entries if a loop over Object.entries() does not destructure them', () => {
+    const code = `
+    function main(prices) {
+      for (const entry of Object.entries(prices)) {
+        sys.log(entry)
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - prices
+      steps:
+        - assign1:
+            assign:
+              - __temp0: []
+        - for1:
+            for:
+              value: __temp0_key
+              in: \${keys(prices)}
+              steps:
+                - assign2:
+                    assign:
+                      - __temp0: \${list.concat(__temp0, [__temp0_key, prices[__temp0_key]])}
+        - for2:
+            for:
+              value: entry
+              in: \${__temp0}
+              steps:
+                - call_sys_log_1:
+                    call: sys.log
+                    args:
+                      data: \${entry}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('destructures an object pattern in for...of', () => {
+    const code = `
+    function main(users) {
+      for (const { id, name } of users) {
+        sys.log(name)
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - users
+      steps:
+        - for1:
+            for:
+              value: __temp_item0
+              in: \${users}
+              steps:
+                - assign1:
+                    assign:
+                      - id: \${map.get(__temp_item0, "id")}
+                      - name: \${map.get(__temp_item0, "name")}
+                - call_sys_log_1:
+                    call: sys.log
+                    args:
+                      data: \${name}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('destructures the value in a for...of loop over entries()', () => {
+    const code = `
+    function main(pairs) {
+      for (const [i, [key, value]] of pairs.entries()) {
+        sys.log(key)
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - pairs
+      steps:
+        - for1:
+            for:
+              value: __temp_item0
+              index: i
+              in: \${pairs}
+              steps:
+                - assign1:
+                    assign:
+                      - __temp_len: \${len(__temp_item0)}
+                - switch1:
+                    switch:
+                      - condition: \${__temp_len >= 2}
+                        steps:
+                          - assign2:
+                              assign:
+                                - key: \${__temp_item0[0]}
+                                - value: \${__temp_item0[1]}
+                      - condition: \${__temp_len >= 1}
+                        steps:
+                          - assign3:
+                              assign:
+                                - key: \${__temp_item0[0]}
+                                - value: null
+                      - condition: true
+                        steps:
+                          - assign4:
+                              assign:
+                                - key: null
+                                - value: null
+                - call_sys_log_1:
+                    call: sys.log
+                    args:
+                      data: \${key}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('uses distinct loop variables in nested destructuring loops', () => {
+    const code = `
+    function main(users) {
+      for (const { groups } of users) {
+        for (const { name } of groups) {
+          sys.log(name)
+        }
+      }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - users
+      steps:
+        - for1:
+            for:
+              value: __temp_item0
+              in: \${users}
+              steps:
+                - assign1:
+                    assign:
+                      - groups: \${map.get(__temp_item0, "groups")}
+                - for2:
+                    for:
+                      value: __temp_item1
+                      in: \${groups}
+                      steps:
+                        - assign2:
+                            assign:
+                              - name: \${map.get(__temp_item1, "name")}
+                        - call_sys_log_1:
+                            call: sys.log
+                            args:
+                              data: \${name}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('throws if the index pattern of entries() is not an identifier', () => {
+    const code = `
+    function main(items) {
+      for (const [{ i }, item] of items.entries()) {
+      }
+    }`
+
+    expect(() => transpileText(code)).to.throw(WorkflowSyntaxError)
+  })
+
+  it('throws if a loop over entries() does not destructure the index', () => {
+    const code = `
+    function main(items) {
+      for (const entry of items.entries()) {
+      }
+    }`
+
+    expect(() => transpileText(code))
+      .to.throw(WorkflowSyntaxError)
+      .with.property('code', 'TS2WF1024')
+  })
+
+  it('throws if entries() is called outside the head of a for...of loop', () => {
+    const code = `
+    function main(items) {
+      const pairs = items.entries()
+      for (const [i, item] of pairs) {
+      }
+    }`
+
+    expect(() => transpileText(code))
+      .to.throw(WorkflowSyntaxError)
+      .with.property('code', 'TS2WF1012')
+  })
 })
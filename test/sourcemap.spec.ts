@@ -0,0 +1,110 @@
+import { expect } from 'chai'
+import * as fs from 'node:fs'
+import { transpile, transpileText } from '../src/transpiler/index.js'
+import { lookupStep, SourceMap } from '../src/transpiler/sourcemap.js'
+
+describe('Source maps', () => {
+  it('maps steps to source code lines', () => {
+    const code = `function main() {
+  const name = "Bean"
+  sys.log(name)
+  return name
+}`
+
+    expect(sourceMapOf(code).steps).to.deep.equal({
+      'main.assign1': { file: '<stdin>', line: 2, column: 3 },
+      'main.call_sys_log_1': { file: '<stdin>', line: 3, column: 3 },
+      'main.return1': { file: '<stdin>', line: 4, column: 3 },
+    })
+  })
+
+  it('maps nested steps', () => {
+    const code = `function main(x: number) {
+  if (x > 0) {
+    sys.log(x)
+  }
+  for (const y of [1, 2]) {
+    try {
+      sys.log(y)
+    } catch (e) {
+      throw e
+    }
+  }
+}`
+
+    expect(sourceMapOf(code).steps).to.deep.equal({
+      'main.switch1': { file: '<stdin>', line: 2, column: 3 },
+      'main.call_sys_log_1': { file: '<stdin>', line: 3, column: 5 },
+      'main.for1': { file: '<stdin>', line: 5, column: 3 },
+      'main.try1': { file: '<stdin>', line: 6, column: 5 },
+      'main.call_sys_log_2': { file: '<stdin>', line: 7, column: 7 },
+      'main.raise1': { file: '<stdin>', line: 9, column: 7 },
+    })
+  })
+
+  it('maps steps extracted from an expression to the statement', () => {
+    const code = `function main() {
+  const x = 1
+  const y = http.get("https://visit.dreamland.test/") + x
+  return y
+}`
+
+    const sourceMap = sourceMapOf(code)
+
+    expect(lookupStep(sourceMap, 'main', 'call_http_get_1')).to.deep.equal({
+      file: '<stdin>',
+      line: 3,
+      column: 3,
+    })
+    expect(lookupStep(sourceMap, 'main', 'assign2')).to.deep.equal({
+      file: '<stdin>',
+      line: 3,
+      column: 3,
+    })
+  })
+
+  it('maps steps in each subworkflow', () => {
+    const code = `function main() {
+  return double(2)
+}
+
+function double(x: number) {
+  return 2 * x
+}`
+
+    const sourceMap = sourceMapOf(code)
+
+    expect(lookupStep(sourceMap, 'main', 'return1')?.line).to.equal(2)
+    expect(lookupStep(sourceMap, 'double', 'return1')?.line).to.equal(6)
+    expect(lookupStep(sourceMap, 'double', 'return2')).to.equal(undefined)
+  })
+
+  it('maps linked subworkflows to the files they are defined in', () => {
+    const mainPath = 'samples/sample2.ts'
+    const sourceCode = fs.readFileSync(mainPath, 'utf-8')
+    const sourceMaps: SourceMap[] = []
+    transpile(mainPath, sourceCode, 'samples/tsconfig.json', true, {
+      onSourceMap: (map) => sourceMaps.push(map),
+    })
+
+    expect(sourceMaps).to.have.lengthOf(1)
+    expect(lookupStep(sourceMaps[0], 'main', 'assign1')).to.deep.equal({
+      file: 'samples/sample2.ts',
+      line: 8,
+      column: 3,
+    })
+    expect(lookupStep(sourceMaps[0], 'get_url', 'try1')).to.deep.equal({
+      file: 'samples/http_helpers.ts',
+      line: 6,
+      column: 3,
+    })
+  })
+})
+
+function sourceMapOf(code: string): SourceMap {
+  const sourceMaps: SourceMap[] = []
+  transpileText(code, { onSourceMap: (map) => sourceMaps.push(map) })
+
+  expect(sourceMaps).to.have.lengthOf(1)
+  return sourceMaps[0]
+}
@@ -1,5 +1,6 @@
 import { expect } from 'chai'
 import { transpileText } from '../src/transpiler/index.js'
+import { WorkflowSyntaxError } from '../src/errors.js'
 import { assertTranspiled } from './testutils.js'
 
 describe('Import statement', () => {
@@ -640,24 +641,30 @@ describe('Labelled statement', () => {
     assertTranspiled(code, expected)
   })
 
-  it('takes the first label when combining assignment steps', () => {
+  it('does not merge labelled assignments into the preceding assignments', () => {
     const code = `
     function test() {
       const a = 1
       const b = 2
       setImportantVariable: const c = 3
       setAnotherVariable: const d = 4
+      const e = 5
     }`
 
     const expected = `
     test:
       steps:
-        - setImportantVariable:
+        - assign1:
             assign:
               - a: 1
               - b: 2
+        - setImportantVariable:
+            assign:
               - c: 3
+        - setAnotherVariable:
+            assign:
               - d: 4
+              - e: 5
     `
 
     assertTranspiled(code, expected)
@@ -720,6 +727,208 @@ describe('Labelled statement', () => {
   })
 })
 
+describe('Step name tag', () => {
+  it('names steps by @step tags in line comments and JSDoc', () => {
+    const code = `
+    function main() {
+      // @step fetch_customer
+      const customer = http.get("https://visit.dreamland.test/")
+      /** @step log_customer */
+      sys.log(customer)
+      return customer
+    }`
+
+    const expected = `
+    main:
+      steps:
+        - fetch_customer:
+            call: http.get
+            args:
+              url: https://visit.dreamland.test/
+            result: customer
+        - log_customer:
+            call: sys.log
+            args:
+              data: \${customer}
+        - return1:
+            return: \${customer}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('keeps the names of consecutive tagged assignments', () => {
+    const code = `
+    function main() {
+      // @step first
+      const a = 1
+      // @step second
+      const b = 2
+      return a + b
+    }`
+
+    const expected = `
+    main:
+      steps:
+        - first:
+            assign:
+              - a: 1
+        - second:
+            assign:
+              - b: 2
+        - return1:
+            return: \${a + b}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('does not merge a tagged assignment into the preceding assignment', () => {
+    const code = `
+    function main() {
+      const a = 1
+      // @step set_b
+      const b = 2
+      const c = 3
+      return a + b + c
+    }`
+
+    const expected = `
+    main:
+      steps:
+        - assign1:
+            assign:
+              - a: 1
+        - set_b:
+            assign:
+              - b: 2
+              - c: 3
+        - return1:
+            return: \${a + b + c}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('names nested steps', () => {
+    const code = `
+    function main(x: number) {
+      if (x > 0) {
+        // @step positive
+        return "x is positive"
+      }
+      return "x is not positive"
+    }`
+
+    const expected = `
+    main:
+      params:
+        - x
+      steps:
+        - switch1:
+            switch:
+              - condition: \${x > 0}
+                steps:
+                  - positive:
+                      return: x is positive
+        - return2:
+            return: x is not positive
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('removes the tag from the preserved comments', () => {
+    const code = `function main() {
+  /**
+   * Log a greeting
+   * @step greet
+   */
+  sys.log("Hello")
+}`
+
+    const expected = `main:
+  steps:
+    # Log a greeting
+    - greet:
+        call: sys.log
+        args:
+          data: Hello
+`
+
+    expect(transpileText(code, { preserveComments: true })).to.equal(expected)
+  })
+
+  it('throws on duplicate step names', () => {
+    const code = `
+    function main() {
+      // @step log
+      sys.log(1)
+      // @step log
+      sys.log(2)
+    }`
+
+    expect(() => transpileText(code))
+      .to.throw(WorkflowSyntaxError, 'Duplicate step name "log"')
+      .with.deep.property('location', {
+        start: { line: 6, column: 6 },
+        end: { line: 6, column: 16 },
+      })
+  })
+
+  it('throws if a step tag conflicts with a label', () => {
+    const code = `
+    function main() {
+      log: sys.log(1)
+      // @step log
+      sys.log(2)
+    }`
+
+    expect(() => transpileText(code))
+      .to.throw(WorkflowSyntaxError)
+      .with.property('code', 'TS2WF1028')
+  })
+
+  it('accepts the same step name in different subworkflows', () => {
+    const code = `
+    function main() {
+      // @step log
+      sys.log(1)
+    }
+
+    function other() {
+      // @step log
+      sys.log(2)
+    }`
+
+    expect(() => transpileText(code)).not.to.throw()
+  })
+
+  it('throws on an invalid step name', () => {
+    const code = `
+    function main() {
+      // @step fetch-customer
+      sys.log(1)
+    }`
+
+    expect(() => transpileText(code))
+      .to.throw(WorkflowSyntaxError, 'Invalid step name "fetch-customer"')
+      .with.property('code', 'TS2WF1027')
+  })
+
+  it('throws on a tag without a name', () => {
+    const code = `
+    function main() {
+      // @step
+      sys.log(1)
+    }`
+
+    expect(() => transpileText(code))
+      .to.throw(WorkflowSyntaxError)
+      .with.property('code', 'TS2WF1027')
+  })
+})
+
 describe('Debugger statement', () => {
   it('ignores debugger statement', () => {
     const code = `
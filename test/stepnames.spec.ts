@@ -0,0 +1,385 @@
+import { expect } from 'chai'
+import { transpileText } from '../src/transpiler/index.js'
+
+describe('Stable step names', () => {
+  it('names steps by the assigned variable and the called function', () => {
+    const code = `function main() {
+  const name = "Bean"
+  const page = http.get("https://visit.dreamland.test/")
+  sys.log(name)
+  return page
+}`
+
+    const expected = `main:
+  steps:
+    - assign_name:
+        assign:
+          - name: Bean
+    - call_http_get:
+        call: http.get
+        args:
+          url: https://visit.dreamland.test/
+        result: page
+    - call_sys_log:
+        call: sys.log
+        args:
+          data: \${name}
+    - return_page:
+        return: \${page}
+`
+
+    expect(transpileText(code, { stepNames: 'stable' })).to.equal(expected)
+  })
+
+  it('adds a suffix to colliding names', () => {
+    const code = `function main() {
+  sys.log("a")
+  sys.log("b")
+  sys.log("c")
+}`
+
+    const expected = `main:
+  steps:
+    - call_sys_log:
+        call: sys.log
+        args:
+          data: a
+    - call_sys_log_2:
+        call: sys.log
+        args:
+          data: b
+    - call_sys_log_3:
+        call: sys.log
+        args:
+          data: c
+`
+
+    expect(transpileText(code, { stepNames: 'stable' })).to.equal(expected)
+  })
+
+  it('keeps the names of unrelated steps when a statement is added', () => {
+    const before = `function main() {
+  const x = 1
+  sys.log(x)
+  return x
+}`
+    const after = `function main() {
+  const y = http.get("https://visit.dreamland.test/")
+  if (y.code === 200) {
+    sys.sleep(1)
+  }
+  const x = 1
+  sys.log(x)
+  return x
+}`
+
+    const stepsOf = (code: string) =>
+      transpileText(code, { stepNames: 'stable' })
+        .split('\n')
+        .filter((line) => /^ {4}- /.test(line))
+
+    expect(stepsOf(before)).to.deep.equal([
+      '    - assign_x:',
+      '    - call_sys_log:',
+      '    - return_x:',
+    ])
+    expect(stepsOf(after)).to.deep.equal([
+      '    - call_http_get:',
+      '    - switch_y_code_eq_200:',
+      '    - assign_x:',
+      '    - call_sys_log:',
+      '    - return_x:',
+    ])
+  })
+
+  it('keeps the names of the later steps when a branch is inserted', () => {
+    const before = `function main(x: number) {
+  if (x > 10) {
+    throw "too large"
+  }
+  for (const y of [1, 2]) {
+    if (y == x) {
+      sys.log(y)
+      break
+    }
+  }
+  return x
+}`
+    const after = `function main(x: number) {
+  if (x < 0) {
+    return 0
+  }
+  if (x > 10) {
+    throw "too large"
+  }
+  for (const y of [1, 2]) {
+    if (y == 0) {
+      continue
+    }
+    if (y == x) {
+      sys.log(y)
+      break
+    }
+  }
+  return x
+}`
+
+    const stepsOf = (code: string) =>
+      transpileText(code, { stepNames: 'stable' })
+        .split('\n')
+        .filter((line) => /^ *- \w+:$/.test(line))
+        .map((line) => line.trim())
+
+    expect(stepsOf(before)).to.deep.equal([
+      '- switch_x_gt_10:',
+      '- raise_too_large:',
+      '- for_y:',
+      '- switch_y_eq_x:',
+      '- call_sys_log:',
+      '- next_break:',
+      '- return_x:',
+    ])
+    expect(stepsOf(after)).to.deep.equal([
+      '- switch_x_lt_0:',
+      '- return_0:',
+      '- switch_x_gt_10:',
+      '- raise_too_large:',
+      '- for_y:',
+      '- switch_y_eq_0:',
+      '- switch_y_eq_x:',
+      '- call_sys_log:',
+      '- next_break:',
+      '- return_x:',
+    ])
+  })
+
+  it('prefixes steps nested in a labelled statement by the label', () => {
+    const code = `function main(items: string[]) {
+  outer: for (const item of items) {
+    for (const x of [1, 2]) {
+      if (x > 1) {
+        sys.log(item)
+      }
+    }
+  }
+  sys.log("done")
+}`
+
+    const expected = `main:
+  params:
+    - items
+  steps:
+    - outer:
+        for:
+          value: item
+          in: \${items}
+          steps:
+            - outer_for_x:
+                for:
+                  value: x
+                  in:
+                    - 1
+                    - 2
+                  steps:
+                    - outer_switch_x_gt_1:
+                        switch:
+                          - condition: \${x > 1}
+                            steps:
+                              - outer_call_sys_log:
+                                  call: sys.log
+                                  args:
+                                    data: \${item}
+    - call_sys_log:
+        call: sys.log
+        args:
+          data: done
+`
+
+    expect(transpileText(code, { stepNames: 'stable' })).to.equal(expected)
+  })
+
+  it('renames the jump targets', () => {
+    const code = `function main() {
+  let x = 0
+  while (x < 3) {
+    x = x + 1
+  }
+  return x
+}`
+
+    const expected = `main:
+  steps:
+    - assign_x:
+        assign:
+          - x: 0
+    - switch_x_lt_3:
+        switch:
+          - condition: \${x < 3}
+            steps:
+              - assign_x_2:
+                  assign:
+                    - x: \${x + 1}
+                  next: switch_x_lt_3
+    - return_x:
+        return: \${x}
+`
+
+    expect(transpileText(code, { stepNames: 'stable' })).to.equal(expected)
+  })
+
+  it("doesn't reuse the labels of labelled statements", () => {
+    const code = `function main() {
+  sys.log("a")
+  call_sys_log: {
+    sys.log("b")
+  }
+}`
+
+    const expected = `main:
+  steps:
+    - call_sys_log_2:
+        call: sys.log
+        args:
+          data: a
+    - call_sys_log:
+        call: sys.log
+        args:
+          data: b
+`
+
+    expect(transpileText(code, { stepNames: 'stable' })).to.equal(expected)
+  })
+
+  it('uses sequential names by default', () => {
+    const code = `function main() {
+  const x = 1
+  return x
+}`
+
+    const expected = `main:
+  steps:
+    - assign1:
+        assign:
+          - x: 1
+    - return1:
+        return: \${x}
+`
+
+    expect(transpileText(code)).to.equal(expected)
+  })
+})
+
+describe('Descriptive step names', () => {
+  it('describes assignments, conditions, loops and return values', () => {
+    const code = `function main(order: { is_paid: boolean; total: number }) {
+  const order_total = order.total * 2
+  if (order.is_paid) {
+    sys.log("paid")
+  }
+  for (const item of order.items) {
+    sys.log(item)
+  }
+  return order_total
+}`
+
+    const expected = `main:
+  params:
+    - order
+  steps:
+    - assign_order_total:
+        assign:
+          - order_total: \${order.total * 2}
+    - if_order_is_paid:
+        switch:
+          - condition: \${order.is_paid}
+            steps:
+              - call_sys_log:
+                  call: sys.log
+                  args:
+                    data: paid
+    - for_order_items:
+        for:
+          value: item
+          in: \${order.items}
+          steps:
+            - call_sys_log_2:
+                call: sys.log
+                args:
+                  data: \${item}
+    - return_order_total:
+        return: \${order_total}
+`
+
+    expect(transpileText(code, { stepNames: 'descriptive' })).to.equal(expected)
+  })
+
+  it('describes comparisons and negations', () => {
+    const code = `function main(x: number, done: boolean) {
+  while (x > 0) {
+    x = x - 1
+  }
+  if (!done) {
+    return x
+  }
+}`
+
+    const expected = `main:
+  params:
+    - x
+    - done
+  steps:
+    - if_x_gt_0:
+        switch:
+          - condition: \${x > 0}
+            steps:
+              - assign_x:
+                  assign:
+                    - x: \${x - 1}
+                  next: if_x_gt_0
+    - if_not_done:
+        switch:
+          - condition: \${not done}
+            steps:
+              - return_x:
+                  return: \${x}
+`
+
+    expect(transpileText(code, { stepNames: 'descriptive' })).to.equal(expected)
+  })
+
+  it('falls back to the step type on complex expressions', () => {
+    const code = `function main(x: number) {
+  if (x * 2 > 10) {
+    return x + 1
+  }
+}`
+
+    const expected = `main:
+  params:
+    - x
+  steps:
+    - if:
+        switch:
+          - condition: \${x * 2 > 10}
+            steps:
+              - return:
+                  return: \${x + 1}
+`
+
+    expect(transpileText(code, { stepNames: 'descriptive' })).to.equal(expected)
+  })
+
+  it('truncates long names', () => {
+    const code = `function main(config: Record<string, boolean>) {
+  if (config.a_very_long_setting_name_that_describes_the_setting_x_in_detail) {
+    sys.log("on")
+  }
+}`
+
+    const observed = transpileText(code, { stepNames: 'descriptive' })
+
+    expect(observed).to.include(
+      '- if_config_a_very_long_setting_name_that_describes_the_setting_x:\n',
+    )
+  })
+})
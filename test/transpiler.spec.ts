@@ -1,9 +1,21 @@
 import { expect } from 'chai'
 import * as YAML from 'yaml'
 import * as fs from 'node:fs'
-import { transpile, transpileText } from '../src/transpiler/index.js'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  createProgram,
+  transpile,
+  transpileProgramFile,
+  transpileText,
+} from '../src/transpiler/index.js'
 import { assertTranspiled } from './testutils.js'
-import { IOError, WorkflowSyntaxError } from '../src/errors.js'
+import {
+  IOError,
+  MultipleWorkflowSyntaxErrors,
+  WorkflowSyntaxError,
+  WorkflowSyntaxErrorWithText,
+} from '../src/errors.js'
 
 describe('Type annotations', () => {
   it('accepts type annotations on variable declaration', () => {
@@ -406,6 +418,321 @@ describe('Compiler intrinsics', () => {
 
     assertTranspiled(code, expected)
   })
+
+  it('Object.keys(m) is converted to keys(m)', () => {
+    const code = `
+    function main(m) {
+      const names = Object.keys(m)
+      return len(Object.keys(m))
+    }`
+
+    const expected = `
+    main:
+      params:
+        - m
+      steps:
+        - assign1:
+            assign:
+              - names: \${keys(m)}
+        - return1:
+            return: \${len(keys(m))}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('Object.values(m) is built in a loop over the keys', () => {
+    const code = `
+    function main(m) {
+      return len(Object.values(m))
+    }`
+
+    const expected = `
+    main:
+      params:
+        - m
+      steps:
+        - assign1:
+            assign:
+              - __temp0: []
+        - for1:
+            for:
+              value: __temp0_key
+              in: \${keys(m)}
+              steps:
+                - assign2:
+                    assign:
+                      - __temp0: \${list.concat(__temp0, m[__temp0_key])}
+        - return1:
+            return: \${len(__temp0)}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('Object.entries() evaluates a complex map expression once', () => {
+    const code = `
+    function main(m) {
+      const entries = Object.entries(map.get(m, "prices"))
+    }`
+
+    const expected = `
+    main:
+      params:
+        - m
+      steps:
+        - assign1:
+            assign:
+              - __temp0_map: \${map.get(m, "prices")}
+              - __temp0: []
+        - for1:
+            for:
+              value: __temp0_key
+              in: \${keys(__temp0_map)}
+              steps:
+                - assign2:
+                    assign:
+                      - __temp0: \${list.concat(__temp0, [__temp0_key, __temp0_map[__temp0_key]])}
+        - assign3:
+            assign:
+              - entries: \${__temp0}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('Object.values(m) in a nested expression', () => {
+    const code = `
+    function main(m) {
+      return { count: len(Object.values(m)) }
+    }`
+
+    const expected = `
+    main:
+      params:
+        - m
+      steps:
+        - assign1:
+            assign:
+              - __temp0: []
+        - for1:
+            for:
+              value: __temp0_key
+              in: \${keys(m)}
+              steps:
+                - assign2:
+                    assign:
+                      - __temp0: \${list.concat(__temp0, m[__temp0_key])}
+        - return1:
+            return:
+              count: \${len(__temp0)}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('Object.entries() calls the function in the argument only once', () => {
+    const code = `
+    function main(x) {
+      return Object.entries(f(x))
+    }`
+
+    const expected = `
+    main:
+      params:
+        - x
+      steps:
+        - assign1:
+            assign:
+              - __temp0_map: \${f(x)}
+              - __temp0: []
+        - for1:
+            for:
+              value: __temp0_key
+              in: \${keys(__temp0_map)}
+              steps:
+                - assign2:
+                    assign:
+                      - __temp0: \${list.concat(__temp0, [__temp0_key, __temp0_map[__temp0_key]])}
+        - return1:
+            return: \${__temp0}
+    `
+
+    assertTranspiled(code, expected)
+  })
+
+  it('throws if Object.values() or Object.entries() is evaluated conditionally', () => {
+    const codes = [
+      'return x != null && len(Object.entries(f(x))) > 0',
+      'return x ? Object.entries(f(x)) : []',
+      'return x ?? Object.values(m)',
+    ]
+
+    codes.forEach((statement) => {
+      const code = `
+      function main(x, m) {
+        ${statement}
+      }`
+
+      expect(() => transpileText(code), statement)
+        .to.throw(WorkflowSyntaxError)
+        .with.property('code', 'TS2WF1029')
+    })
+  })
+
+  it('throws if Object.values() or Object.entries() is in the condition of an else if branch', () => {
+    const code = `
+    function main(x, m) {
+      if (x) {
+        return 1
+      } else if (len(Object.values(m)) > 0) {
+        return 2
+      }
+    }`
+
+    expect(() => transpileText(code))
+      .to.throw(WorkflowSyntaxError)
+      .with.property('code', 'TS2WF1029')
+  })
+
+  it('throws if Object.values() is not called with one argument', () => {
+    const code = `
+    function main(a, b) {
+      return Object.values(a, b)
+    }`
+
+    expect(() => transpileText(code))
+      .to.throw(WorkflowSyntaxError)
+      .with.property('code', 'TS2WF1012')
+  })
+})
+
+describe('Syntax errors', () => {
+  it('throws a single error as is', () => {
+    const code = `
+    function main() {
+      var x = 1
+    }`
+
+    expect(() => transpileText(code)).to.throw(
+      WorkflowSyntaxErrorWithText,
+      'Only const and let variable declarations are supported',
+    )
+  })
+
+  it('sets the error code', () => {
+    const code = `
+    function main() {
+      return f?.()
+    }`
+
+    expect(() => transpileText(code))
+      .to.throw(WorkflowSyntaxError)
+      .with.property('code', 'TS2WF1003')
+  })
+
+  it('reports all errors in a file', () => {
+    const code = `
+    function main(x, [y]) {
+      var a = 1
+      if (x > 0) {
+        class X {}
+      }
+      return a
+    }
+
+    const top = 1
+
+    function other() {
+      return 2 ** 3
+    }`
+
+    let error: unknown = undefined
+    try {
+      transpileText(code)
+    } catch (err) {
+      error = err
+    }
+
+    expect(error).to.be.instanceOf(MultipleWorkflowSyntaxErrors)
+    const errors = (error as MultipleWorkflowSyntaxErrors).errors
+    expect(errors.map((e) => e.location.start.line)).to.deep.equal([
+      2, 3, 5, 10, 13,
+    ])
+    expect(
+      errors.every((e) => e instanceof WorkflowSyntaxErrorWithText),
+    ).to.equal(true)
+  })
+
+  it('reports errors in the order of appearance', () => {
+    const code = `
+    function main(x) {
+      for (const a of 5) {
+        var y = 1
+      }
+    }`
+
+    let error: unknown = undefined
+    try {
+      transpileText(code)
+    } catch (err) {
+      error = err
+    }
+
+    expect(error).to.be.instanceOf(MultipleWorkflowSyntaxErrors)
+    const errors = (error as MultipleWorkflowSyntaxErrors).errors
+    expect(errors.map((e) => e.location.start.line)).to.deep.equal([3, 4])
+  })
+})
+
+describe('JSON output', () => {
+  it('outputs JSON', () => {
+    const code = `
+    function main(name: string, greeting = "Hello") {
+      const message = greeting + ", " + name
+      sys.log(message)
+      return message
+    }`
+
+    const observed: unknown = JSON.parse(
+      transpileText(code, { format: 'json' }),
+    )
+
+    expect(observed).to.deep.equal({
+      main: {
+        params: ['name', { greeting: 'Hello' }],
+        steps: [
+          {
+            assign1: {
+              assign: [{ message: '${greeting + ", " + name}' }],
+            },
+          },
+          {
+            call_sys_log_1: {
+              call: 'sys.log',
+              args: { data: '${message}' },
+            },
+          },
+          {
+            return1: {
+              return: '${message}',
+            },
+          },
+        ],
+      },
+    })
+  })
+
+  it('outputs the same workflow as JSON and YAML', () => {
+    const mainPath = 'samples/sample1.ts'
+    const sourceCode = fs.readFileSync(mainPath, 'utf-8')
+    const yaml = transpile(mainPath, sourceCode, undefined, false)
+    const json = transpile(mainPath, sourceCode, undefined, false, {
+      format: 'json',
+    })
+
+    expect(JSON.parse(json)).to.deep.equal(YAML.parse(yaml))
+  })
 })
 
 describe('Sample source files', () => {
@@ -469,3 +796,245 @@ describe('Sample source files', () => {
     expect(transpileAttempt).to.throw(IOError, 'not found')
   })
 })
+
+describe('Transpiling files in a program', () => {
+  let tempdir: string
+
+  beforeEach(() => {
+    tempdir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts2workflows-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempdir, { recursive: true, force: true })
+  })
+
+  it('transpiles again after an imported file changes', () => {
+    const mainPath = path.join(tempdir, 'main.ts')
+    const helperPath = path.join(tempdir, 'helper.ts')
+    const configPath = path.join(tempdir, 'tsconfig.json')
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({ compilerOptions: { noLib: true, types: [] } }),
+    )
+    fs.writeFileSync(
+      mainPath,
+      `import { helper } from './helper'
+      function main() {
+        return helper()
+      }`,
+    )
+    fs.writeFileSync(helperPath, 'export function helper() { return 1 }')
+
+    const program1 = createProgram([mainPath], configPath)
+    const observed1 = YAML.parse(
+      transpileProgramFile(program1, mainPath, true),
+    ) as unknown
+
+    fs.writeFileSync(helperPath, 'export function helper() { return 2 }')
+
+    const program2 = createProgram([mainPath], configPath)
+    const observed2 = YAML.parse(
+      transpileProgramFile(program2, mainPath, true),
+    ) as unknown
+
+    expect(observed1).to.deep.equal({
+      main: { steps: [{ return1: { return: '${helper()}' } }] },
+      helper: { steps: [{ return1: { return: 1 } }] },
+    })
+    expect(observed2).to.deep.equal({
+      main: { steps: [{ return1: { return: '${helper()}' } }] },
+      helper: { steps: [{ return1: { return: 2 } }] },
+    })
+  })
+
+  it('updates the type-aware warnings after an imported file changes', () => {
+    const mainPath = path.join(tempdir, 'main.ts')
+    const helperPath = path.join(tempdir, 'helper.ts')
+    const configPath = path.join(tempdir, 'tsconfig.json')
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({ compilerOptions: { noLib: true, types: [] } }),
+    )
+    fs.writeFileSync(
+      mainPath,
+      `import { flag } from './helper'
+      function main() {
+        if (flag()) {
+          return 1
+        }
+        return 2
+      }`,
+    )
+    fs.writeFileSync(helperPath, 'export function flag(): number { return 1 }')
+
+    const warnings1: string[] = []
+    transpileProgramFile(
+      createProgram([mainPath], configPath),
+      mainPath,
+      false,
+      {
+        onWarning: (w) => warnings1.push(w.code),
+      },
+    )
+
+    fs.writeFileSync(
+      helperPath,
+      'export function flag(): boolean { return true }',
+    )
+
+    const warnings2: string[] = []
+    transpileProgramFile(
+      createProgram([mainPath], configPath),
+      mainPath,
+      false,
+      {
+        onWarning: (w) => warnings2.push(w.code),
+      },
+    )
+
+    expect(warnings1).to.deep.equal(['TS2WF2004'])
+    expect(warnings2).to.deep.equal([])
+  })
+
+  it('transpiles several files that share an imported module', () => {
+    const main1Path = path.join(tempdir, 'main1.ts')
+    const main2Path = path.join(tempdir, 'main2.ts')
+    const helperPath = path.join(tempdir, 'helper.ts')
+    const configPath = path.join(tempdir, 'tsconfig.json')
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({ compilerOptions: { noLib: true, types: [] } }),
+    )
+    fs.writeFileSync(
+      main1Path,
+      `import { helper } from './helper'
+      function main() {
+        return helper()
+      }`,
+    )
+    fs.writeFileSync(
+      main2Path,
+      `import { helper } from './helper'
+      function main() {
+        return helper() + 1
+      }`,
+    )
+    fs.writeFileSync(helperPath, 'export function helper() { return 1 }')
+
+    const program = createProgram([main1Path, main2Path], configPath)
+    const observed1 = YAML.parse(
+      transpileProgramFile(program, main1Path, true),
+    ) as unknown
+    const observed2 = YAML.parse(
+      transpileProgramFile(program, main2Path, true),
+    ) as unknown
+
+    expect(observed1).to.deep.equal({
+      main: { steps: [{ return1: { return: '${helper()}' } }] },
+      helper: { steps: [{ return1: { return: 1 } }] },
+    })
+    expect(observed2).to.deep.equal({
+      main: { steps: [{ return1: { return: '${helper() + 1}' } }] },
+      helper: { steps: [{ return1: { return: 1 } }] },
+    })
+  })
+
+  it('links subworkflows from YAML files given by @yaml tags', () => {
+    const mainPath = path.join(tempdir, 'main.ts')
+    const configPath = path.join(tempdir, 'tsconfig.json')
+    fs.mkdirSync(path.join(tempdir, 'legacy'))
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({ compilerOptions: { noLib: true, types: [] } }),
+    )
+    fs.writeFileSync(
+      mainPath,
+      `/** @yaml ./legacy/audit.yaml */
+      declare function legacy_audit(x: string): void
+
+      declare function not_linked(): void
+
+      function main() {
+        legacy_audit("order")
+        not_linked()
+      }`,
+    )
+    fs.writeFileSync(
+      path.join(tempdir, 'legacy', 'audit.yaml'),
+      `# Legacy subworkflows
+legacy_audit:
+  params: [x]
+  steps:
+    - log_it:
+        call: sys.log
+        args:
+          text: \${"audit " + x}
+        next: end
+unused:
+  steps:
+    - return_it:
+        return: 1
+`,
+    )
+
+    const program = createProgram([mainPath], configPath)
+    const observed = YAML.parse(
+      transpileProgramFile(program, mainPath, true),
+    ) as unknown
+
+    expect(observed).to.deep.equal({
+      main: {
+        steps: [
+          {
+            assign1: {
+              assign: [
+                { __temp: '${legacy_audit("order")}' },
+                { __temp: '${not_linked()}' },
+              ],
+            },
+          },
+        ],
+      },
+      legacy_audit: {
+        params: ['x'],
+        steps: [
+          {
+            log_it: {
+              call: 'sys.log',
+              args: { text: '${"audit " + x}' },
+              next: 'end',
+            },
+          },
+        ],
+      },
+    })
+  })
+
+  it('throws if the YAML file does not define the subworkflow', () => {
+    const mainPath = path.join(tempdir, 'main.ts')
+    const configPath = path.join(tempdir, 'tsconfig.json')
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({ compilerOptions: { noLib: true, types: [] } }),
+    )
+    fs.writeFileSync(
+      mainPath,
+      `/** @yaml audit.yaml */
+      declare function legacy_audit(): void
+
+      function main() {
+        legacy_audit()
+      }`,
+    )
+    fs.writeFileSync(
+      path.join(tempdir, 'audit.yaml'),
+      'other:\n  steps:\n    - return1:\n        return: 1\n',
+    )
+
+    const program = createProgram([mainPath], configPath)
+
+    expect(() => transpileProgramFile(program, mainPath, true))
+      .to.throw(WorkflowSyntaxError)
+      .with.property('code', 'TS2WF0005')
+  })
+})
@@ -0,0 +1,220 @@
+import { expect } from 'chai'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import {
+  createProgram,
+  transpileProgramFile,
+  transpileText,
+} from '../src/transpiler/index.js'
+import { WorkflowWarning } from '../src/errors.js'
+
+function transpileWarnings(code: string): WorkflowWarning[] {
+  const warnings: WorkflowWarning[] = []
+  transpileText(code, { onWarning: (w) => warnings.push(w) })
+  return warnings
+}
+
+describe('Warnings', () => {
+  it('warns about a function call in a conditional expression branch', () => {
+    const code = `
+    function main(x) {
+      return x > 0 ? http.get("https://example.com") : null
+    }`
+
+    const warnings = transpileWarnings(code)
+
+    expect(warnings.map((w) => w.code)).to.deep.equal(['TS2WF2001'])
+    expect(warnings[0].location.start).to.deep.equal({ line: 3, column: 21 })
+    expect(warnings[0].filename).to.equal('<stdin>')
+    expect(warnings[0].errorLine).to.equal(
+      '      return x > 0 ? http.get("https://example.com") : null',
+    )
+  })
+
+  it('does not warn about a conditional expression without calls', () => {
+    const code = `
+    function main(x) {
+      return x > 0 ? x : -x
+    }`
+
+    expect(transpileWarnings(code)).to.deep.equal([])
+  })
+
+  it('warns about a function call on the right-hand side of ??', () => {
+    const code = `
+    function main(x) {
+      return x ?? sys.now()
+    }`
+
+    const warnings = transpileWarnings(code)
+
+    expect(warnings.map((w) => w.code)).to.deep.equal(['TS2WF2002'])
+  })
+
+  it('warns about the in operator on a list literal', () => {
+    const code = `
+    function main(x) {
+      return x in ["a", "b"]
+    }`
+
+    const warnings = transpileWarnings(code)
+
+    expect(warnings.map((w) => w.code)).to.deep.equal(['TS2WF2003'])
+  })
+
+  it('warns about non-boolean conditions', () => {
+    const code = `
+    function main(x) {
+      if (x + 1) {
+        return 1
+      }
+      while ("yes") {
+        return 2
+      }
+      return !0 || x
+    }`
+
+    const warnings = transpileWarnings(code)
+
+    expect(warnings.map((w) => w.code)).to.deep.equal([
+      'TS2WF2004',
+      'TS2WF2004',
+      'TS2WF2004',
+    ])
+    expect(warnings.map((w) => w.location.start.line)).to.deep.equal([3, 6, 9])
+  })
+
+  it('warns about an uninitialized variable', () => {
+    const code = `
+    function main(xs) {
+      let total: number
+      for (const x of xs) {
+        total = x
+      }
+      return total
+    }`
+
+    const warnings = transpileWarnings(code)
+
+    expect(warnings.map((w) => w.code)).to.deep.equal(['TS2WF2005'])
+    expect(warnings[0].location.start.line).to.equal(3)
+  })
+
+  it('suppresses a warning with a comment', () => {
+    const code = `
+    function main(x) {
+      // ts2workflows-disable-next-line TS2WF2002
+      const a = x ?? sys.now()
+      const b = x ?? sys.now()
+      return [a, b]
+    }`
+
+    const warnings = transpileWarnings(code)
+
+    expect(warnings.map((w) => w.location.start.line)).to.deep.equal([5])
+  })
+
+  it('suppresses only the listed warning codes', () => {
+    const code = `
+    function main(x) {
+      // ts2workflows-disable-next-line TS2WF2001
+      return x in ["a"] ? sys.now() : 0
+    }`
+
+    const warnings = transpileWarnings(code)
+
+    expect(warnings.map((w) => w.code)).to.deep.equal(['TS2WF2003'])
+  })
+
+  it('suppresses all warnings if no code is given', () => {
+    const code = `
+    function main(x) {
+      /* ts2workflows-disable-next-line */
+      return x in ["a"] ? sys.now() : 0
+    }`
+
+    expect(transpileWarnings(code)).to.deep.equal([])
+  })
+})
+
+describe('Type-aware warnings', () => {
+  let tempdir: string
+
+  beforeEach(() => {
+    tempdir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts2workflows-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(tempdir, { recursive: true, force: true })
+  })
+
+  function transpileProjectWarnings(code: string): WorkflowWarning[] {
+    const mainPath = path.join(tempdir, 'main.ts')
+    const configPath = path.join(tempdir, 'tsconfig.json')
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({ compilerOptions: { noLib: true, types: [] } }),
+    )
+    fs.writeFileSync(mainPath, code)
+
+    const program = createProgram([mainPath], configPath)
+    const warnings: WorkflowWarning[] = []
+    transpileProgramFile(program, mainPath, false, {
+      onWarning: (w) => warnings.push(w),
+    })
+    return warnings
+  }
+
+  it('warns about non-boolean conditions', () => {
+    const code = `
+    function main(name: string, count: number, person: { name: string } | null) {
+      if (name) {
+        return 1
+      }
+      while (count) {
+        count = count - 1
+      }
+      return !person
+    }`
+
+    const warnings = transpileProjectWarnings(code)
+
+    expect(warnings.map((w) => w.code)).to.deep.equal([
+      'TS2WF2004',
+      'TS2WF2004',
+      'TS2WF2004',
+    ])
+    expect(warnings[0].message).to.include('len(name) > 0')
+    expect(warnings[1].message).to.include('count != 0')
+    expect(warnings[2].message).to.include('person != null')
+  })
+
+  it('accepts boolean conditions', () => {
+    const code = `
+    function main(a: boolean, b: boolean | undefined, c, d: unknown) {
+      if (a && b) {
+        return 1
+      }
+      if (c || d) {
+        return 2
+      }
+      return !(a || a)
+    }`
+
+    expect(transpileProjectWarnings(code)).to.deep.equal([])
+  })
+
+  it('warns about non-boolean operands of logical operators', () => {
+    const code = `
+    function main(a: boolean, item: { id: number }) {
+      return a && item
+    }`
+
+    const warnings = transpileProjectWarnings(code)
+
+    expect(warnings.map((w) => w.code)).to.deep.equal(['TS2WF2004'])
+    expect(warnings[0].message).to.include('{ id: number; }')
+    expect(warnings[0].message).to.include('item != null')
+  })
+})
@@ -34,6 +34,10 @@ declare global {
 
     // Arrays can be iterated by the for-of statement
     [Symbol.iterator](): IterableIterator<T>
+
+    // Index and value pairs. Supported only as the iterable of a for...of
+    // loop: for (const [i, x] of arr.entries())
+    entries(): IterableIterator<[number, T]>
   }
 
   interface ArrayConstructor {
@@ -43,6 +47,16 @@ declare global {
 
   var Array: ArrayConstructor
 
+  interface ObjectConstructor {
+    keys(o: object): string[]
+    values<T>(o: { [s: string]: T }): T[]
+    values(o: object): any[]
+    entries<T>(o: { [s: string]: T }): [string, T][]
+    entries(o: object): [string, any][]
+  }
+
+  var Object: ObjectConstructor
+
   interface Boolean {}
   interface CallableFunction {}
   interface Function {}